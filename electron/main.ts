@@ -1,8 +1,9 @@
 
 import { app, BrowserWindow, ipcMain, dialog } from 'electron'
-import { join } from 'path'
-import { writeFile, readFile, mkdir } from 'fs/promises'
+import { join, dirname, resolve, extname } from 'path'
+import { writeFile, readFile, mkdir, mkdtemp, rm } from 'fs/promises'
 import { existsSync } from 'fs'
+import { tmpdir } from 'os'
 
 // Prevent garbage collection
 let mainWindow: BrowserWindow | null = null
@@ -149,6 +150,99 @@ if (!gotTheLock) {
             }
         })
 
+        // ─── DSL Source Files (Code playground, with imports relative to the open file) ───
+
+        ipcMain.handle('open-dsl-file', async () => {
+            if (!mainWindow) return null
+            const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+                title: 'Open CubeGen Code',
+                filters: [{ name: 'CubeGen DSL', extensions: ['cgd'] }],
+                properties: ['openFile']
+            })
+
+            if (canceled || filePaths.length === 0) return null
+
+            try {
+                const content = await readFile(filePaths[0], 'utf-8')
+                return { path: filePaths[0], content }
+            } catch (e) {
+                console.error('Failed to open DSL file:', e)
+                return null
+            }
+        })
+
+        ipcMain.handle('save-dsl-file', async (_event, content: string, currentPath?: string) => {
+            let filePath = currentPath
+            if (!filePath) {
+                if (!mainWindow) return null
+                const result = await dialog.showSaveDialog(mainWindow, {
+                    title: 'Save CubeGen Code',
+                    defaultPath: 'diagram.cgd',
+                    filters: [{ name: 'CubeGen DSL', extensions: ['cgd'] }]
+                })
+                if (result.canceled || !result.filePath) return null
+                filePath = result.filePath
+            }
+
+            try {
+                await writeFile(filePath, content, 'utf-8')
+                return filePath
+            } catch (e) {
+                console.error('Failed to save DSL file:', e)
+                return null
+            }
+        })
+
+        // Resolve an import relative to the importing file; ".cgd" may be left off
+        ipcMain.handle('read-dsl-import', async (_event, fromFile: string, spec: string) => {
+            const candidate = resolve(dirname(fromFile), spec)
+            const filePath = !existsSync(candidate) && !extname(candidate) ? `${candidate}.cgd` : candidate
+            if (!existsSync(filePath)) return { error: `Cannot find "${spec}" (looked for ${filePath}).` }
+
+            try {
+                const content = await readFile(filePath, 'utf-8')
+                return { path: filePath, content }
+            } catch (e) {
+                console.error('Failed to read DSL import:', e)
+                return { error: `Cannot read "${spec}": ${(e as Error).message}` }
+            }
+        })
+
+        // ─── PDF Export (prints the laid-out pages offline, fonts and images are embedded) ───
+
+        ipcMain.handle('export-pdf', async (_event, html: string, fileName: string) => {
+            if (!mainWindow) return null
+            const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+                title: 'Export PDF',
+                defaultPath: fileName,
+                filters: [{ name: 'PDF Document', extensions: ['pdf'] }]
+            })
+            if (canceled || !filePath) return null
+
+            // Loaded from a file: data URLs are capped at 2 MB and embedded fonts easily exceed that
+            const dir = await mkdtemp(join(tmpdir(), 'cubegen-pdf-'))
+            const printWindow = new BrowserWindow({ show: false, webPreferences: { sandbox: true } })
+            try {
+                const htmlPath = join(dir, 'diagram.html')
+                await writeFile(htmlPath, html, 'utf-8')
+                await printWindow.loadFile(htmlPath)
+                await printWindow.webContents.executeJavaScript('document.fonts.ready.then(() => true)')
+                const pdf = await printWindow.webContents.printToPDF({
+                    preferCSSPageSize: true,
+                    printBackground: true,
+                    margins: { top: 0, bottom: 0, left: 0, right: 0 }
+                })
+                await writeFile(filePath, pdf)
+                return { path: filePath }
+            } catch (e) {
+                console.error('Failed to export PDF:', e)
+                return { error: `Could not write the PDF: ${(e as Error).message}` }
+            } finally {
+                printWindow.destroy()
+                await rm(dir, { recursive: true, force: true })
+            }
+        })
+
         // ─── Auto-Save Handlers (Background persistence to userData) ───
 
         ipcMain.handle('auto-save-to-disk', async (_event, key: string, content: string) => {
@@ -9,6 +9,14 @@ contextBridge.exposeInMainWorld('electronAPI', {
     saveFile: (content: string) => ipcRenderer.invoke('save-file', content),
     loadFile: () => ipcRenderer.invoke('load-file'),
 
+    // DSL source files and their imports
+    openDslFile: () => ipcRenderer.invoke('open-dsl-file'),
+    saveDslFile: (content: string, path?: string) => ipcRenderer.invoke('save-dsl-file', content, path),
+    readDslImport: (fromFile: string, spec: string) => ipcRenderer.invoke('read-dsl-import', fromFile, spec),
+
+    // PDF export, printed in the main process
+    exportPdf: (html: string, fileName: string) => ipcRenderer.invoke('export-pdf', html, fileName),
+
     // Auto-save to disk (background persistence)
     autoSaveToDisk: (key: string, content: string) => ipcRenderer.invoke('auto-save-to-disk', key, content),
     autoLoadFromDisk: (key: string) => ipcRenderer.invoke('auto-load-from-disk', key),
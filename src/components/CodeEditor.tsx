@@ -4,15 +4,41 @@
  * Uses a "mirror" approach: a hidden textarea captures all input/keyboard
  * events, while a visible `<div>` renders line-by-line highlighted code.
  * Both share a single scroll container so they're always in sync.
+ *
+ * Highlighting comes from the DSL syntax tree, and errors/warnings are drawn
+ * as wavy underlines over their exact column ranges.
+ *
+ * Language features: completion as you type (Ctrl+Space to force), hover
+ * info for ids, Ctrl/Cmd+click to jump to a declaration, F2 to rename an id.
  */
 
-import React, { useCallback, useRef, useState, useMemo } from 'react';
+import React, { useCallback, useEffect, useRef, useState, useMemo } from 'react';
+import { parseCubeGenAST, Token } from '../utils/cubegenAST';
+import { ParseError, resolveIconName } from '../utils/cubegenDSL';
+import {
+    getCompletions,
+    getHoverInfo,
+    findDefinition,
+    renameSymbol,
+    CompletionItem,
+    CompletionKind,
+    CompletionResult,
+    HoverInfo,
+} from '../utils/cubegenLanguageService';
+import ArchitectureIcon from './ArchitectureIcon';
 
 interface CodeEditorProps {
     value: string;
     onChange: (value: string) => void;
     placeholder?: string;
-    errorLine?: number;
+    errors?: ParseError[];
+    warnings?: ParseError[];
+    // Lines to highlight (e.g. declarations of the items selected on the canvas); the first is scrolled into view
+    selectedLines?: number[];
+    // Called whenever the caret moves, with a 1-based line and 0-based column
+    onCaretChange?: (line: number, column: number) => void;
+    // Edit code that is not CubeGen DSL: no highlighting or language features
+    plainText?: boolean;
     className?: string;
 }
 
@@ -23,6 +49,10 @@ const T = {
     bgLine: '#21222c',
     bgActive: '#44475a50',
     bgError: '#ff555520',
+    bgWarning: '#ffb86c18',
+    bgSelected: '#8be9fd1c',
+    error: '#ff5555',
+    warning: '#ffb86c',
     gutter: '#6272a4',
     gutterAct: '#f8f8f2',
     keyword: '#ff79c6',
@@ -40,6 +70,16 @@ const T = {
     scrollbar: '#6272a488',
 };
 
+const EDITOR_FONT = "'Fira Code', 'Cascadia Code', 'JetBrains Mono', 'Consolas', monospace";
+
+const KIND_STYLE: Record<CompletionKind, { glyph: string; color: string }> = {
+    keyword: { glyph: 'K', color: T.keyword },
+    id: { glyph: '#', color: T.ident },
+    attribute: { glyph: '=', color: T.prop },
+    value: { glyph: 'V', color: T.propVal },
+    icon: { glyph: '◆', color: T.number },
+};
+
 // ─── Syntax highlighter ──────────────────────────────────────────────
 
 function esc(s: string) {
@@ -50,70 +90,103 @@ function span(color: string, text: string, bold = false) {
     return `<span style="color:${color}${bold ? ';font-weight:700' : ''}">${esc(text)}</span>`;
 }
 
-function highlightLine(line: string): string {
-    if (!line) return '\n';
-    const trimmed = line.trimStart();
+// Loop and component placeholders ({i}, {name}) stand out inside ids and values
+function withPlaceholders(color: string, text: string) {
+    return text.split(/(\{[^{}\s]+\})/).map((part, i) => (i % 2 ? span(T.keyword, part) : part && span(color, part))).join('');
+}
 
-    // Comment
-    if (trimmed.startsWith('//')) {
-        const indent = line.length - trimmed.length;
-        return ' '.repeat(indent) + `<span style="color:${T.comment};font-style:italic">${esc(trimmed)}</span>`;
+function tokenHtml(token: Token): string {
+    switch (token.role) {
+        case 'comment':
+            return `<span style="color:${T.comment};font-style:italic">${esc(token.text)}</span>`;
+        case 'keyword':
+            return span(T.keyword, token.text, true);
+        case 'declaration':
+        case 'definition':
+        case 'reference':
+            return withPlaceholders(T.ident, token.text);
+        case 'label':
+            return span(T.string, token.text);
+        case 'attributeKey':
+            return span(T.prop, token.text);
+        case 'attributeValue':
+            if (token.kind === 'string') return span(T.string, token.text);
+            if (token.text.startsWith('$')) return span(T.ident, token.text);
+            return /^-?\d+(\.\d+)?$/.test(token.text) ? span(T.number, token.text) : withPlaceholders(T.propVal, token.text);
+        case 'operator':
+            return span(T.arrow, token.text, true);
+        case 'punctuation':
+            if (token.kind === 'colon') return span(T.gutter, token.text);
+            return span(T.plain, token.text, token.kind !== 'equals');
+        default:
+            // Unparsed or invalid tokens keep a neutral color; diagnostics underline them
+            return token.kind === 'string' ? span(T.string, token.text) : esc(token.text);
     }
+}
 
+function highlightLine(line: string, tokens: Token[]): string {
+    if (!line) return '\n';
     let out = '';
-    let i = 0;
-
-    while (i < line.length) {
-        const ch = line[i];
-
-        // Whitespace
-        if (ch === ' ' || ch === '\t') { out += ch; i++; continue; }
+    let pos = 0;
+    for (const token of tokens) {
+        out += esc(line.substring(pos, token.start)) + tokenHtml(token);
+        pos = token.end;
+    }
+    return out + esc(line.substring(pos));
+}
 
-        // String
-        if (ch === '"') {
-            let j = i + 1;
-            while (j < line.length && line[j] !== '"') j++;
-            out += span(T.string, line.substring(i, j + 1));
-            i = j + 1;
-            continue;
-        }
+// Stable default so memoized overlays don't recompute on every render
+const NO_PROBLEMS: ParseError[] = [];
+const NO_LINES: number[] = [];
 
-        // Arrows
-        if (line.substring(i, i + 3) === '<->') { out += span(T.arrow, '<->', true); i += 3; continue; }
-        if (line.substring(i, i + 2) === '->') { out += span(T.arrow, '->', true); i += 2; continue; }
+interface Mark {
+    start: number;
+    end: number;
+    color: string;
+}
 
-        // Braces
-        if (ch === '{' || ch === '}') { out += span(T.plain, ch, true); i++; continue; }
+/**
+ * Transparent copy of the line with wavy underlines over the marked ranges,
+ * laid over the highlighted code so it lines up character for character
+ */
+function underlineLine(line: string, marks: Mark[]): string {
+    let out = '';
+    let pos = 0;
+    [...marks].sort((a, b) => a.start - b.start).forEach(mark => {
+        const start = Math.max(mark.start, pos);
+        if (mark.end <= start) return;
+        // Problems just past the end of the line (a missing token) underline a blank cell
+        const text = line.padEnd(mark.end).substring(start, mark.end);
+        out += esc(line.substring(pos, start));
+        out += `<span style="text-decoration:underline wavy ${mark.color};text-decoration-skip-ink:none">${esc(text)}</span>`;
+        pos = mark.end;
+    });
+    return out;
+}
 
-        // Colon
-        if (ch === ':') { out += span(T.gutter, ':'); i++; continue; }
+function marksFor(problems: ParseError[], lineNum: number, line: string, color: string): Mark[] {
+    return problems
+        .filter(p => p.line === lineNum)
+        .map(p => {
+            if (p.column !== undefined && p.endColumn !== undefined) return { start: p.column, end: p.endColumn, color };
+            // Without a column range, underline the line's code
+            const start = line.length - line.trimStart().length;
+            return { start, end: Math.max(line.trimEnd().length, start + 1), color };
+        });
+}
 
-        // Equals → then value
-        if (ch === '=') {
-            out += span(T.plain, '=');
-            i++;
-            let val = '';
-            while (i < line.length && line[i] !== ' ' && line[i] !== '\t' && line[i] !== '"') { val += line[i]; i++; }
-            if (val) out += /^\d+$/.test(val) ? span(T.number, val) : span(T.propVal, val);
-            continue;
-        }
+// ─── Caret positions ─────────────────────────────────────────────────
 
-        // Word token
-        let word = '';
-        while (i < line.length && /[a-zA-Z0-9_\-]/.test(line[i])) { word += line[i]; i++; }
-        if (word) {
-            if (word === 'node' || word === 'container') out += span(T.keyword, word, true);
-            else if (i < line.length && line[i] === '=') out += span(T.prop, word);
-            else if (/^\d+$/.test(word)) out += span(T.number, word);
-            else out += span(T.ident, word);
-            continue;
-        }
+function positionAt(text: string, offset: number): { line: number; column: number } {
+    const before = text.substring(0, offset);
+    return { line: before.split('\n').length, column: offset - (before.lastIndexOf('\n') + 1) };
+}
 
-        // Fallback
-        out += esc(ch);
-        i++;
-    }
-    return out;
+function offsetAt(text: string, line: number, column: number): number {
+    const lines = text.split('\n');
+    let offset = 0;
+    for (let i = 0; i < line - 1 && i < lines.length; i++) offset += lines[i].length + 1;
+    return offset + column;
 }
 
 // ─── Component ───────────────────────────────────────────────────────
@@ -122,7 +195,11 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     value,
     onChange,
     placeholder = '// Write your CubeGen DSL code here...',
-    errorLine,
+    errors = NO_PROBLEMS,
+    warnings = NO_PROBLEMS,
+    selectedLines = NO_LINES,
+    onCaretChange,
+    plainText = false,
     className = '',
 }) => {
     const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -138,10 +215,10 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     // Track cursor position for active line highlight
     const updateActiveLine = useCallback(() => {
         if (!textareaRef.current) return;
-        const pos = textareaRef.current.selectionStart;
-        const lineNum = value.substring(0, pos).split('\n').length;
-        setActiveLine(lineNum);
-    }, [value]);
+        const { line, column } = positionAt(textareaRef.current.value, textareaRef.current.selectionStart);
+        setActiveLine(line);
+        onCaretChange?.(line, column);
+    }, [onCaretChange]);
 
     // Sync scroll between textarea and mirror
     const syncScroll = useCallback(() => {
@@ -151,8 +228,171 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
         }
     }, []);
 
-    // Handle tab key
+    // Scroll a line into view if it is outside the visible area
+    const revealLine = useCallback((line: number) => {
+        const ta = textareaRef.current;
+        if (!ta) return;
+        const top = (line - 1) * 24;
+        if (top < ta.scrollTop || top + 24 > ta.scrollTop + ta.clientHeight) {
+            ta.scrollTop = Math.max(0, top - ta.clientHeight / 2);
+            syncScroll();
+        }
+    }, [syncScroll]);
+
+    // Reveal selected lines when the selection changes (not on every edit)
+    const selectionKey = selectedLines.join(',');
+    useEffect(() => {
+        if (selectedLines.length > 0) revealLine(Math.min(...selectedLines));
+    }, [selectionKey, revealLine]);
+    const selectedSet = useMemo(() => new Set(selectedLines), [selectionKey]);
+
+    // ─── Language features ───
+
+    const [completion, setCompletion] = useState<(CompletionResult & { line: number; selected: number }) | null>(null);
+    const [hover, setHover] = useState<{ info: HoverInfo; linkable: boolean } | null>(null);
+    const [rename, setRename] = useState<{ line: number; column: number; start: number; name: string; error?: string } | null>(null);
+    const measureRef = useRef<HTMLSpanElement>(null);
+    const hoverKeyRef = useRef('');
+
+    const charWidth = () => (measureRef.current?.getBoundingClientRect().width || 78) / 10;
+
+    // Pixel position just below a line/column, relative to the editor body
+    const coordsBelow = (line: number, column: number) => {
+        const ta = textareaRef.current;
+        return {
+            top: line * 24 - (ta?.scrollTop ?? 0),
+            left: gutterWidth + 16 + column * charWidth() - (ta?.scrollLeft ?? 0),
+        };
+    };
+
+    // Select a range and bring its line into view
+    const selectRange = useCallback((line: number, start: number, end: number) => {
+        const ta = textareaRef.current;
+        if (!ta) return;
+        const base = offsetAt(ta.value, line, 0);
+        ta.focus();
+        ta.setSelectionRange(base + start, base + end);
+        revealLine(line);
+        updateActiveLine();
+    }, [revealLine, updateActiveLine]);
+
+    const refreshCompletion = useCallback((explicit: boolean) => {
+        const ta = textareaRef.current;
+        if (!ta || plainText || ta.selectionStart !== ta.selectionEnd) {
+            setCompletion(null);
+            return;
+        }
+        const { line, column } = positionAt(ta.value, ta.selectionStart);
+        const result = getCompletions(ta.value, line, column, explicit);
+        setCompletion(result ? { ...result, line, selected: 0 } : null);
+    }, [plainText]);
+
+    const acceptCompletion = useCallback((item: CompletionItem) => {
+        const ta = textareaRef.current;
+        if (!ta || !completion) return;
+        const base = offsetAt(ta.value, completion.line, 0);
+        const start = base + completion.from;
+        onChange(ta.value.substring(0, start) + item.insertText + ta.value.substring(base + completion.to));
+        setCompletion(null);
+
+        const caret = start + item.insertText.length;
+        requestAnimationFrame(() => {
+            if (!textareaRef.current) return;
+            textareaRef.current.selectionStart = textareaRef.current.selectionEnd = caret;
+            // Attribute keys end in "=", so carry straight on to their values
+            if (item.insertText.endsWith('=')) refreshCompletion(false);
+        });
+    }, [completion, onChange, refreshCompletion]);
+
+    const startRename = useCallback(() => {
+        const ta = textareaRef.current;
+        if (!ta || plainText) return;
+        const { line, column } = positionAt(ta.value, ta.selectionStart);
+        const info = getHoverInfo(ta.value, line, column);
+        if (!info) return;
+        setCompletion(null);
+        setRename({ line, column, start: info.range.start, name: info.declaration.id });
+    }, [plainText]);
+
+    const commitRename = () => {
+        const ta = textareaRef.current;
+        if (!ta || !rename) return;
+        const result = renameSymbol(ta.value, rename.line, rename.column, rename.name.trim());
+        if ('error' in result) {
+            setRename({ ...rename, error: result.error });
+            return;
+        }
+        onChange(result.code);
+        setRename(null);
+        requestAnimationFrame(() => selectRange(result.range.line, result.range.start, result.range.end));
+    };
+
+    const positionFromMouse = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+        const ta = e.currentTarget;
+        const rect = ta.getBoundingClientRect();
+        const x = e.clientX - rect.left + ta.scrollLeft - (gutterWidth + 16);
+        const y = e.clientY - rect.top + ta.scrollTop;
+        if (x < 0 || y < 0) return null;
+        return { line: Math.floor(y / 24) + 1, column: Math.floor(x / charWidth()) };
+    };
+
+    const handleMouseMove = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+        const pos = positionFromMouse(e);
+        const linkable = e.ctrlKey || e.metaKey;
+        const key = pos ? `${pos.line}:${pos.column}:${linkable}` : '';
+        if (key === hoverKeyRef.current) return;
+        hoverKeyRef.current = key;
+        const info = pos && !plainText ? getHoverInfo(e.currentTarget.value, pos.line, pos.column) : null;
+        setHover(info ? { info, linkable } : null);
+    };
+
+    const handleMouseLeave = () => {
+        hoverKeyRef.current = '';
+        setHover(null);
+    };
+
+    // Ctrl/Cmd+click jumps to the declaration of the id under the pointer
+    const handleMouseDown = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+        if (!(e.ctrlKey || e.metaKey) || plainText) return;
+        const pos = positionFromMouse(e);
+        const target = pos && findDefinition(e.currentTarget.value, pos.line, pos.column);
+        if (!target) return;
+        e.preventDefault();
+        setHover(null);
+        selectRange(target.line, target.start, target.end);
+    };
+
+    // Handle tab key, completion navigation and editor shortcuts
     const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (completion) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : completion.items.length - 1;
+                setCompletion({ ...completion, selected: (completion.selected + step) % completion.items.length });
+                return;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+                e.preventDefault();
+                acceptCompletion(completion.items[completion.selected]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                setCompletion(null);
+                return;
+            }
+            if (['ArrowLeft', 'ArrowRight', 'Home', 'End'].includes(e.key)) setCompletion(null);
+        }
+        if (e.key === ' ' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            refreshCompletion(true);
+            return;
+        }
+        if (e.key === 'F2') {
+            e.preventDefault();
+            startRename();
+            return;
+        }
         if (e.key === 'Tab') {
             e.preventDefault();
             const ta = e.currentTarget;
@@ -168,10 +408,22 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
         }
         // Update active line after keypress
         requestAnimationFrame(updateActiveLine);
-    }, [value, onChange, updateActiveLine]);
+    }, [value, onChange, updateActiveLine, completion, acceptCompletion, refreshCompletion, startRename]);
 
     // Highlighted lines (memoized)
-    const highlightedLines = useMemo(() => lines.map(l => highlightLine(l)), [value]);
+    const highlightedLines = useMemo(() => {
+        if (plainText) return lines.map(l => (l ? esc(l) : '\n'));
+        const { tokens } = parseCubeGenAST(value);
+        return lines.map((l, idx) => highlightLine(l, tokens[idx]));
+    }, [value, plainText]);
+
+    // Underline overlays for lines with problems
+    const underlines = useMemo(() => lines.map((l, idx) => {
+        const marks = [...marksFor(warnings, idx + 1, l, T.warning), ...marksFor(errors, idx + 1, l, T.error)];
+        return marks.length > 0 ? underlineLine(l, marks) : null;
+    }), [value, errors, warnings]);
+    const errorLines = useMemo(() => new Set(errors.map(e => e.line)), [errors]);
+    const warningLines = useMemo(() => new Set(warnings.map(w => w.line)), [warnings]);
 
     // Focus textarea when clicking on the mirror
     const handleMirrorClick = useCallback(() => {
@@ -203,18 +455,22 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                     ref={mirrorRef}
                     onClick={handleMirrorClick}
                     className="absolute inset-0 overflow-hidden pointer-events-none select-none"
-                    style={{ fontFamily: "'Fira Code', 'Cascadia Code', 'JetBrains Mono', 'Consolas', monospace", fontSize: 13 }}
+                    style={{ fontFamily: EDITOR_FONT, fontSize: 13 }}
                 >
+                    {/* Ten characters wide, to convert pointer positions to columns */}
+                    <span ref={measureRef} aria-hidden="true" style={{ position: 'absolute', visibility: 'hidden', whiteSpace: 'pre' }}>0123456789</span>
                     {highlightedLines.map((html, idx) => {
                         const lineNum = idx + 1;
                         const isActive = lineNum === activeLine && isFocused;
-                        const isError = lineNum === errorLine;
+                        const isError = errorLines.has(lineNum);
+                        const isWarning = !isError && warningLines.has(lineNum);
+                        const isSelected = selectedSet.has(lineNum);
                         return (
                             <div
                                 key={idx}
                                 style={{
                                     display: 'flex',
-                                    background: isError ? T.bgError : isActive ? T.bgActive : 'transparent',
+                                    background: isError ? T.bgError : isWarning ? T.bgWarning : isSelected ? T.bgSelected : isActive ? T.bgActive : 'transparent',
                                     minHeight: 24,
                                     lineHeight: '24px',
                                 }}
@@ -227,30 +483,39 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                                         textAlign: 'right',
                                         paddingRight: 12,
                                         paddingLeft: 8,
-                                        color: isError ? '#ff5555' : isActive ? T.gutterAct : T.gutter,
-                                        fontWeight: isActive || isError ? 700 : 400,
+                                        color: isError ? T.error : isWarning ? T.warning : isSelected ? T.prop : isActive ? T.gutterAct : T.gutter,
+                                        fontWeight: isActive || isError || isWarning || isSelected ? 700 : 400,
                                         background: T.bgLine,
                                         borderRight: `1px solid ${T.border}`,
                                         userSelect: 'none',
                                         flexShrink: 0,
                                     }}
                                 >
-                                    {isError && (
-                                        <span style={{ marginRight: 4, fontSize: 10 }} title="Error on this line">●</span>
+                                    {(isError || isWarning) && (
+                                        <span style={{ marginRight: 4, fontSize: 10 }} title={isError ? 'Error on this line' : 'Warning on this line'}>●</span>
                                     )}
                                     {lineNum}
                                 </div>
                                 {/* Code */}
                                 <div
                                     style={{
+                                        position: 'relative',
                                         paddingLeft: 16,
                                         paddingRight: 16,
                                         whiteSpace: 'pre',
                                         color: T.plain,
                                         overflow: 'visible',
                                     }}
-                                    dangerouslySetInnerHTML={{ __html: html || ' ' }}
-                                />
+                                >
+                                    <span dangerouslySetInnerHTML={{ __html: html || ' ' }} />
+                                    {underlines[idx] && (
+                                        <span
+                                            aria-hidden="true"
+                                            style={{ position: 'absolute', left: 16, top: 0, color: 'transparent' }}
+                                            dangerouslySetInnerHTML={{ __html: underlines[idx]! }}
+                                        />
+                                    )}
+                                </div>
                             </div>
                         );
                     })}
@@ -270,12 +535,18 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                 <textarea
                     ref={textareaRef}
                     value={value}
-                    onChange={(e) => { onChange(e.target.value); requestAnimationFrame(updateActiveLine); }}
+                    onChange={(e) => {
+                        onChange(e.target.value);
+                        requestAnimationFrame(() => { updateActiveLine(); refreshCompletion(false); });
+                    }}
                     onScroll={syncScroll}
                     onKeyDown={handleKeyDown}
-                    onClick={updateActiveLine}
+                    onClick={() => { updateActiveLine(); setCompletion(null); }}
+                    onMouseDown={handleMouseDown}
+                    onMouseMove={handleMouseMove}
+                    onMouseLeave={handleMouseLeave}
                     onFocus={() => setIsFocused(true)}
-                    onBlur={() => setIsFocused(false)}
+                    onBlur={() => { setIsFocused(false); setCompletion(null); }}
                     placeholder={placeholder}
                     spellCheck={false}
                     autoCapitalize="off"
@@ -287,7 +558,8 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                         background: 'transparent',
                         color: 'transparent',
                         caretColor: T.cursor,
-                        fontFamily: "'Fira Code', 'Cascadia Code', 'JetBrains Mono', 'Consolas', monospace",
+                        cursor: hover?.linkable ? 'pointer' : 'text',
+                        fontFamily: EDITOR_FONT,
                         fontSize: 13,
                         lineHeight: '24px',
                         padding: 0,
@@ -303,6 +575,154 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                         // (the textarea IS the scroll container)
                     }}
                 />
+
+                {/* ─── Completion list ─── */}
+                {completion && isFocused && (
+                    <div
+                        role="listbox"
+                        style={{
+                            position: 'absolute',
+                            ...coordsBelow(completion.line, completion.from),
+                            zIndex: 3,
+                            minWidth: 220,
+                            maxWidth: 420,
+                            maxHeight: 8 * 24,
+                            overflowY: 'auto',
+                            background: T.bgLine,
+                            border: `1px solid ${T.border}`,
+                            borderRadius: 6,
+                            boxShadow: '0 8px 24px rgba(0, 0, 0, 0.4)',
+                            fontFamily: EDITOR_FONT,
+                            fontSize: 12,
+                        }}
+                    >
+                        {completion.items.map((item, i) => {
+                            const isSelected = i === completion.selected;
+                            return (
+                                <div
+                                    key={`${item.kind}-${item.label}`}
+                                    role="option"
+                                    aria-selected={isSelected}
+                                    ref={isSelected ? (el) => el?.scrollIntoView({ block: 'nearest' }) : undefined}
+                                    onMouseDown={(e) => { e.preventDefault(); acceptCompletion(item); }}
+                                    style={{
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        justifyContent: 'space-between',
+                                        gap: 12,
+                                        height: 24,
+                                        padding: '0 8px',
+                                        cursor: 'pointer',
+                                        background: isSelected ? T.selection : 'transparent',
+                                        color: T.plain,
+                                    }}
+                                >
+                                    <span style={{ display: 'flex', alignItems: 'center', gap: 8, whiteSpace: 'nowrap' }}>
+                                        {item.kind === 'icon' ? (
+                                            <span style={{ color: T.number, display: 'flex' }}>
+                                                <ArchitectureIcon type={resolveIconName(item.label) ?? item.label} className="w-3.5 h-3.5" />
+                                            </span>
+                                        ) : (
+                                            <span style={{ color: KIND_STYLE[item.kind].color, width: 14, textAlign: 'center', fontWeight: 700 }}>
+                                                {KIND_STYLE[item.kind].glyph}
+                                            </span>
+                                        )}
+                                        {item.label}
+                                    </span>
+                                    {item.detail && (
+                                        <span style={{ color: T.gutter, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                            {item.detail}
+                                        </span>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
+                {/* ─── Hover info ─── */}
+                {hover && !completion && !rename && (
+                    <div
+                        style={{
+                            position: 'absolute',
+                            ...coordsBelow(hover.info.range.line, hover.info.range.start),
+                            zIndex: 3,
+                            pointerEvents: 'none',
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: 10,
+                            padding: '6px 10px',
+                            background: T.bgLine,
+                            border: `1px solid ${T.border}`,
+                            borderRadius: 6,
+                            boxShadow: '0 8px 24px rgba(0, 0, 0, 0.4)',
+                            fontSize: 12,
+                            color: T.plain,
+                            whiteSpace: 'nowrap',
+                        }}
+                    >
+                        {hover.info.declaration.icon && (
+                            <span style={{ color: T.ident, display: 'flex' }}>
+                                <ArchitectureIcon type={hover.info.declaration.icon} className="w-6 h-6" />
+                            </span>
+                        )}
+                        <div>
+                            <div style={{ fontWeight: 600 }}>{hover.info.declaration.label}</div>
+                            <div style={{ color: T.gutter }}>
+                                {hover.info.declaration.kind} {hover.info.declaration.id}
+                                {hover.info.declaration.containerType && ` · ${hover.info.declaration.containerType}`}
+                                {` · line ${hover.info.declaration.range.line}`}
+                            </div>
+                            <div style={{ color: T.gutter, fontSize: 10, marginTop: 2 }}>
+                                {hover.linkable ? 'Click to go to definition' : 'Ctrl+click: go to definition · F2: rename'}
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* ─── Rename box ─── */}
+                {rename && (
+                    <div
+                        style={{
+                            position: 'absolute',
+                            ...coordsBelow(rename.line, rename.start),
+                            zIndex: 3,
+                            padding: 6,
+                            background: T.bgLine,
+                            border: `1px solid ${T.border}`,
+                            borderRadius: 6,
+                            boxShadow: '0 8px 24px rgba(0, 0, 0, 0.4)',
+                            fontSize: 12,
+                        }}
+                    >
+                        <input
+                            autoFocus
+                            value={rename.name}
+                            onChange={(e) => setRename({ ...rename, name: e.target.value, error: undefined })}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') { e.preventDefault(); commitRename(); }
+                                if (e.key === 'Escape') { e.preventDefault(); setRename(null); textareaRef.current?.focus(); }
+                            }}
+                            onBlur={() => setRename(null)}
+                            onFocus={(e) => e.currentTarget.select()}
+                            spellCheck={false}
+                            aria-label="New id"
+                            style={{
+                                width: 220,
+                                padding: '2px 6px',
+                                background: T.bg,
+                                color: T.plain,
+                                border: `1px solid ${rename.error ? T.error : T.gutter}`,
+                                borderRadius: 4,
+                                outline: 'none',
+                                fontFamily: EDITOR_FONT,
+                            }}
+                        />
+                        <div style={{ marginTop: 4, maxWidth: 260, whiteSpace: 'normal', color: rename.error ? T.error : T.gutter }}>
+                            {rename.error || 'Enter to rename everywhere · Esc to cancel'}
+                        </div>
+                    </div>
+                )}
             </div>
 
             {/* Status bar */}
@@ -329,8 +749,12 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                     })()}
                 </span>
                 <span>{lineCount} line{lineCount !== 1 ? 's' : ''}</span>
-                <span style={{ color: errorLine ? '#ff5555' : '#50fa7b', fontWeight: 600 }}>
-                    {errorLine ? '● Error' : '● Ready'}
+                <span style={{ color: errors.length ? T.error : warnings.length ? T.warning : '#50fa7b', fontWeight: 600 }}>
+                    {errors.length
+                        ? `● ${errors.length} Error${errors.length !== 1 ? 's' : ''}`
+                        : warnings.length
+                            ? `● ${warnings.length} Warning${warnings.length !== 1 ? 's' : ''}`
+                            : '● Ready'}
                 </span>
             </div>
         </div>
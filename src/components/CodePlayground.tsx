@@ -1,6 +1,7 @@
 /**
  * CodePlayground - Code to Diagram Feature
- * User writes CubeGen DSL code, and it renders as a diagram
+ * User writes CubeGen DSL code (or pastes Terraform, CloudFormation, Compose or Kubernetes files),
+ * and it renders as a diagram
  * Same UX as GeneralArchitecturePage, but with code input instead of prompt
  */
 
@@ -13,10 +14,18 @@ import ArchitectureIcon from './ArchitectureIcon';
 
 import Toast from './Toast';
 import CodeEditor from './CodeEditor';
-import { parseCubeGenDSL, ParseError } from '../utils/cubegenDSL';
+import { parseCubeGenDSL, checkCubeGenDSL, ParseError, ParseOptions } from '../utils/cubegenDSL';
+import { ImportResolver } from '../utils/cubegenMacros';
+import { findExpandedConstructs, serializeToCubeGenDSL } from '../utils/cubegenSerializer';
+import { PdfExportOptions } from '../utils/pdfExport';
+import { findItemAtLine, findItemDeclaration, indexSources } from '../utils/cubegenLanguageService';
+import { CODE_IMPORTERS, CodeLanguage, detectCodeLanguage } from '../utils/codeImporters';
 import { explainArchitecture } from '../utils/mockDataUtils';
 import { loadProject, saveProject, useAutoSave, archiveProject, listArchivedProjects, ArchivedProject } from '../services/projectStore';
+import { exportDiagram, ExportFormat, ExportOptions } from '../services/diagramExport';
+import { canUseDslFiles, openDslFile, saveDslFile, loadDslImports, dslFileName } from '../services/dslFiles';
 import ProjectResumeModal from './ProjectResumeModal';
+import PdfExportDialog from './PdfExportDialog';
 
 // Lazy load heavy components
 const DiagramCanvas = React.lazy(() => import('./DiagramCanvas'));
@@ -60,6 +69,12 @@ user -> lb: "HTTPS"
 lb -> api: "Route"
 api -> db: "Query"`;
 
+// "line 4", or "networking.cgd line 4" for a problem inside an imported file
+const problemLocation = (problem: ParseError) =>
+    problem.file ? `${dslFileName(problem.file)} line ${problem.line}` : `line ${problem.line}`;
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
 const CodePlayground: React.FC<CodePlaygroundProps> = () => {
     const navigate = useNavigate();
 
@@ -77,7 +92,12 @@ const CodePlayground: React.FC<CodePlaygroundProps> = () => {
         const saved = loadProject(CODE_PROJECT_KEY);
         return saved?.code || EXAMPLE_CODE;
     });
-    const [parseErrors, setParseErrors] = useState<ParseError[]>([]);
+    // The DSL, or an infrastructure-as-code language converted on Generate
+    const [language, setLanguage] = useState<CodeLanguage>(() => detectCodeLanguage(loadProject(CODE_PROJECT_KEY)?.code || ''));
+    // What the last conversion skipped or approximated
+    const [conversionWarnings, setConversionWarnings] = useState<string[]>([]);
+    // Keywords a requested Sync to code would expand away, awaiting confirmation
+    const [pendingSyncConstructs, setPendingSyncConstructs] = useState<string[]>([]);
 
     const [history, setHistory] = useState<(DiagramData | null)[]>(() => {
         const saved = loadProject(CODE_PROJECT_KEY);
@@ -86,12 +106,49 @@ const CodePlayground: React.FC<CodePlaygroundProps> = () => {
     const [historyIndex, setHistoryIndex] = useState(0);
     const diagramData = history[historyIndex];
 
+    // The .cgd file the code was opened from or saved to; imports are read relative to it
+    const [codeFile, setCodeFile] = useState<string | null>(null);
+    const [importResolver, setImportResolver] = useState<ImportResolver | undefined>(undefined);
+
+    // Re-read imported files shortly after the code or its location changes
+    useEffect(() => {
+        if (!/^\s*import\s/m.test(code)) {
+            setImportResolver(undefined);
+            return;
+        }
+        let stale = false;
+        const timer = setTimeout(() => {
+            loadDslImports(code, codeFile ?? undefined).then(resolver => {
+                if (!stale) setImportResolver(() => resolver);
+            });
+        }, 400);
+        return () => {
+            stale = true;
+            clearTimeout(timer);
+        };
+    }, [code, codeFile]);
+
+    const parseOptions = useMemo<ParseOptions>(
+        () => ({ file: codeFile ?? undefined, resolveImport: importResolver }),
+        [codeFile, importResolver]
+    );
+
+    // Live diagnostics for the editor underlines and the problems list
+    const diagnostics = useMemo(
+        () => (language === 'cubegen' ? checkCubeGenDSL(code, parseOptions) : { errors: [], warnings: [] }),
+        [code, parseOptions, language]
+    );
+    // Problems inside imported files are listed, but cannot be underlined in this editor
+    const editorErrors = useMemo(() => diagnostics.errors.filter(e => !e.file), [diagnostics]);
+    const editorWarnings = useMemo(() => diagnostics.warnings.filter(w => !w.file), [diagnostics]);
+
     // ─── Auto-save on every diagram/code change (only after user has chosen) ───
     useAutoSave(CODE_PROJECT_KEY, hasChosen ? diagramData : null, hasChosen ? code : undefined);
 
     const [isExplaining, setIsExplaining] = useState<boolean>(false);
-    const [_error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
     const [successMessage, setSuccessMessage] = useState<string | null>(null);
+    const [pendingPdfExport, setPendingPdfExport] = useState<ExportOptions | null>(null);
     const [summary, setSummary] = useState<string | null>(null);
     const [showSummaryModal, setShowSummaryModal] = useState<boolean>(false);
     const [selectedIds, setSelectedIds] = useState<string[]>([]);
@@ -121,10 +178,12 @@ const CodePlayground: React.FC<CodePlaygroundProps> = () => {
     const handleNewProject = useCallback(() => {
         archiveProject(CODE_PROJECT_KEY);
         setCode(EXAMPLE_CODE);
+        setLanguage('cubegen');
+        setConversionWarnings([]);
+        setCodeFile(null);
         setHistory([null]);
         setHistoryIndex(0);
         setSelectedIds([]);
-        setParseErrors([]);
         setIsPlaygroundMode(false);
         setShowResumeModal(false);
         setHasChosen(true);
@@ -132,7 +191,12 @@ const CodePlayground: React.FC<CodePlaygroundProps> = () => {
 
     const handleLoadArchived = useCallback((project: ArchivedProject) => {
         // Load this archived project's data
-        if (project.code) setCode(project.code);
+        if (project.code) {
+            setCode(project.code);
+            setLanguage(detectCodeLanguage(project.code));
+        }
+        setConversionWarnings([]);
+        setCodeFile(null);
         if (project.diagramData) {
             setHistory([project.diagramData]);
             setHistoryIndex(0);
@@ -152,147 +216,20 @@ const CodePlayground: React.FC<CodePlaygroundProps> = () => {
         }
     }, [isEditingTitle]);
 
-    const downloadBlob = (blob: Blob, filename: string) => {
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = filename;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-    };
-
-    const handleExport = async (format: 'png' | 'json' | 'html') => {
+    const runExport = (format: ExportFormat, options: ExportOptions) => {
         if (!diagramData) return;
-        const filename = diagramData.title.replace(/[\s/]/g, '_').toLowerCase();
-
-        if (format === 'json') {
-            const dataStr = JSON.stringify(diagramData, null, 2);
-            const blob = new Blob([dataStr], { type: 'application/json' });
-            downloadBlob(blob, `${filename}.json`);
-            return;
-        }
-
-        const svgElement = svgRef.current;
-        if (!svgElement) {
-            setError("Export failed: SVG element not found.");
-            return;
-        }
-
-        const svgClone = svgElement.cloneNode(true) as SVGSVGElement;
-        const originalElements = Array.from(svgElement.querySelectorAll('*'));
-        originalElements.unshift(svgElement);
-        const clonedElements = Array.from(svgClone.querySelectorAll('*'));
-        clonedElements.unshift(svgClone);
-
-        originalElements.forEach((sourceEl, index) => {
-            const targetEl = clonedElements[index] as Element;
-            if (targetEl && (targetEl as SVGElement).style) {
-                const computedStyle = window.getComputedStyle(sourceEl as Element);
-                let cssText = '';
-                for (let i = 0; i < computedStyle.length; i++) {
-                    const prop = computedStyle[i];
-                    cssText += `${prop}: ${computedStyle.getPropertyValue(prop)};`;
-                }
-                (targetEl as SVGElement).style.cssText = cssText;
-            }
-        });
-
-        const contentGroup = svgElement.querySelector('#diagram-content');
-        if (!contentGroup) {
-            setError("Export failed: Diagram content not found.");
-            return;
-        }
-        const bbox = (contentGroup as SVGGraphicsElement).getBBox();
-
-        const padding = 20;
-        const exportWidth = Math.round(bbox.width + padding * 2);
-        const exportHeight = Math.round(bbox.height + padding * 2);
-
-        svgClone.setAttribute('width', `${exportWidth}`);
-        svgClone.setAttribute('height', `${exportHeight}`);
-        svgClone.setAttribute('viewBox', `0 0 ${exportWidth} ${exportHeight}`);
-
-        const exportRoot = document.createElementNS('http://www.w3.org/2000/svg', 'g');
-
-        const bgRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-        const rootStyle = getComputedStyle(document.documentElement);
-        const bgColor = rootStyle.getPropertyValue('--color-canvas-bg').trim() || '#FFF9FB';
-        bgRect.setAttribute('width', '100%');
-        bgRect.setAttribute('height', '100%');
-        bgRect.setAttribute('fill', bgColor);
-        exportRoot.appendChild(bgRect);
-
-        const clonedContentGroup = svgClone.querySelector('#diagram-content');
-        if (clonedContentGroup instanceof globalThis.Element) {
-            clonedContentGroup.setAttribute('transform', `translate(${-bbox.x + padding}, ${-bbox.y + padding})`);
-            exportRoot.appendChild(clonedContentGroup);
-        }
-
-        const clonedDefs = svgClone.querySelector<SVGDefsElement>('defs');
-        if (clonedDefs) {
-            exportRoot.insertBefore(clonedDefs, exportRoot.firstChild);
-        }
-
-        while (svgClone.firstChild) {
-            svgClone.removeChild(svgClone.firstChild);
-        }
-        svgClone.appendChild(exportRoot);
-
-        const serializer = new XMLSerializer();
-        let svgString = serializer.serializeToString(svgClone);
-        svgString = svgString.replace(/xmlns:xlink="http:\/\/www.w3.org\/1999\/xlink"/g, '');
-
-        if (format === 'html') {
-            const htmlString = `
-                <!DOCTYPE html>
-                <html lang="en">
-                <head>
-                    <meta charset="UTF-8">
-                    <title>${diagramData.title}</title>
-                    <style> body { margin: 0; background-color: #f0f0f0; display: flex; justify-content: center; align-items: center; min-height: 100vh; padding: 2rem; box-sizing: border-box; } svg { max-width: 100%; height: auto; box-shadow: 0 10px 30px rgba(0,0,0,0.1); border-radius: 1rem; } </style>
-                </head>
-                <body>${svgString}</body>
-                </html>`;
-            const blob = new Blob([htmlString], { type: 'text/html' });
-            downloadBlob(blob, `${filename}.html`);
-            return;
-        }
+        exportDiagram(format, { data: diagramData, svg: svgRef.current, selectedIds, setSelectedIds }, options, setSuccessMessage);
+    };
 
-        if (format === 'png') {
-            const canvas = document.createElement('canvas');
-            const scale = 2;
-            canvas.width = exportWidth * scale;
-            canvas.height = exportHeight * scale;
-            const ctx = canvas.getContext('2d');
+    // PDF asks for the page setup first
+    const handleExport = (format: ExportFormat, options: ExportOptions) => {
+        if (format === 'pdf') setPendingPdfExport(options);
+        else runExport(format, options);
+    };
 
-            if (!ctx) {
-                setError("Export failed: Could not create canvas context.");
-                return;
-            }
-            ctx.scale(scale, scale);
-
-            const img = new Image();
-            const svgUrl = `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svgString)))}`;
-
-            img.onload = () => {
-                ctx.drawImage(img, 0, 0);
-                canvas.toBlob((blob) => {
-                    if (blob) {
-                        downloadBlob(blob, `${filename}.png`);
-                    } else {
-                        setError("Export failed: Canvas returned empty blob for png.");
-                    }
-                }, 'image/png');
-            };
-
-            img.onerror = () => {
-                setError("Export failed: The generated SVG could not be loaded as an image.");
-            };
-
-            img.src = svgUrl;
-        }
+    const handlePdfExport = (pdf: PdfExportOptions) => {
+        if (pendingPdfExport) runExport('pdf', { ...pendingPdfExport, pdf });
+        setPendingPdfExport(null);
     };
 
     const handleDiagramUpdate = (newData: DiagramData, fromHistory = false) => {
@@ -328,28 +265,118 @@ const CodePlayground: React.FC<CodePlaygroundProps> = () => {
     };
 
     // Parse code and generate diagram - instant, no loading state needed
-    const handleGenerate = useCallback(() => {
+    const handleGenerate = useCallback(async () => {
         if (!code.trim()) {
             setError("Please enter some code.");
             return;
         }
 
         setError(null);
-        setParseErrors([]);
 
-        const result = parseCubeGenDSL(code);
+        if (language !== 'cubegen') {
+            const converted = CODE_IMPORTERS[language].convert(code);
+            setConversionWarnings(converted.warnings);
+            if (!converted.success || !converted.data) {
+                // One message per line, shown above the conversion warnings
+                setError(converted.errors.join('\n') || `Could not convert the ${CODE_IMPORTERS[language].label} code`);
+                return;
+            }
+            setHistory([converted.data]);
+            setHistoryIndex(0);
+            setSelectedIds([]);
+            const count = converted.warnings.length;
+            setSuccessMessage(count === 0 ? 'Diagram Generated!' : `Diagram generated with ${count} warning${count !== 1 ? 's' : ''}`);
+            setTimeout(() => handleFitToScreen(), 100);
+            return;
+        }
+
+        // Read imports fresh so edits made to them on disk are picked up
+        const file = codeFile ?? undefined;
+        const resolveImport = /^\s*import\s/m.test(code) ? await loadDslImports(code, file) : undefined;
+        const result = parseCubeGenDSL(code, { file, resolveImport });
 
-        if (result.success && result.data) {
+        // Lines with errors are skipped; whatever parsed cleanly still renders
+        if (result.data) {
             setHistory([result.data]);
             setHistoryIndex(0);
             setSelectedIds([]);
-            setSuccessMessage('Diagram Generated!');
+            const count = result.errors.length;
+            setSuccessMessage(count === 0 ? 'Diagram Generated!' : `Diagram generated with ${count} error${count !== 1 ? 's' : ''}`);
             setTimeout(() => handleFitToScreen(), 100);
-        } else {
-            setParseErrors(result.errors);
-            setError(`Syntax error on line ${result.errors[0]?.line}: ${result.errors[0]?.message}`);
         }
-    }, [code]);
+        // Otherwise the problems list already shows why nothing parsed
+    }, [code, codeFile, language]);
+
+    // Switching language swaps in its example unless the code has been edited
+    const handleLanguageChange = useCallback((next: CodeLanguage) => {
+        const example = (lang: CodeLanguage) => (lang === 'cubegen' ? EXAMPLE_CODE : CODE_IMPORTERS[lang].example);
+        if (!code.trim() || code === example(language)) setCode(example(next));
+        setLanguage(next);
+        setConversionWarnings([]);
+        setError(null);
+    }, [code, language]);
+
+    // ─── DSL files (desktop app) ───
+    const handleOpenCode = useCallback(async () => {
+        try {
+            const file = await openDslFile();
+            if (!file) return;
+            setCode(file.content);
+            setCodeFile(file.path);
+            setSuccessMessage(`Opened ${dslFileName(file.path)}`);
+        } catch (error) {
+            console.error('Failed to open code file:', error);
+            setError('Failed to open code file');
+        }
+    }, []);
+
+    const handleSaveCode = useCallback(async () => {
+        try {
+            const path = await saveDslFile(code, codeFile ?? undefined);
+            if (!path) return;
+            setCodeFile(path);
+            setSuccessMessage(`Saved ${dslFileName(path)}`);
+        } catch (error) {
+            console.error('Failed to save code file:', error);
+            setError('Failed to save code file');
+        }
+    }, [code, codeFile]);
+
+    // Rewrite the code from the current diagram so canvas edits flow back into the DSL.
+    // Code with constants, styles, loops, components or imports is only replaced once confirmed,
+    // since those come back expanded into plain statements.
+    const handleSyncToCode = useCallback((confirmed = false) => {
+        if (!diagramData) return;
+        const expanded = language === 'cubegen' && !confirmed ? findExpandedConstructs(code) : [];
+        if (expanded.length > 0) {
+            setPendingSyncConstructs(expanded);
+            return;
+        }
+        setPendingSyncConstructs([]);
+        setCode(serializeToCubeGenDSL(diagramData));
+        setLanguage('cubegen');
+        setConversionWarnings([]);
+        setError(null);
+        setSuccessMessage('Code synced from diagram');
+    }, [diagramData, code, language]);
+
+    // ─── Selection sync between the editor and the canvas ───
+    // Canvas selection highlights the declaring lines; the caret on a declaration selects its item.
+    // The code is parsed and expanded once per edit, not per selected item or caret move.
+    const sourceIndex = useMemo(() => (language === 'cubegen' ? indexSources(code) : null), [code, language]);
+
+    const selectedLines = useMemo(() => {
+        if (!diagramData || !sourceIndex) return [];
+        return selectedIds
+            .map(id => findItemDeclaration(sourceIndex, diagramData, id)?.line)
+            .filter((line): line is number => line !== undefined);
+    }, [sourceIndex, diagramData, selectedIds]);
+
+    const handleCaretChange = useCallback((line: number) => {
+        if (!diagramData || !sourceIndex) return;
+        const id = findItemAtLine(sourceIndex, diagramData, line);
+        if (id && !(selectedIds.length === 1 && selectedIds[0] === id)) setSelectedIds([id]);
+    }, [sourceIndex, diagramData, selectedIds]);
 
     const handleExplain = useCallback(async () => {
         if (!diagramData) return;
@@ -498,29 +525,126 @@ const CodePlayground: React.FC<CodePlaygroundProps> = () => {
                     {/* Code Editor Panel */}
                     <motion.aside variants={pageItemVariants} className="lg:col-span-4 rounded-2xl shadow-sm flex flex-col glass-panel p-4">
                         <div className="flex items-center justify-between mb-4">
-                            <h2 className="text-lg font-semibold flex items-center gap-2">
-                                <ArchitectureIcon type={IconType.FileCode} className="w-5 h-5" />
-                                Code Editor
-                            </h2>
-                            <button
-                                onClick={handleGenerate}
-                                className="px-4 py-2 bg-[var(--color-accent-soft)] text-[var(--color-accent-text)] rounded-lg font-medium hover:bg-[var(--color-accent-text)] hover:text-white transition-colors"
-                            >
-                                Generate
-                            </button>
+                            <div className="min-w-0">
+                                <h2 className="text-lg font-semibold flex items-center gap-2">
+                                    <ArchitectureIcon type={IconType.FileCode} className="w-5 h-5" />
+                                    Code Editor
+                                </h2>
+                                {codeFile && (
+                                    <p className="text-xs text-[var(--color-text-tertiary)] truncate" title={codeFile}>{dslFileName(codeFile)}</p>
+                                )}
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <select
+                                    value={language}
+                                    onChange={(e) => handleLanguageChange(e.target.value as CodeLanguage)}
+                                    title="Language of the code"
+                                    className="px-2 py-2 border border-[var(--color-border)] bg-transparent text-[var(--color-text-secondary)] rounded-lg text-sm font-medium hover:bg-[var(--color-button-bg-hover)] transition-colors"
+                                >
+                                    <option value="cubegen">CubeGen DSL</option>
+                                    {(Object.keys(CODE_IMPORTERS) as (keyof typeof CODE_IMPORTERS)[]).map(lang => (
+                                        <option key={lang} value={lang}>{CODE_IMPORTERS[lang].label}</option>
+                                    ))}
+                                </select>
+                                {canUseDslFiles() && language === 'cubegen' && (
+                                    <>
+                                        <button
+                                            onClick={handleOpenCode}
+                                            title="Open a .cgd file"
+                                            className="px-3 py-2 border border-[var(--color-border)] text-[var(--color-text-secondary)] rounded-lg font-medium hover:bg-[var(--color-button-bg-hover)] transition-colors"
+                                        >
+                                            Open
+                                        </button>
+                                        <button
+                                            onClick={handleSaveCode}
+                                            title={codeFile ? `Save to ${dslFileName(codeFile)}` : 'Save the code to a .cgd file'}
+                                            className="px-3 py-2 border border-[var(--color-border)] text-[var(--color-text-secondary)] rounded-lg font-medium hover:bg-[var(--color-button-bg-hover)] transition-colors"
+                                        >
+                                            Save
+                                        </button>
+                                    </>
+                                )}
+                                <button
+                                    onClick={() => handleSyncToCode()}
+                                    disabled={!diagramData}
+                                    title="Replace the code with the current diagram"
+                                    className="px-4 py-2 border border-[var(--color-border)] text-[var(--color-text-secondary)] rounded-lg font-medium hover:bg-[var(--color-button-bg-hover)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    Sync to code
+                                </button>
+                                <button
+                                    onClick={handleGenerate}
+                                    className="px-4 py-2 bg-[var(--color-accent-soft)] text-[var(--color-accent-text)] rounded-lg font-medium hover:bg-[var(--color-accent-text)] hover:text-white transition-colors"
+                                >
+                                    Generate
+                                </button>
+                            </div>
                         </div>
                         <CodeEditor
                             value={code}
                             onChange={setCode}
-                            errorLine={parseErrors[0]?.line}
+                            errors={editorErrors}
+                            warnings={editorWarnings}
+                            selectedLines={selectedLines}
+                            onCaretChange={handleCaretChange}
+                            plainText={language !== 'cubegen'}
+                            placeholder={language === 'cubegen' ? undefined : `Paste your ${CODE_IMPORTERS[language].label} code here...`}
                             className="flex-1"
                         />
-                        {parseErrors.length > 0 && (
+                        {diagnostics.errors.length > 0 && (
                             <div className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
                                 <strong>Errors:</strong>
                                 <ul className="mt-1 list-disc list-inside">
-                                    {parseErrors.map((err, i) => (
-                                        <li key={i}>Line {err.line}: {err.message}</li>
+                                    {diagnostics.errors.map((err, i) => (
+                                        <li key={i}>{capitalize(problemLocation(err))}: {err.message}</li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+                        {diagnostics.warnings.length > 0 && (
+                            <div className="mt-4 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-amber-400 text-sm">
+                                <strong>Warnings:</strong>
+                                <ul className="mt-1 list-disc list-inside">
+                                    {diagnostics.warnings.map((warning, i) => (
+                                        <li key={i}>{capitalize(problemLocation(warning))}: {warning.message}</li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+                        {error && (
+                            <div className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm whitespace-pre-line">
+                                {error}
+                            </div>
+                        )}
+                        {pendingSyncConstructs.length > 0 && (
+                            <div className="mt-4 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-amber-400 text-sm">
+                                <strong>Replace the code?</strong>
+                                <p className="mt-1">
+                                    Your code uses {pendingSyncConstructs.join(', ')}. Sync to code writes the diagram out
+                                    as plain nodes, containers and connections, so these will be expanded and lost.
+                                </p>
+                                <div className="mt-2 flex gap-2 justify-end">
+                                    <button
+                                        onClick={() => setPendingSyncConstructs([])}
+                                        className="px-3 py-1 rounded-md text-[var(--color-text-secondary)] hover:bg-[var(--color-button-bg-hover)] transition-colors"
+                                    >
+                                        Cancel
+                                    </button>
+                                    <button
+                                        onClick={() => handleSyncToCode(true)}
+                                        className="px-3 py-1 rounded-md bg-amber-500/20 text-amber-400 font-medium hover:bg-amber-500/30 transition-colors"
+                                    >
+                                        Replace code
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                        {conversionWarnings.length > 0 && (
+                            <div className="mt-4 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-amber-400 text-sm">
+                                <strong>Warnings:</strong>
+                                <ul className="mt-1 list-disc list-inside">
+                                    {conversionWarnings.map((warning, i) => (
+                                        <li key={i}>{warning}</li>
                                     ))}
                                 </ul>
                             </div>
@@ -580,6 +704,8 @@ const CodePlayground: React.FC<CodePlaygroundProps> = () => {
                                             <Suspense fallback={null}>
                                                 <Toolbar
                                                     onExport={handleExport}
+                                                    hasSelection={selectedIds.length > 0}
+                                                    containers={diagramData?.containers}
                                                     onExplain={handleExplain}
                                                     isExplaining={isExplaining}
                                                     onUndo={handleUndo}
@@ -649,6 +775,8 @@ const CodePlayground: React.FC<CodePlaygroundProps> = () => {
                 )}
             </AnimatePresence>
 
+            <PdfExportDialog isOpen={!!pendingPdfExport} onExport={handlePdfExport} onCancel={() => setPendingPdfExport(null)} />
+
             <AnimatePresence>
                 {showSummaryModal && summary && (
                     <SummaryModal summary={summary} onClose={() => setShowSummaryModal(false)} />
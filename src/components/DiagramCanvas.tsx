@@ -779,6 +779,7 @@ const DiagramCanvas: React.FC<DiagramCanvasProps> = ({
               return (
                 <g
                   key={link.id}
+                  data-link-id={link.id}
                   onClick={(e) => {
                     e.stopPropagation();
                     handleItemSelection(e, link.id);
@@ -896,7 +897,7 @@ const DiagramCanvas: React.FC<DiagramCanvasProps> = ({
               const linkColor = link.color || assignedColor || 'var(--color-link)';
 
               return (
-                <g key={`${link.id} -label`} style={{ pointerEvents: 'none' }}>
+                <g key={`${link.id} -label`} data-link-id={link.id} style={{ pointerEvents: 'none' }}>
                   {/* Shadow layer for depth */}
                   <rect
                     x={labelPos.x - labelWidth / 2 + 1}
@@ -1330,6 +1331,7 @@ const DiagramContainer = memo<DiagramContainerProps>((props) => {
   return (
     <g
       ref={ref}
+      data-container-id={container.id}
       onClick={(e) => onSelect(e, container.id)}
       onContextMenu={(e) => onContextMenu(e, container)}
       style={{ cursor: isEditable ? 'move' : 'default', pointerEvents: 'all' }}
@@ -0,0 +1,113 @@
+/**
+ * ExportMenu
+ * Contents of the export dropdowns: what to export (the whole diagram, the selection or
+ * one container with everything in it), one entry per export writer, then the options
+ * that apply to every format (scale, padding, background).
+ */
+
+import React from 'react';
+import { Container } from '../types';
+import { EXPORT_WRITERS, ExportFormat, ExportOptions } from '../services/diagramExport';
+import { isTextExportFormat } from '../utils/textExporters';
+
+interface ExportMenuProps {
+    options: ExportOptions;
+    onOptionsChange: (options: ExportOptions) => void;
+    onExport: (format: ExportFormat, options: ExportOptions) => void;
+    /** Whether anything is selected, for exporting the selection */
+    hasSelection?: boolean;
+    /** The diagram's containers, each of which can be exported on its own */
+    containers?: Container[];
+}
+
+const SCALES = [1, 2, 3, 4];
+
+const itemClass = 'block px-3 py-1.5 text-sm text-[var(--color-text-primary)] hover:bg-[var(--color-button-bg-hover)] rounded-md cursor-pointer';
+
+const fieldClass = 'text-xs px-1 py-0.5 rounded border border-[var(--color-border)] bg-[var(--color-input-bg)] text-[var(--color-text-primary)]';
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ options, onOptionsChange, onExport, hasSelection = false, containers = [] }) => {
+    const update = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) => {
+        onOptionsChange({ ...options, [key]: value });
+    };
+    const formats = Object.keys(EXPORT_WRITERS) as ExportFormat[];
+    // A scope that no longer applies (selection cleared, container deleted) falls back to the whole diagram
+    const scopeValid = options.scope === 'selection' ? hasSelection
+        : options.scope === 'container' ? containers.some(c => c.id === options.containerId)
+        : true;
+    const scopeValue = !scopeValid ? 'diagram' : options.scope === 'container' ? `container:${options.containerId}` : options.scope;
+
+    const handleScopeChange = (value: string) => {
+        if (value.startsWith('container:')) onOptionsChange({ ...options, scope: 'container', containerId: value.slice('container:'.length) });
+        else onOptionsChange({ ...options, scope: value as 'diagram' | 'selection', containerId: undefined });
+    };
+
+    const handleExport = (format: ExportFormat) => {
+        onExport(format, scopeValid ? options : { ...options, scope: 'diagram', containerId: undefined });
+    };
+
+    return (
+        <>
+            <div className="px-3 py-1.5 text-xs text-[var(--color-text-secondary)]">
+                <label className="flex items-center justify-between gap-2">
+                    <span>Export</span>
+                    <select
+                        value={scopeValue}
+                        onChange={(e) => handleScopeChange(e.target.value)}
+                        className={`${fieldClass} min-w-0 max-w-[8.5rem]`}
+                    >
+                        <option value="diagram">Whole diagram</option>
+                        <option value="selection" disabled={!hasSelection}>Selection</option>
+                        {containers.map(container => (
+                            <option key={container.id} value={`container:${container.id}`}>{container.label || container.id}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+            <div className="my-1 border-t border-[var(--color-border)]" />
+            {formats.filter(f => !isTextExportFormat(f)).map(format => (
+                <a key={format} onClick={() => handleExport(format)} className={itemClass}>{EXPORT_WRITERS[format].label}</a>
+            ))}
+            <div className="my-1 border-t border-[var(--color-border)]" />
+            {formats.filter(isTextExportFormat).map(format => (
+                <a key={format} onClick={() => handleExport(format)} className={itemClass}>{EXPORT_WRITERS[format].label}</a>
+            ))}
+            <div className="my-1 border-t border-[var(--color-border)]" />
+
+            <div className="px-3 py-1.5 space-y-2 text-xs text-[var(--color-text-secondary)]">
+                <label className="flex items-center justify-between">
+                    <span>Scale</span>
+                    <select
+                        value={options.scale}
+                        onChange={(e) => update('scale', Number(e.target.value))}
+                        className={fieldClass}
+                    >
+                        {SCALES.map(scale => <option key={scale} value={scale}>{scale}x</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center justify-between">
+                    <span>Padding</span>
+                    <input
+                        type="number"
+                        min={0}
+                        max={200}
+                        value={options.padding}
+                        onChange={(e) => update('padding', Math.max(0, Number(e.target.value) || 0))}
+                        className={`${fieldClass} w-14`}
+                    />
+                </label>
+                <label className="flex items-center">
+                    <input
+                        type="checkbox"
+                        checked={options.transparent}
+                        onChange={(e) => update('transparent', e.target.checked)}
+                        className="rounded border-gray-300"
+                    />
+                    <span className="ml-2">Transparent background</span>
+                </label>
+            </div>
+        </>
+    );
+};
+
+export default ExportMenu;
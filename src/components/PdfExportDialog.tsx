@@ -0,0 +1,127 @@
+/**
+ * PdfExportDialog
+ * Page setup for PDF export: page size, orientation, fit to one page or tile across
+ * several at 100%, and the title block. Options are kept between exports.
+ */
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { PdfExportOptions, PdfPageSize, PdfOrientation, PdfLayout, PDF_PAGE_SIZES, DEFAULT_PDF_OPTIONS } from '../utils/pdfExport';
+
+interface PdfExportDialogProps {
+    isOpen: boolean;
+    /** Called with the chosen options */
+    onExport: (options: PdfExportOptions) => void;
+    onCancel: () => void;
+}
+
+const modal = {
+    hidden: { opacity: 0, scale: 0.92, y: 24 },
+    visible: { opacity: 1, scale: 1, y: 0, transition: { type: 'spring' as const, damping: 25, stiffness: 350 } },
+    exit: { opacity: 0, scale: 0.95, y: 10, transition: { duration: 0.15 } },
+};
+
+const fieldClass = 'w-full text-sm px-2 py-1.5 rounded-md border border-[var(--color-border)] bg-[var(--color-input-bg)] text-[var(--color-text-primary)]';
+
+const PdfExportDialog: React.FC<PdfExportDialogProps> = ({ isOpen, onExport, onCancel }) => {
+    const [options, setOptions] = useState<PdfExportOptions>(DEFAULT_PDF_OPTIONS);
+
+    const update = <K extends keyof PdfExportOptions>(key: K, value: PdfExportOptions[K]) => {
+        setOptions(prev => ({ ...prev, [key]: value }));
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    key="pdf-backdrop"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="fixed inset-0 z-[999] flex items-center justify-center"
+                    style={{ background: 'rgba(0,0,0,0.45)', backdropFilter: 'blur(6px)' }}
+                    onClick={onCancel}
+                >
+                    <motion.div
+                        key="pdf-modal"
+                        variants={modal}
+                        initial="hidden"
+                        animate="visible"
+                        exit="exit"
+                        className="w-full max-w-sm mx-4 rounded-2xl shadow-2xl p-6 bg-[var(--color-panel-bg)] border border-[var(--color-border)]"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)] mb-4">Export PDF</h2>
+
+                        <div className="space-y-4">
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Page size</label>
+                                    <select
+                                        value={options.pageSize}
+                                        onChange={(e) => update('pageSize', e.target.value as PdfPageSize)}
+                                        className={fieldClass}
+                                    >
+                                        {(Object.keys(PDF_PAGE_SIZES) as PdfPageSize[]).map(size => (
+                                            <option key={size} value={size}>{PDF_PAGE_SIZES[size].label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Orientation</label>
+                                    <select
+                                        value={options.orientation}
+                                        onChange={(e) => update('orientation', e.target.value as PdfOrientation)}
+                                        className={fieldClass}
+                                    >
+                                        <option value="landscape">Landscape</option>
+                                        <option value="portrait">Portrait</option>
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-xs font-medium text-[var(--color-text-secondary)] mb-1">Layout</label>
+                                <select
+                                    value={options.layout}
+                                    onChange={(e) => update('layout', e.target.value as PdfLayout)}
+                                    className={fieldClass}
+                                >
+                                    <option value="fit">Fit to one page</option>
+                                    <option value="tile">Tile across pages (100%)</option>
+                                </select>
+                            </div>
+
+                            <label className="flex items-center">
+                                <input
+                                    type="checkbox"
+                                    checked={options.titleBlock}
+                                    onChange={(e) => update('titleBlock', e.target.checked)}
+                                    className="rounded border-gray-300"
+                                />
+                                <span className="ml-2 text-sm text-[var(--color-text-primary)]">Title block (title, type and date)</span>
+                            </label>
+                        </div>
+
+                        <div className="flex justify-end gap-2 mt-6">
+                            <button
+                                onClick={onCancel}
+                                className="px-4 py-2 rounded-lg text-sm font-medium text-[var(--color-text-primary)] bg-[var(--color-button-bg)] hover:bg-[var(--color-button-bg-hover)] transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={() => onExport(options)}
+                                className="px-4 py-2 rounded-lg text-sm font-bold text-[var(--color-accent-text-strong)] bg-[var(--color-accent)] hover:bg-[var(--color-accent-hover)] transition-colors"
+                            >
+                                Export
+                            </button>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default PdfExportDialog;
@@ -8,6 +8,10 @@ import { customAlphabet } from 'nanoid';
 import { zoomIdentity, ZoomTransform } from 'd3-zoom';
 import Toast from './Toast';
 import AddNodePanel from './AddNodePanel';
+import PdfExportDialog from './PdfExportDialog';
+import { importDiagram, IMPORT_FILE_TYPES } from '../utils/diagramImport';
+import { PdfExportOptions } from '../utils/pdfExport';
+import { exportDiagram, ExportFormat, ExportOptions } from '../services/diagramExport';
 
 const nanoid = customAlphabet('1234567890abcdef', 10);
 
@@ -34,6 +38,9 @@ const Playground: React.FC<PlaygroundProps> = (props) => {
     const [resizingNodeId, setResizingNodeId] = useState<string | null>(null);
     const [toastMessage, setToastMessage] = useState<string | null>(null);
     const [isViewMode, setIsViewMode] = useState(false); // Distraction-free view mode
+    const [pendingPdfExport, setPendingPdfExport] = useState<ExportOptions | null>(null);
+    // What the last import skipped or approximated, until dismissed
+    const [importWarnings, setImportWarnings] = useState<string[]>([]);
 
     // State for the new drag-to-connect feature
     const [linkingState, setLinkingState] = useState<{ sourceNodeId: string; startPos: { x: number, y: number } } | null>(null);
@@ -357,171 +364,20 @@ const Playground: React.FC<PlaygroundProps> = (props) => {
         }
     }, [linkingState, handleLinkMove, handleLinkEnd]);
 
-    const downloadBlob = (blob: Blob, filename: string) => {
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = filename;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-    };
-
-    const handleExport = async (format: 'png' | 'json' | 'html') => {
+    const runExport = (format: ExportFormat, options: ExportOptions) => {
         if (!data) return;
-        const filename = data.title.replace(/[\s/]/g, '_').toLowerCase();
-
-        if (format === 'json') {
-            const dataStr = JSON.stringify(data, null, 2);
-            const blob = new Blob([dataStr], { type: 'application/json' });
-            downloadBlob(blob, `${filename}.json`);
-            return;
-        }
-
-        const svgElement = svgRef.current;
-        if (!svgElement) {
-            setToastMessage("Export failed: SVG element not found.");
-            return;
-        }
-
-        // Calculate dimensions and background color for export
-        const contentGroup = svgElement.querySelector('.diagram-content');
-        if (!contentGroup) {
-            setToastMessage("Export failed: Diagram content not found.");
-            return;
-        }
-        const bbox = (contentGroup as SVGGraphicsElement).getBBox();
-
-        const padding = 20;
-        const exportWidth = Math.round(bbox.width + padding * 2);
-        const exportHeight = Math.round(bbox.height + padding * 2);
-
-        const rootStyle = getComputedStyle(document.documentElement);
-        const bgColor = rootStyle.getPropertyValue('--color-canvas-bg').trim() || '#FFF9FB';
-
-        if (format === 'html') {
-            const serializer = new XMLSerializer();
-            const svgString = serializer.serializeToString(svgElement);
-            // Create a simple HTML wrapper
-            const htmlString = `
-<!DOCTYPE html>
-<html>
-<head>
-    <title>${data.title}</title>
-    <style>
-        body { margin: 0; display: flex; justify-content: center; align-items: center; min-height: 100vh; background-color: ${bgColor}; }
-        svg { box-shadow: 0 4px 6px -1px rgb(0 0 0 / 0.1); background-color: ${bgColor}; }
-    </style>
-</head>
-<body>
-    ${svgString}
-</body>
-</html>`;
-            const blob = new Blob([htmlString], { type: 'text/html' });
-            downloadBlob(blob, `${filename}.html`);
-            return;
-        }
+        exportDiagram(format, { data, svg: svgRef.current, selectedIds, setSelectedIds }, options, setToastMessage);
+    };
 
-        if (format === 'png') {
-            try {
-                // 1. Clone the SVG to manipulate it for export without affecting the live view
-                const svgClone = svgElement.cloneNode(true) as SVGSVGElement;
-
-                // 2. Inline Computed Styles
-                // This is critical: Canvas doesn't know about external CSS classes.
-                // We must copy computed styles from the live elements to the cloned elements.
-                const originalElements = Array.from(svgElement.querySelectorAll('*'));
-                const clonedElements = Array.from(svgClone.querySelectorAll('*'));
-
-                // Note: deeply nested SVGs might misalign in count if shadow DOM is involved, 
-                // but for standard SVG structure this usually matches 1:1.
-                // We limit this to standard SVG elements to avoid massive perf hits on huge diagrams if needed,
-                // but checking all is safest for visual fidelity.
-                originalElements.forEach((sourceEl, index) => {
-                    const targetEl = clonedElements[index];
-                    if (targetEl && sourceEl instanceof Element && targetEl instanceof Element) {
-                        // Copy styles explicitly
-                        const computedStyle = window.getComputedStyle(sourceEl);
-                        const targetStyle = (targetEl as SVGElement).style; // Safe cast
-
-                        // We prioritize stroke, fill, coloring, and font properties
-                        // Copying ALL styles is too slow and huge.
-                        const essentialProps = ['fill', 'stroke', 'stroke-width', 'font-family', 'font-size', 'opacity', 'visibility', 'transform', 'width', 'height', 'transform-origin', 'transform-box', 'display', 'flex-direction', 'justify-content', 'align-items'];
-                        essentialProps.forEach(prop => {
-                            const val = computedStyle.getPropertyValue(prop);
-                            if (val && val !== 'none' && val !== 'auto' && val !== '0px') {
-                                targetStyle.setProperty(prop, val);
-                            }
-                        });
-
-                        // Copy CSS variables if needed? usually they are resolved by getComputedStyle into actual colors.
-                    }
-                });
-
-                // 3. Configure the Clone (Dimensions, ViewBox)
-                // Re-select content group from CLONE
-                const clonedContentGroup = svgClone.querySelector('.diagram-content');
-                if (clonedContentGroup instanceof SVGGraphicsElement) { // Check instance for safety
-                    // Adjust transform for padding
-                    clonedContentGroup.setAttribute('transform', `translate(${-bbox.x + padding}, ${-bbox.y + padding})`);
-                }
+    // PDF asks for the page setup first
+    const handleExport = (format: ExportFormat, options: ExportOptions) => {
+        if (format === 'pdf') setPendingPdfExport(options);
+        else runExport(format, options);
+    };
 
-                // Create a background rect
-                const bgRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-                bgRect.setAttribute('width', '100%');
-                bgRect.setAttribute('height', '100%');
-                bgRect.setAttribute('fill', bgColor);
-
-                // Prepend background
-                svgClone.insertBefore(bgRect, svgClone.firstChild);
-
-                svgClone.setAttribute('width', `${exportWidth}`);
-                svgClone.setAttribute('height', `${exportHeight}`);
-                svgClone.setAttribute('viewBox', `0 0 ${exportWidth} ${exportHeight}`);
-
-                // 4. Serialize to String
-                const serializer = new XMLSerializer();
-                const svgString = serializer.serializeToString(svgClone);
-
-                // 5. Draw to Canvas
-                const canvas = document.createElement('canvas');
-                const scale = 2; // Retina resolution
-                canvas.width = exportWidth * scale;
-                canvas.height = exportHeight * scale;
-                const ctx = canvas.getContext('2d');
-                if (!ctx) throw new Error("Could not create canvas context");
-
-                ctx.scale(scale, scale);
-
-                const img = new Image();
-                // Use standard Base64 encoding for the SVG
-                // unescape(encodeURIComponent(x)) handles unicode properties correctly
-                const svgUrl = `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svgString)))}`;
-
-                img.onload = () => {
-                    ctx.drawImage(img, 0, 0);
-                    canvas.toBlob((blob) => {
-                        if (blob) {
-                            downloadBlob(blob, `${filename}.png`);
-                        } else {
-                            setToastMessage("Export failed: Empty blob.");
-                        }
-                    }, 'image/png');
-                };
-
-                img.onerror = (e) => {
-                    console.error("SVG Load Error", e);
-                    setToastMessage("Export failed: Browser could not render SVG to image.");
-                };
-
-                img.src = svgUrl;
-
-            } catch (error) {
-                console.error("Export failed:", error);
-                setToastMessage("Export failed: Error preparing diagram.");
-            }
-        }
+    const handlePdfExport = (pdf: PdfExportOptions) => {
+        if (pendingPdfExport) runExport('pdf', { ...pendingPdfExport, pdf });
+        setPendingPdfExport(null);
     };
 
     const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -529,23 +385,21 @@ const Playground: React.FC<PlaygroundProps> = (props) => {
         if (!file) return;
 
         const reader = new FileReader();
-        reader.onload = (e) => {
-            try {
-                const jsonString = e.target?.result as string;
-                const importedData = JSON.parse(jsonString);
-
-                // Validate structure
-                if (!importedData.title || !Array.isArray(importedData.nodes) || !Array.isArray(importedData.links)) {
-                    throw new Error('Invalid diagram format');
-                }
-
-                // Apply imported data
-                onDataChange(importedData);
-                setToastMessage(`Imported: ${importedData.title}`);
-                setTimeout(() => fitScreenRef.current?.(), 100);
-            } catch (err) {
-                setToastMessage('Import failed: Invalid JSON file');
+        reader.onload = async (e) => {
+            // JSON exports, Mermaid flowcharts (also inside Markdown) or draw.io files
+            const result = await importDiagram(file.name, e.target?.result as string);
+            setImportWarnings(result.data ? result.warnings : []);
+            if (!result.data) {
+                setToastMessage(`Import failed: ${result.errors[0]}`);
+                return;
             }
+
+            // Apply imported data
+            onDataChange(result.data);
+            setToastMessage(result.warnings.length > 0
+                ? `Imported: ${result.data.title} (${result.warnings.length} warning${result.warnings.length === 1 ? '' : 's'})`
+                : `Imported: ${result.data.title}`);
+            setTimeout(() => fitScreenRef.current?.(), 100);
         };
         reader.readAsText(file);
 
@@ -559,7 +413,7 @@ const Playground: React.FC<PlaygroundProps> = (props) => {
             <input
                 ref={fileInputRef}
                 type="file"
-                accept=".json"
+                accept={IMPORT_FILE_TYPES.join(',')}
                 onChange={handleImport}
                 className="hidden"
             />
@@ -568,6 +422,7 @@ const Playground: React.FC<PlaygroundProps> = (props) => {
                     <Toast message={toastMessage} onDismiss={() => setToastMessage(null)} />
                 )}
             </AnimatePresence>
+            <PdfExportDialog isOpen={!!pendingPdfExport} onExport={handlePdfExport} onCancel={() => setPendingPdfExport(null)} />
 
             {!isViewMode && (
                 <div className="order-2 md:order-1 h-full flex flex-col md:flex-row">
@@ -581,6 +436,8 @@ const Playground: React.FC<PlaygroundProps> = (props) => {
                         canUndo={canUndo}
                         canRedo={canRedo}
                         onExport={handleExport}
+                        hasSelection={selectedIds.length > 0}
+                        containers={data.containers}
                         onImport={() => fileInputRef.current?.click()}
                         isViewMode={isViewMode}
                         onToggleViewMode={toggleViewMode}
@@ -638,6 +495,25 @@ const Playground: React.FC<PlaygroundProps> = (props) => {
                     linkingState={linkingState}
                     previewLinkTarget={previewLinkTarget}
                 />
+                {importWarnings.length > 0 && (
+                    <div className="absolute bottom-4 left-4 z-10 max-w-md max-h-60 overflow-y-auto p-3 bg-[var(--color-panel-bg)] border border-amber-500/30 rounded-lg shadow-lg text-amber-500 text-sm">
+                        <div className="flex items-start justify-between gap-3">
+                            <strong>Import warnings:</strong>
+                            <button
+                                onClick={() => setImportWarnings([])}
+                                className="text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] leading-none"
+                                aria-label="Dismiss import warnings"
+                            >
+                                &times;
+                            </button>
+                        </div>
+                        <ul className="mt-1 list-disc list-inside">
+                            {importWarnings.map((warning, i) => (
+                                <li key={i}>{warning}</li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
             </main>
 
             <AnimatePresence>
@@ -2,6 +2,9 @@ import React, { useState, useRef, useEffect } from 'react';
 import { AnimatePresence } from 'framer-motion';
 
 import { InteractionMode } from './DiagramCanvas';
+import { Container } from '../types';
+import ExportMenu from './ExportMenu';
+import { ExportFormat, ExportOptions, DEFAULT_EXPORT_OPTIONS } from '../services/diagramExport';
 
 interface PlaygroundToolbarProps {
     interactionMode: InteractionMode;
@@ -12,7 +15,9 @@ interface PlaygroundToolbarProps {
     onRedo: () => void;
     canUndo: boolean;
     canRedo: boolean;
-    onExport: (format: 'png' | 'html' | 'json') => void;
+    onExport: (format: ExportFormat, options: ExportOptions) => void;
+    hasSelection?: boolean;
+    containers?: Container[];
     onImport: () => void;
     isViewMode: boolean;
     onToggleViewMode: () => void;
@@ -44,10 +49,11 @@ const ToolButton: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement> & {
 
 const PlaygroundToolbar: React.FC<PlaygroundToolbarProps> = (props) => {
     const { interactionMode, onSetInteractionMode, onAddContainer, onFitToScreen } = props;
-    const { onUndo, onRedo, canUndo, canRedo, onExport, onImport, isViewMode, onToggleViewMode, onZoomIn, onZoomOut, zoomLevel = 1 } = props;
+    const { onUndo, onRedo, canUndo, canRedo, onExport, hasSelection, containers, onImport, isViewMode, onToggleViewMode, onZoomIn, onZoomOut, zoomLevel = 1 } = props;
 
     const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
     const exportMenuRef = useRef<HTMLDivElement>(null);
+    const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
     const [isMoreMenuOpen, setIsMoreMenuOpen] = useState(false);
     const moreMenuRef = useRef<HTMLDivElement>(null);
     const [isContainerMenuOpen, setIsContainerMenuOpen] = useState(false);
@@ -69,8 +75,8 @@ const PlaygroundToolbar: React.FC<PlaygroundToolbarProps> = (props) => {
         return () => document.removeEventListener('mousedown', handleClickOutside);
     }, []);
 
-    const handleExportClick = (format: 'png' | 'html' | 'json') => {
-        onExport(format);
+    const handleExportClick = (format: ExportFormat, options: ExportOptions) => {
+        onExport(format, options);
         setIsExportMenuOpen(false);
     };
 
@@ -170,14 +176,12 @@ const PlaygroundToolbar: React.FC<PlaygroundToolbarProps> = (props) => {
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
                     </ToolButton>
                     {isExportMenuOpen && (
-                        <div className="absolute bottom-full left-0 mb-2 md:bottom-auto md:top-0 md:left-full md:ml-2 w-32 bg-[var(--color-panel-bg)] border border-[var(--color-border)] rounded-xl shadow-lg p-1 z-20">
-                            <a onClick={() => handleExportClick('png')} className="block px-3 py-1.5 text-sm text-[var(--color-text-primary)] hover:bg-[var(--color-button-bg-hover)] rounded-md cursor-pointer">PNG</a>
-                            <a onClick={() => handleExportClick('html')} className="block px-3 py-1.5 text-sm text-[var(--color-text-primary)] hover:bg-[var(--color-button-bg-hover)] rounded-md cursor-pointer">HTML</a>
-                            <a onClick={() => handleExportClick('json')} className="block px-3 py-1.5 text-sm text-[var(--color-text-primary)] hover:bg-[var(--color-button-bg-hover)] rounded-md cursor-pointer">JSON</a>
+                        <div className="absolute bottom-full left-0 mb-2 md:bottom-auto md:top-0 md:left-full md:ml-2 w-52 bg-[var(--color-panel-bg)] border border-[var(--color-border)] rounded-xl shadow-lg p-1 z-20">
+                            <ExportMenu options={exportOptions} onOptionsChange={setExportOptions} onExport={handleExportClick} hasSelection={hasSelection} containers={containers} />
                         </div>
                     )}
                 </div>
-                <ToolButton aria-label="Import JSON" title="Import JSON" onClick={onImport} className="w-12 h-12">
+                <ToolButton aria-label="Import" title="Import (JSON, Mermaid, draw.io, Terraform, CloudFormation, Compose, Kubernetes)" onClick={onImport} className="w-12 h-12">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
                 </ToolButton>
                 <ToolButton aria-label="View Mode" title="View Mode (Shift+V)" onClick={onToggleViewMode} isActive={isViewMode} className="w-12 h-12">
@@ -1,9 +1,14 @@
 
 
 import React, { useState, useRef, useEffect } from 'react';
+import { Container } from '../types';
+import ExportMenu from './ExportMenu';
+import { ExportFormat, ExportOptions, DEFAULT_EXPORT_OPTIONS } from '../services/diagramExport';
 
 interface ToolbarProps {
-  onExport: (format: 'png' | 'html' | 'json') => void;
+  onExport: (format: ExportFormat, options: ExportOptions) => void;
+  hasSelection?: boolean;
+  containers?: Container[];
   onExplain: () => void;
   isExplaining: boolean;
   onUndo: () => void;
@@ -29,9 +34,10 @@ const ToolbarButton: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement> & {
   </button>
 );
 
-const Toolbar: React.FC<ToolbarProps> = ({ onExport, onExplain, isExplaining, onUndo, onRedo, canUndo, canRedo, onFitToScreen, onGoToPlayground, canGoToPlayground, onSave, onLoad, onZoomIn, onZoomOut }) => {
+const Toolbar: React.FC<ToolbarProps> = ({ onExport, hasSelection, containers, onExplain, isExplaining, onUndo, onRedo, canUndo, canRedo, onFitToScreen, onGoToPlayground, canGoToPlayground, onSave, onLoad, onZoomIn, onZoomOut }) => {
   const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
   const exportMenuRef = useRef<HTMLDivElement>(null);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -43,8 +49,8 @@ const Toolbar: React.FC<ToolbarProps> = ({ onExport, onExplain, isExplaining, on
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const handleExportClick = (format: 'png' | 'html' | 'json') => {
-    onExport(format);
+  const handleExportClick = (format: ExportFormat, options: ExportOptions) => {
+    onExport(format, options);
     setIsExportMenuOpen(false);
   };
 
@@ -118,10 +124,8 @@ const Toolbar: React.FC<ToolbarProps> = ({ onExport, onExplain, isExplaining, on
           <span className="hidden md:inline">Export</span>
         </button>
         {isExportMenuOpen && (
-          <div className="absolute right-0 mt-2 w-32 bg-[var(--color-panel-bg)] border border-[var(--color-border)] rounded-xl shadow-lg z-30 p-1">
-            <a onClick={() => handleExportClick('png')} className="block px-3 py-1.5 text-sm text-[var(--color-text-primary)] hover:bg-[var(--color-button-bg-hover)] rounded-md cursor-pointer">PNG</a>
-            <a onClick={() => handleExportClick('html')} className="block px-3 py-1.5 text-sm text-[var(--color-text-primary)] hover:bg-[var(--color-button-bg-hover)] rounded-md cursor-pointer">HTML</a>
-            <a onClick={() => handleExportClick('json')} className="block px-3 py-1.5 text-sm text-[var(--color-text-primary)] hover:bg-[var(--color-button-bg-hover)] rounded-md cursor-pointer">JSON</a>
+          <div className="absolute right-0 mt-2 w-52 bg-[var(--color-panel-bg)] border border-[var(--color-border)] rounded-xl shadow-lg z-30 p-1">
+            <ExportMenu options={exportOptions} onOptionsChange={setExportOptions} onExport={handleExportClick} hasSelection={hasSelection} containers={containers} />
           </div>
         )}
       </div>
@@ -0,0 +1,266 @@
+/**
+ * diagramExport.ts — One export pipeline for every screen showing a diagram.
+ *
+ * Each format has a writer in EXPORT_WRITERS; the export menus list them in order, so a
+ * new format only needs an entry here. Image writers capture the mounted canvas through
+ * svgExport (PNG is rasterized from that same SVG), so every screen produces identical
+ * files. Progress and failures are reported as short messages for a Toast.
+ */
+
+import type { ArchNode, Container, DiagramData } from '../types';
+import { buildStandaloneSvg, rasterizeSvg, StandaloneSvg } from '../utils/svgExport';
+import { buildPdfDocument, PdfExportOptions, DEFAULT_PDF_OPTIONS } from '../utils/pdfExport';
+import { TEXT_EXPORTERS, TextExportFormat } from '../utils/textExporters';
+import { buildHtmlViewer } from '../utils/htmlViewer';
+import { buildWalkthrough, WalkthroughFormat } from '../utils/walkthroughExport';
+import { printPdf } from './pdfPrinter';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export type ExportFormat = 'png' | 'svg' | 'pdf' | 'html' | WalkthroughFormat | 'json' | TextExportFormat;
+
+/** What part of the diagram to export: all of it, the selection, or one container with everything inside it */
+export type ExportScope = 'diagram' | 'selection' | 'container';
+
+export interface ExportOptions {
+    /** Pixel ratio of PNG, GIF and WebM output */
+    scale: number;
+    /** Leave out the canvas background (PNG, SVG) */
+    transparent: boolean;
+    /** Space around the content, in diagram units */
+    padding: number;
+    scope: ExportScope;
+    /** The container exported with scope 'container' */
+    containerId?: string;
+    /** Page setup, for PDF */
+    pdf: PdfExportOptions;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    scale: 2,
+    transparent: false,
+    padding: 20,
+    scope: 'diagram',
+    pdf: DEFAULT_PDF_OPTIONS,
+};
+
+/** What is being exported, as the screen has it */
+export interface ExportSource {
+    data: DiagramData;
+    /** The mounted canvas <svg>, for image formats */
+    svg: SVGSVGElement | null;
+    selectedIds: string[];
+    /** Lets the selection be cleared while the canvas is captured, so its highlight stays out */
+    setSelectedIds?: (ids: string[]) => void;
+}
+
+/** One export, as handed to a writer */
+export interface ExportJob {
+    /** The diagram, already narrowed to the export scope */
+    data: DiagramData;
+    /** Without extension */
+    fileName: string;
+    options: ExportOptions;
+    /** The canvas as a standalone SVG, cropped to `data` */
+    captureSvg: () => Promise<StandaloneSvg>;
+    /** Reports progress of slow writers */
+    report: (message: string) => void;
+}
+
+export interface ExportWriter {
+    label: string;
+    /** Writes the file; may return the message to show instead of the default one */
+    write: (job: ExportJob) => Promise<string | void>;
+}
+
+// ─── Writers ─────────────────────────────────────────────────────────
+
+const walkthroughWriter = (format: WalkthroughFormat, label: string): ExportWriter => ({
+    label,
+    write: async ({ data, fileName, options, captureSvg, report }) => {
+        const clip = await buildWalkthrough(await captureSvg(), data, format, {
+            scale: options.scale,
+            onProgress: fraction => report(`Rendering ${label}… ${Math.round(fraction * 100)}%`),
+        });
+        downloadBlob(clip, `${fileName}.${format}`);
+    },
+});
+
+const textWriter = (format: TextExportFormat): ExportWriter => ({
+    label: TEXT_EXPORTERS[format].label,
+    write: async ({ data, fileName }) => {
+        const { write, mimeType, extension } = TEXT_EXPORTERS[format];
+        downloadBlob(new Blob([write(data)], { type: mimeType }), `${fileName}.${extension}`);
+    },
+});
+
+export const EXPORT_WRITERS: Record<ExportFormat, ExportWriter> = {
+    png: {
+        label: 'PNG',
+        write: async ({ fileName, options, captureSvg }) => {
+            downloadBlob(await rasterizeSvg(await captureSvg(), options.scale), `${fileName}.png`);
+        },
+    },
+    svg: {
+        label: 'SVG',
+        write: async ({ fileName, captureSvg }) => {
+            const svg = await captureSvg();
+            downloadBlob(new Blob([svg.text], { type: 'image/svg+xml' }), `${fileName}.svg`);
+        },
+    },
+    pdf: {
+        label: 'PDF',
+        write: async ({ data, fileName, options, captureSvg }) => {
+            const pdf = buildPdfDocument(await captureSvg(), data, options.pdf);
+            const result = await printPdf(pdf, fileName);
+            if (result.status === 'saved') return `PDF saved (${pdf.pageCount} page${pdf.pageCount !== 1 ? 's' : ''})`;
+            if (result.status === 'cancelled') return 'Export cancelled';
+            return 'Choose "Save as PDF" to finish';
+        },
+    },
+    html: {
+        label: 'HTML',
+        write: async ({ data, fileName, captureSvg }) => {
+            downloadBlob(new Blob([buildHtmlViewer(await captureSvg(), data)], { type: 'text/html' }), `${fileName}.html`);
+        },
+    },
+    gif: walkthroughWriter('gif', 'GIF animation'),
+    webm: walkthroughWriter('webm', 'WebM video'),
+    json: {
+        label: 'JSON',
+        write: async ({ data, fileName }) => {
+            downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), `${fileName}.json`);
+        },
+    },
+    mermaid: textWriter('mermaid'),
+    plantuml: textWriter('plantuml'),
+    dot: textWriter('dot'),
+    drawio: textWriter('drawio'),
+};
+
+// ─── Export ──────────────────────────────────────────────────────────
+
+/**
+ * Export the diagram, reporting progress and the outcome through `report`.
+ * Never throws: failures are reported too.
+ */
+export async function exportDiagram(format: ExportFormat, source: ExportSource, options: ExportOptions, report: (message: string) => void): Promise<void> {
+    const writer = EXPORT_WRITERS[format];
+    const baseName = source.data.title.replace(/[\s/]/g, '_').toLowerCase();
+    const container = options.scope === 'container' ? source.data.containers?.find(c => c.id === options.containerId) : undefined;
+    if (options.scope === 'container' && !container) {
+        report('Export failed: the container no longer exists.');
+        return;
+    }
+
+    const data = options.scope === 'diagram'
+        ? source.data
+        : diagramPart(source.data, container ? [container.id] : source.selectedIds);
+    if (data.nodes.length === 0 && !data.containers?.length) {
+        report(options.scope === 'selection' ? 'Export failed: nothing is selected.' : 'Export failed: the diagram is empty.');
+        return;
+    }
+
+    const job: ExportJob = {
+        data,
+        fileName: container
+            ? `${baseName}_${container.label.replace(/[\s/]/g, '_').toLowerCase()}`
+            : options.scope === 'selection' ? `${baseName}_selection` : baseName,
+        options,
+        captureSvg: () => captureCanvas(source, options, options.scope === 'diagram' ? undefined : itemIds(data)),
+        report,
+    };
+
+    report(`Exporting ${writer.label}…`);
+    try {
+        const message = await writer.write(job);
+        report(message || `Exported ${writer.label}`);
+    } catch (error) {
+        console.error('Export failed:', error);
+        report(`Export failed: ${error instanceof Error ? error.message : 'Error preparing diagram.'}`);
+    }
+}
+
+/**
+ * Capture the canvas without the selection highlight. The selection comes back as soon
+ * as buildStandaloneSvg has read the canvas, which it does before first yielding.
+ */
+async function captureCanvas(source: ExportSource, options: ExportOptions, only?: string[]): Promise<StandaloneSvg> {
+    if (!source.svg) throw new Error('The diagram canvas is not shown.');
+    const selection = source.selectedIds;
+    const hideSelection = selection.length > 0 && !!source.setSelectedIds;
+    if (hideSelection) {
+        source.setSelectedIds!([]);
+        await nextPaint();
+    }
+
+    const capture = buildStandaloneSvg(source.svg, { padding: options.padding, transparent: options.transparent, only });
+    if (hideSelection) source.setSelectedIds!(selection);
+    return capture;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * The given items, the ends of the links among them, everything inside the containers
+ * among them, and the links whose ends are both among the resulting nodes
+ */
+function diagramPart(data: DiagramData, ids: string[]): DiagramData {
+    const allContainers = data.containers ?? [];
+    const included = new Set(ids);
+    data.links.filter(l => included.has(l.id)).forEach(l => {
+        included.add(endpointId(l.source));
+        included.add(endpointId(l.target));
+    });
+    const include = (container: Container) => {
+        container.childNodeIds.forEach(id => included.add(id));
+        allContainers
+            .filter(c => c.parentContainerId === container.id || container.childContainerIds?.includes(c.id))
+            .filter(c => !included.has(c.id))
+            .forEach(c => {
+                included.add(c.id);
+                include(c);
+            });
+    };
+    allContainers.filter(c => included.has(c.id)).forEach(include);
+
+    const nodes = data.nodes.filter(n => included.has(n.id));
+    const nodeIds = new Set(nodes.map(n => n.id));
+    const containers = allContainers.filter(c => included.has(c.id));
+    const containerIds = new Set(containers.map(c => c.id));
+
+    return {
+        ...data,
+        nodes,
+        links: data.links.filter(l => nodeIds.has(endpointId(l.source)) && nodeIds.has(endpointId(l.target))),
+        containers: containers.map(c => ({
+            ...c,
+            childNodeIds: c.childNodeIds.filter(id => nodeIds.has(id)),
+            childContainerIds: c.childContainerIds?.filter(id => containerIds.has(id)),
+            parentContainerId: c.parentContainerId && containerIds.has(c.parentContainerId) ? c.parentContainerId : undefined,
+        })),
+    };
+}
+
+function itemIds(data: DiagramData): string[] {
+    return [...data.nodes, ...data.links, ...(data.containers ?? [])].map(item => item.id);
+}
+
+function endpointId(endpoint: string | ArchNode): string {
+    return typeof endpoint === 'string' ? endpoint : endpoint.id;
+}
+
+function nextPaint(): Promise<void> {
+    return new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
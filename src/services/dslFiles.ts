@@ -0,0 +1,100 @@
+/**
+ * dslFiles.ts — Open/save CubeGen DSL source files and read their imports.
+ *
+ * Files live on disk and are reached through Electron IPC; in a plain browser
+ * there is no file to resolve imports against, so they are reported as errors.
+ *
+ * The DSL parser is synchronous, so the files a document imports are read up
+ * front and handed to it as a resolver over the loaded contents.
+ */
+
+import { parseCubeGenAST } from '../utils/cubegenAST';
+import { ImportResolver, ResolvedImport } from '../utils/cubegenMacros';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface DslFile {
+    /** Absolute path on disk */
+    path: string;
+    content: string;
+}
+
+// electronAPI types are declared in vite-env.d.ts
+
+// ─── Files ───────────────────────────────────────────────────────────
+
+/**
+ * Whether DSL files can be opened and saved (desktop app only).
+ */
+export function canUseDslFiles(): boolean {
+    return !!window.electronAPI?.openDslFile;
+}
+
+/**
+ * Pick a .cgd file and read it. Returns null if cancelled.
+ */
+export async function openDslFile(): Promise<DslFile | null> {
+    if (!canUseDslFiles()) return null;
+    return window.electronAPI.openDslFile();
+}
+
+/**
+ * Write code to its file, asking for a location when it has none yet.
+ * Returns the saved path, or null if cancelled or failed.
+ */
+export async function saveDslFile(content: string, path?: string): Promise<string | null> {
+    if (!canUseDslFiles()) return null;
+    return window.electronAPI.saveDslFile(content, path);
+}
+
+/**
+ * The file name of a path, for messages.
+ */
+export function dslFileName(path: string): string {
+    return path.split(/[\\/]/).pop() ?? path;
+}
+
+// ─── Imports ─────────────────────────────────────────────────────────
+
+/**
+ * Read every file the code imports, directly or through other imports.
+ * `file` is the path of the code itself, when it has been saved.
+ */
+export async function loadDslImports(code: string, file: string | undefined): Promise<ImportResolver> {
+    const loaded = new Map<string, ResolvedImport>();
+    const visited = new Set<string>();
+    const key = (spec: string, fromFile: string | undefined) => `${fromFile ?? ''}\n${spec}`;
+
+    const visit = async (source: string, fromFile: string | undefined) => {
+        const specs = parseCubeGenAST(source).statements.flatMap(s => (s.kind === 'import' ? [s.path.value] : []));
+        for (const spec of specs) {
+            if (loaded.has(key(spec, fromFile))) continue;
+            const resolved = await readImport(spec, fromFile);
+            loaded.set(key(spec, fromFile), resolved);
+            // Cycles are reported by the parser; each file only needs reading once
+            if ('code' in resolved && !visited.has(resolved.path)) {
+                visited.add(resolved.path);
+                await visit(resolved.code, resolved.path);
+            }
+        }
+    };
+    await visit(code, file);
+
+    return (spec, fromFile) => loaded.get(key(spec, fromFile)) ?? { error: `"${spec}" is still loading.` };
+}
+
+async function readImport(spec: string, fromFile: string | undefined): Promise<ResolvedImport> {
+    if (!window.electronAPI?.readDslImport) {
+        return { error: `Cannot import "${spec}": imports are only available in the desktop app.` };
+    }
+    if (!fromFile) {
+        return { error: `Cannot import "${spec}": save this code to a file first, imports are found relative to it.` };
+    }
+    try {
+        const result = await window.electronAPI.readDslImport(fromFile, spec);
+        return 'error' in result ? result : { path: result.path, code: result.content };
+    } catch (err) {
+        console.warn('[dslFiles] Failed to read import:', err);
+        return { error: `Cannot read "${spec}".` };
+    }
+}
@@ -0,0 +1,74 @@
+/**
+ * pdfPrinter.ts — Print a laid-out PDF document (see utils/pdfExport).
+ *
+ * The desktop app prints it in the main process with printToPDF and writes the file
+ * where the user picks, without touching the network. In a plain browser the document
+ * goes to the print dialog, where "Save as PDF" keeps the vector output.
+ */
+
+import { PdfDocument } from '../utils/pdfExport';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export type PdfPrintResult =
+    /** Written to disk by the desktop app */
+    | { status: 'saved'; path: string }
+    /** Handed to the browser's print dialog */
+    | { status: 'printing' }
+    | { status: 'cancelled' };
+
+// electronAPI types are declared in vite-env.d.ts
+
+// ─── Printing ────────────────────────────────────────────────────────
+
+/**
+ * Whether PDFs are written directly to a file (desktop app only).
+ */
+export function canSavePdfFiles(): boolean {
+    return !!window.electronAPI?.exportPdf;
+}
+
+/**
+ * Print the document to PDF. `fileName` is the suggested name, without extension.
+ */
+export async function printPdf(document: PdfDocument, fileName: string): Promise<PdfPrintResult> {
+    if (canSavePdfFiles()) {
+        const result = await window.electronAPI.exportPdf(document.html, `${fileName}.pdf`);
+        if (result === null) return { status: 'cancelled' };
+        if ('error' in result) throw new Error(result.error);
+        return { status: 'saved', path: result.path };
+    }
+
+    await printInFrame(document.html);
+    return { status: 'printing' };
+}
+
+/**
+ * Open the print dialog on the document from a hidden frame, so the app itself is not printed.
+ */
+function printInFrame(html: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const frame = window.document.createElement('iframe');
+        frame.setAttribute('aria-hidden', 'true');
+        frame.title = 'PDF export';
+        frame.style.cssText = 'position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0;';
+
+        frame.onload = async () => {
+            const view = frame.contentWindow;
+            if (!view) {
+                frame.remove();
+                reject(new Error('Could not open the print preview.'));
+                return;
+            }
+            // Embedded fonts must be decoded before printing or the text falls back
+            await view.document.fonts.ready;
+            view.addEventListener('afterprint', () => frame.remove(), { once: true });
+            view.focus();
+            view.print();
+            resolve();
+        };
+
+        frame.srcdoc = html;
+        window.document.body.appendChild(frame);
+    });
+}
@@ -0,0 +1,553 @@
+/**
+ * Auto Layout
+ * Places nodes that have no explicit coordinates, following the strategy
+ * and spacing chosen by LayoutDecisionEngine.
+ *
+ * Node x/y are centers, container x/y are top-left corners (same as DiagramCanvas).
+ */
+
+import { ArchNode, Link, Container } from '../types';
+import { layoutDecisionEngine, LayoutConfig, LayoutStrategy } from './layoutDecisionEngine';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AutoLayoutOptions {
+    /** Only these nodes are moved; every node is laid out when omitted */
+    unplacedIds?: Set<string>;
+    /** Force a strategy instead of the one detected from the graph */
+    strategy?: LayoutStrategy;
+}
+
+export interface AutoLayoutResult {
+    nodes: ArchNode[];
+    containers: Container[];
+    config: LayoutConfig;
+}
+
+type Point = { x: number; y: number };
+
+interface Edge {
+    source: string;
+    target: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Where a fresh diagram starts, matching the hand-written examples
+const ORIGIN = { x: 100, y: 100 };
+
+// Space reserved for the container title above its children
+const CONTAINER_HEADER = 40;
+
+// Barycenter passes used to untangle crossings between adjacent layers
+const ORDERING_SWEEPS = 4;
+
+// Size of an empty container laid out from scratch
+const MIN_CONTAINER_SIZE = { width: 200, height: 120 };
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Lays out unplaced nodes. Root-level nodes are arranged next to whatever is
+ * already placed; nodes inside a container are arranged inside it, growing the
+ * container when the content does not fit.
+ */
+export function applyAutoLayout(
+    nodes: ArchNode[],
+    links: Link[],
+    containers: Container[] = [],
+    options: AutoLayoutOptions = {}
+): AutoLayoutResult {
+    const edges: Edge[] = links.map(l => ({ source: endpointId(l.source), target: endpointId(l.target) }));
+
+    const analysis = layoutDecisionEngine.analyzeGraph(
+        nodes.map(n => ({ id: n.id, label: n.label, type: n.type })),
+        edges
+    );
+    if (options.strategy) analysis.suggestedLayout = options.strategy;
+    const config = layoutDecisionEngine.determineLayout(analysis);
+
+    const unplaced = options.unplacedIds || new Set(nodes.map(n => n.id));
+    if (unplaced.size === 0) return { nodes, containers, config };
+
+    const containerOf = new Map<string, string>();
+    containers.forEach(c => c.childNodeIds.forEach(id => containerOf.set(id, c.id)));
+
+    // Group unplaced nodes by the container they live in ('' = root canvas)
+    const groups = new Map<string, ArchNode[]>();
+    nodes.forEach(n => {
+        if (!unplaced.has(n.id)) return;
+        const key = containerOf.get(n.id) || '';
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(n);
+    });
+
+    const positions = new Map<string, Point>();
+    const resizedContainers = new Map<string, Container>();
+
+    // Innermost containers first, root last, so every group sees the grown size of what it encloses
+    const depth = (id: string) => id ? (containers.find(c => c.id === id)?.nestingLevel ?? 0) + 1 : 0;
+    const groupOrder = [...groups.keys()].sort((a, b) => depth(b) - depth(a));
+    const current = (c: Container) => resizedContainers.get(c.id) || c;
+
+    groupOrder.forEach(containerId => {
+        const groupNodes = groups.get(containerId)!;
+        const ids = new Set(groupNodes.map(n => n.id));
+        const groupEdges = edges.filter(e => ids.has(e.source) && ids.has(e.target));
+        const local = layoutGroup(groupNodes, groupEdges, config);
+        const size = measure(groupNodes, local);
+
+        let origin: Point;
+        if (containerId) {
+            const container = current(containers.find(c => c.id === containerId)!);
+            const padding = config.spacing.containerPadding;
+
+            // Nodes go below any nested containers so they do not overlap them
+            const nested = containers.filter(c => c.parentContainerId === container.id).map(current);
+            const top = Math.max(container.y + CONTAINER_HEADER, ...nested.map(c => c.y + c.height + padding));
+            origin = { x: container.x + padding, y: top };
+
+            // wrap-content: grow the container around its children
+            const neededWidth = size.width + padding * 2;
+            const neededHeight = top - container.y + size.height + padding;
+            if (neededWidth > container.width || neededHeight > container.height) {
+                resizedContainers.set(container.id, {
+                    ...container,
+                    width: Math.max(container.width, neededWidth),
+                    height: Math.max(container.height, neededHeight),
+                });
+            }
+        } else {
+            origin = rootOrigin(nodes, containers.map(current), unplaced, config);
+        }
+
+        local.forEach((p, id) => positions.set(id, { x: Math.round(origin.x + p.x), y: Math.round(origin.y + p.y) }));
+
+        if (containerId) fitAncestors(containerId, containers, resizedContainers, config.spacing.containerPadding);
+    });
+
+    return {
+        nodes: nodes.map(n => positions.has(n.id) ? { ...n, ...positions.get(n.id)! } : n),
+        containers: containers.map(c => resizedContainers.get(c.id) || c),
+        config,
+    };
+}
+
+/**
+ * Lays out a diagram that has no geometry at all, such as an imported one.
+ * Containers are sized around their contents, innermost first, and set side by
+ * side along the flow direction (nested ones inside their parent, above its
+ * nodes); root nodes go next to them.
+ */
+export function layoutWholeDiagram(
+    nodes: ArchNode[],
+    links: Link[],
+    containers: Container[] = [],
+    options: Pick<AutoLayoutOptions, 'strategy'> = {}
+): AutoLayoutResult {
+    const edges: Edge[] = links.map(l => ({ source: endpointId(l.source), target: endpointId(l.target) }));
+    const analysis = layoutDecisionEngine.analyzeGraph(
+        nodes.map(n => ({ id: n.id, label: n.label, type: n.type })),
+        edges
+    );
+    if (options.strategy) analysis.suggestedLayout = options.strategy;
+    const config = layoutDecisionEngine.determineLayout(analysis);
+    const padding = config.spacing.containerPadding;
+    const horizontal = config.direction === 'horizontal';
+
+    const nodesById = new Map(nodes.map(n => [n.id, n]));
+    const containerIds = new Set(containers.map(c => c.id));
+    const parentOf = (c: Container) => c.parentContainerId && containerIds.has(c.parentContainerId) ? c.parentContainerId : undefined;
+    const childrenOf = (parentId: string | undefined) => containers.filter(c => parentOf(c) === parentId);
+
+    // Positions relative to the enclosing container's top-left corner
+    const offsets = new Map<string, Point>();
+    const sized = new Map<string, Container>();
+
+    // Side by side along the flow; returns the extent of the row
+    const arrange = (list: Container[], origin: Point): { width: number; height: number } => {
+        let cursor = 0;
+        let cross = 0;
+        list.forEach(c => {
+            const size = sized.get(c.id)!;
+            offsets.set(c.id, horizontal ? { x: origin.x + cursor, y: origin.y } : { x: origin.x, y: origin.y + cursor });
+            cursor += (horizontal ? size.width : size.height) + padding;
+            cross = Math.max(cross, horizontal ? size.height : size.width);
+        });
+        const length = Math.max(0, cursor - padding);
+        return horizontal ? { width: length, height: cross } : { width: cross, height: length };
+    };
+
+    const size = (container: Container) => {
+        const nested = childrenOf(container.id);
+        nested.forEach(size);
+        const row = arrange(nested, { x: padding, y: CONTAINER_HEADER });
+
+        const local: Container = {
+            ...container,
+            x: 0,
+            y: 0,
+            width: Math.max(MIN_CONTAINER_SIZE.width, row.width + padding * 2),
+            height: nested.length > 0 ? CONTAINER_HEADER + row.height + padding : MIN_CONTAINER_SIZE.height,
+        };
+        const children = container.childNodeIds.map(id => nodesById.get(id)).filter((n): n is ArchNode => !!n);
+        if (children.length === 0) {
+            sized.set(container.id, local);
+            return;
+        }
+
+        // The nested containers take part only so the nodes go below them
+        const placedNested = nested.map(c => ({ ...sized.get(c.id)!, ...offsets.get(c.id)!, parentContainerId: container.id }));
+        const result = applyAutoLayout(children, links, [local, ...placedNested], { strategy: options.strategy });
+        result.nodes.forEach(n => offsets.set(n.id, { x: n.x, y: n.y }));
+        sized.set(container.id, result.containers[0]);
+    };
+
+    const roots = childrenOf(undefined);
+    roots.forEach(size);
+    arrange(roots, ORIGIN);
+
+    // Turn the relative offsets into canvas coordinates, outermost first
+    const positions = new Map<string, Point>();
+    const place = (container: Container, origin: Point) => {
+        const at = offsets.get(container.id)!;
+        const corner = { x: origin.x + at.x, y: origin.y + at.y };
+        positions.set(container.id, corner);
+        container.childNodeIds.forEach(id => {
+            const offset = offsets.get(id);
+            if (offset) positions.set(id, { x: corner.x + offset.x, y: corner.y + offset.y });
+        });
+        childrenOf(container.id).forEach(c => place(c, corner));
+    };
+    roots.forEach(c => place(c, { x: 0, y: 0 }));
+
+    const laidContainers = containers.map(c => ({ ...sized.get(c.id)!, ...positions.get(c.id)! }));
+    const laidNodes = nodes.map(n => positions.has(n.id) ? { ...n, ...positions.get(n.id)! } : n);
+    const rootIds = new Set(nodes.filter(n => !positions.has(n.id)).map(n => n.id));
+
+    return applyAutoLayout(laidNodes, links, laidContainers, { unplacedIds: rootIds, strategy: options.strategy });
+}
+
+// ============================================================================
+// STRATEGIES
+// ============================================================================
+
+/**
+ * Returns node centers relative to a (0,0) top-left corner of the group
+ */
+function layoutGroup(nodes: ArchNode[], edges: Edge[], config: LayoutConfig): Map<string, Point> {
+    let centers: Map<string, Point>;
+
+    switch (config.strategy) {
+        case 'hub-spoke':
+            centers = layoutHubSpoke(nodes, edges, config);
+            break;
+        case 'radial':
+            centers = layoutRadial(nodes, config);
+            break;
+        case 'grid':
+            centers = layoutGrid(nodes, config);
+            break;
+        default:
+            centers = layoutLayered(nodes, edges, config);
+    }
+
+    return normalize(nodes, centers);
+}
+
+/**
+ * Sugiyama-style layering: ranks by longest path, barycenter ordering within
+ * ranks. Horizontal direction puts ranks left-to-right, vertical top-to-bottom.
+ */
+function layoutLayered(nodes: ArchNode[], edges: Edge[], config: LayoutConfig): Map<string, Point> {
+    const horizontal = config.direction === 'horizontal';
+    const ranks = assignRanks(nodes, edges);
+
+    const layers: string[][] = [];
+    nodes.forEach(n => {
+        const r = ranks.get(n.id)!;
+        (layers[r] = layers[r] || []).push(n.id);
+    });
+
+    orderLayers(layers, edges);
+
+    const primarySize = (n: ArchNode) => horizontal ? n.width : n.height;
+    const crossSize = (n: ArchNode) => horizontal ? n.height : n.width;
+
+    const maxPrimary = Math.max(...nodes.map(primarySize));
+    const maxCross = Math.max(...nodes.map(crossSize));
+    const primaryStep = Math.max(config.spacing.layerGap, maxPrimary + 60);
+    const crossStep = maxCross + config.spacing.nodeVertical;
+
+    const longest = Math.max(...layers.map(l => l.length));
+    const centers = new Map<string, Point>();
+
+    layers.forEach((layer, rank) => {
+        const offset = config.alignment === 'start' ? 0 : ((longest - layer.length) * crossStep) / 2;
+        layer.forEach((id, index) => {
+            const primary = rank * primaryStep;
+            const cross = offset + index * crossStep;
+            centers.set(id, horizontal ? { x: primary, y: cross } : { x: cross, y: primary });
+        });
+    });
+
+    return centers;
+}
+
+/**
+ * Highest-degree node in the middle, the rest on rings by hop distance
+ */
+function layoutHubSpoke(nodes: ArchNode[], edges: Edge[], config: LayoutConfig): Map<string, Point> {
+    const centers = new Map<string, Point>();
+    if (nodes.length === 0) return centers;
+
+    const neighbours = adjacency(nodes, edges);
+    const hub = nodes.reduce((best, n) => neighbours.get(n.id)!.size > neighbours.get(best.id)!.size ? n : best, nodes[0]);
+
+    // BFS rings from the hub; unreachable nodes form an outer ring
+    const distance = new Map<string, number>([[hub.id, 0]]);
+    const queue = [hub.id];
+    while (queue.length) {
+        const current = queue.shift()!;
+        neighbours.get(current)!.forEach(next => {
+            if (!distance.has(next)) {
+                distance.set(next, distance.get(current)! + 1);
+                queue.push(next);
+            }
+        });
+    }
+    const maxDistance = Math.max(0, ...distance.values());
+    nodes.forEach(n => { if (!distance.has(n.id)) distance.set(n.id, maxDistance + 1); });
+
+    const rings: string[][] = [];
+    nodes.forEach(n => {
+        const d = distance.get(n.id)!;
+        (rings[d] = rings[d] || []).push(n.id);
+    });
+
+    const nodeSpan = Math.max(...nodes.map(n => Math.max(n.width, n.height))) + config.spacing.nodeVertical / 2;
+    let radius = 0;
+    rings.forEach((ring, d) => {
+        if (!ring || d === 0) {
+            centers.set(hub.id, { x: 0, y: 0 });
+            return;
+        }
+        // Grow the ring until its members no longer overlap
+        radius = Math.max(radius + config.spacing.layerGap, (ring.length * nodeSpan) / (2 * Math.PI));
+        ring.forEach((id, i) => {
+            const angle = (2 * Math.PI * i) / ring.length - Math.PI / 2;
+            centers.set(id, { x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+        });
+    });
+
+    return centers;
+}
+
+/**
+ * Every node on a single circle, in declaration order
+ */
+function layoutRadial(nodes: ArchNode[], config: LayoutConfig): Map<string, Point> {
+    const centers = new Map<string, Point>();
+    if (nodes.length === 1) {
+        centers.set(nodes[0].id, { x: 0, y: 0 });
+        return centers;
+    }
+
+    const nodeSpan = Math.max(...nodes.map(n => Math.max(n.width, n.height))) + config.spacing.nodeVertical / 2;
+    const radius = Math.max(config.spacing.layerGap, (nodes.length * nodeSpan) / (2 * Math.PI));
+    nodes.forEach((n, i) => {
+        const angle = (2 * Math.PI * i) / nodes.length - Math.PI / 2;
+        centers.set(n.id, { x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+    });
+    return centers;
+}
+
+/**
+ * Near-square grid in declaration order
+ */
+function layoutGrid(nodes: ArchNode[], config: LayoutConfig): Map<string, Point> {
+    const columns = Math.ceil(Math.sqrt(nodes.length));
+    const cellWidth = Math.max(...nodes.map(n => n.width)) + config.spacing.nodeVertical;
+    const cellHeight = Math.max(...nodes.map(n => n.height)) + config.spacing.nodeVertical;
+
+    const centers = new Map<string, Point>();
+    nodes.forEach((n, i) => {
+        centers.set(n.id, { x: (i % columns) * cellWidth, y: Math.floor(i / columns) * cellHeight });
+    });
+    return centers;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Grows each ancestor of a resized container so the nested one stays inside it
+ */
+function fitAncestors(
+    containerId: string,
+    containers: Container[],
+    resized: Map<string, Container>,
+    padding: number
+): void {
+    const current = (id: string) => resized.get(id) || containers.find(c => c.id === id);
+    let child = current(containerId);
+
+    while (child?.parentContainerId) {
+        const parent = current(child.parentContainerId);
+        if (!parent) return;
+        const width = Math.max(parent.width, child.x + child.width + padding - parent.x);
+        const height = Math.max(parent.height, child.y + child.height + padding - parent.y);
+        if (width === parent.width && height === parent.height) return;
+        resized.set(parent.id, { ...parent, width, height });
+        child = resized.get(parent.id);
+    }
+}
+
+function endpointId(endpoint: string | ArchNode): string {
+    return typeof endpoint === 'string' ? endpoint : endpoint.id;
+}
+
+function adjacency(nodes: ArchNode[], edges: Edge[]): Map<string, Set<string>> {
+    const map = new Map<string, Set<string>>(nodes.map(n => [n.id, new Set<string>()]));
+    edges.forEach(e => {
+        if (e.source === e.target) return;
+        map.get(e.source)?.add(e.target);
+        map.get(e.target)?.add(e.source);
+    });
+    return map;
+}
+
+/**
+ * Longest-path ranking. Back edges found by DFS are ignored so cycles
+ * do not push nodes infinitely far.
+ */
+function assignRanks(nodes: ArchNode[], edges: Edge[]): Map<string, number> {
+    const outgoing = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+    edges.forEach(e => {
+        if (e.source !== e.target && outgoing.has(e.source) && outgoing.has(e.target)) {
+            outgoing.get(e.source)!.push(e.target);
+        }
+    });
+
+    // Iterative DFS producing a reverse post-order (a topological order of the DAG part)
+    const state = new Map<string, 'visiting' | 'done'>();
+    const order: string[] = [];
+    const forward = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+
+    nodes.forEach(start => {
+        if (state.has(start.id)) return;
+        const stack: { id: string; next: number }[] = [{ id: start.id, next: 0 }];
+        state.set(start.id, 'visiting');
+        while (stack.length) {
+            const frame = stack[stack.length - 1];
+            const targets = outgoing.get(frame.id)!;
+            if (frame.next < targets.length) {
+                const target = targets[frame.next++];
+                const targetState = state.get(target);
+                if (targetState === 'visiting') continue; // back edge
+                forward.get(frame.id)!.push(target);
+                if (!targetState) {
+                    state.set(target, 'visiting');
+                    stack.push({ id: target, next: 0 });
+                }
+            } else {
+                state.set(frame.id, 'done');
+                order.push(frame.id);
+                stack.pop();
+            }
+        }
+    });
+    order.reverse();
+
+    const ranks = new Map<string, number>(nodes.map(n => [n.id, 0]));
+    order.forEach(id => {
+        forward.get(id)!.forEach(target => {
+            ranks.set(target, Math.max(ranks.get(target)!, ranks.get(id)! + 1));
+        });
+    });
+    return ranks;
+}
+
+/**
+ * Reorders each layer in place by the average index of its neighbours in
+ * the adjacent layer, alternating downward and upward sweeps.
+ */
+function orderLayers(layers: string[][], edges: Edge[]): void {
+    const neighbours = new Map<string, string[]>();
+    edges.forEach(e => {
+        if (!neighbours.has(e.source)) neighbours.set(e.source, []);
+        if (!neighbours.has(e.target)) neighbours.set(e.target, []);
+        neighbours.get(e.source)!.push(e.target);
+        neighbours.get(e.target)!.push(e.source);
+    });
+
+    const sortByBarycenter = (layer: string[], reference: string[]) => {
+        const index = new Map(reference.map((id, i) => [id, i]));
+        const weights = new Map<string, number>();
+        layer.forEach((id, i) => {
+            const linked = (neighbours.get(id) || []).filter(n => index.has(n)).map(n => index.get(n)!);
+            weights.set(id, linked.length ? linked.reduce((a, b) => a + b, 0) / linked.length : i);
+        });
+        layer.sort((a, b) => weights.get(a)! - weights.get(b)!);
+    };
+
+    for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+        if (sweep % 2 === 0) {
+            for (let r = 1; r < layers.length; r++) if (layers[r]) sortByBarycenter(layers[r], layers[r - 1] || []);
+        } else {
+            for (let r = layers.length - 2; r >= 0; r--) if (layers[r]) sortByBarycenter(layers[r], layers[r + 1] || []);
+        }
+    }
+}
+
+/**
+ * Shifts centers so the group's bounding box starts at (0,0)
+ */
+function normalize(nodes: ArchNode[], centers: Map<string, Point>): Map<string, Point> {
+    const left = Math.min(...nodes.map(n => centers.get(n.id)!.x - n.width / 2));
+    const top = Math.min(...nodes.map(n => centers.get(n.id)!.y - n.height / 2));
+    const shifted = new Map<string, Point>();
+    centers.forEach((p, id) => shifted.set(id, { x: p.x - left, y: p.y - top }));
+    return shifted;
+}
+
+function measure(nodes: ArchNode[], centers: Map<string, Point>): { width: number; height: number } {
+    const right = Math.max(...nodes.map(n => centers.get(n.id)!.x + n.width / 2));
+    const bottom = Math.max(...nodes.map(n => centers.get(n.id)!.y + n.height / 2));
+    return { width: right, height: bottom };
+}
+
+/**
+ * Root-level nodes go to the right of anything already placed, or at the
+ * canvas origin when nothing is.
+ */
+function rootOrigin(
+    nodes: ArchNode[],
+    containers: Container[],
+    unplaced: Set<string>,
+    config: LayoutConfig
+): Point {
+    const rights: number[] = [];
+    const tops: number[] = [];
+
+    nodes.forEach(n => {
+        if (unplaced.has(n.id)) return;
+        rights.push(n.x + n.width / 2);
+        tops.push(n.y - n.height / 2);
+    });
+    containers.forEach(c => {
+        rights.push(c.x + c.width);
+        tops.push(c.y);
+    });
+
+    if (rights.length === 0) return { ...ORIGIN };
+
+    return { x: Math.max(...rights) + config.spacing.layerGap / 2, y: Math.min(...tops) };
+}
@@ -0,0 +1,401 @@
+/**
+ * CloudFormation Importer
+ * Converts an AWS CloudFormation or SAM template (JSON or YAML) into DiagramData:
+ *
+ *   Transform: AWS::Serverless-2016-10-31
+ *   Resources:
+ *     Vpc: { Type: AWS::EC2::VPC, Properties: { CidrBlock: 10.0.0.0/16 } }
+ *     Private: { Type: AWS::EC2::Subnet, Properties: { VpcId: !Ref Vpc } }
+ *     Jobs: { Type: AWS::SQS::Queue }
+ *     Orders: { Type: AWS::DynamoDB::Table }
+ *     Worker:
+ *       Type: AWS::Serverless::Function
+ *       Properties:
+ *         VpcConfig: { SubnetIds: [!Ref Private] }
+ *         Environment: { Variables: { TABLE: !Ref Orders } }
+ *         Events: { Queue: { Type: SQS, Properties: { Queue: !GetAtt Jobs.Arn } } }
+ *
+ * VPCs, subnets and security groups become Containers, nested by their references; other
+ * resources become nodes whose icon comes from the resource type, placed in the subnet,
+ * security group or VPC they reference. `Ref`, `Fn::GetAtt` and `Fn::Sub` references become
+ * links (`DependsOn` ones dotted); SAM function events, event source mappings, subscriptions
+ * and permissions become links from the event source to the function.
+ *
+ * Supporting resources (IAM, routing, API methods…) are left out. Templates have no
+ * coordinates, so the whole diagram is auto-laid out.
+ */
+
+import { Schema, Type, DEFAULT_SCHEMA } from 'js-yaml';
+import { ArchNode, Link, Container, IconType } from '../types';
+import { layoutWholeDiagram } from './autoLayout';
+import { DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from './cubegenDSL';
+import { readYamlDocuments, isYamlMap, yamlString, yamlList, YamlMap } from './yamlDocuments';
+import type { ImportResult } from './diagramImport';
+import { groupByNetwork, networkContainers, NetworkContainerType, NetworkReference } from './networkGrouping';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface Resource {
+    id: string;
+    type: string;
+    properties: YamlMap;
+    raw: YamlMap;
+}
+
+// ============================================
+// RESOURCE TYPES
+// ============================================
+
+const NETWORK_CONTAINERS: Record<string, NetworkContainerType> = {
+    'AWS::EC2::VPC': 'vpc',
+    'AWS::EC2::Subnet': 'subnet',
+    'AWS::EC2::SecurityGroup': 'security-group',
+};
+
+const RESOURCE_ICONS: Record<string, IconType> = {
+    'AWS::EC2::Instance': IconType.AwsEc2,
+    'AWS::EC2::LaunchTemplate': IconType.AwsEc2,
+    'AWS::AutoScaling::AutoScalingGroup': IconType.AwsEc2,
+    'AWS::Lambda::Function': IconType.AwsLambda,
+    'AWS::Serverless::Function': IconType.AwsLambda,
+    'AWS::DynamoDB::Table': IconType.AwsDynamoDb,
+    'AWS::DynamoDB::GlobalTable': IconType.AwsDynamoDb,
+    'AWS::Serverless::SimpleTable': IconType.AwsDynamoDb,
+    'AWS::SQS::Queue': IconType.AwsSqs,
+    'AWS::SNS::Topic': IconType.AwsSns,
+    'AWS::ApiGateway::RestApi': IconType.AwsApiGateway,
+    'AWS::ApiGatewayV2::Api': IconType.AwsApiGateway,
+    'AWS::Serverless::Api': IconType.AwsApiGateway,
+    'AWS::Serverless::HttpApi': IconType.AwsApiGateway,
+    'AWS::S3::Bucket': IconType.AwsS3,
+    'AWS::RDS::DBInstance': IconType.AwsRds,
+    'AWS::RDS::DBCluster': IconType.AwsRds,
+    'AWS::ElasticLoadBalancingV2::LoadBalancer': IconType.AwsLoadBalancer,
+    'AWS::ElasticLoadBalancing::LoadBalancer': IconType.AwsLoadBalancer,
+    'AWS::CloudFront::Distribution': IconType.AwsCloudfront,
+    'AWS::ECS::Cluster': IconType.AwsEcs,
+    'AWS::ECS::Service': IconType.AwsEcs,
+    'AWS::EKS::Cluster': IconType.Kubernetes,
+    'AWS::Events::Rule': IconType.AwsEventbridge,
+    'AWS::Events::EventBus': IconType.AwsEventbridge,
+    'AWS::Scheduler::Schedule': IconType.AwsEventbridge,
+    'AWS::CloudWatch::Alarm': IconType.AwsCloudwatch,
+    'AWS::Logs::LogGroup': IconType.AwsCloudwatch,
+    'AWS::ElastiCache::CacheCluster': IconType.Cache,
+    'AWS::ElastiCache::ReplicationGroup': IconType.Cache,
+    'AWS::SecretsManager::Secret': IconType.SecretsManager,
+    'AWS::Cognito::UserPool': IconType.AuthService,
+    'AWS::Kinesis::Stream': IconType.MessageQueue,
+    'AWS::MSK::Cluster': IconType.Kafka,
+    'AWS::WAFv2::WebACL': IconType.Firewall,
+    'AWS::EC2::InternetGateway': IconType.Cloud,
+};
+
+// Left out of the diagram: roles, routing, API plumbing and other configuration
+const SUPPORTING_RESOURCES = [
+    /^AWS::IAM::/,
+    /(Policy|Permission|Association|Attachment|Version|Alias)$/,
+    /^AWS::EC2::(Route|RouteTable|EIP|SecurityGroupIngress|SecurityGroupEgress|NetworkAcl|NetworkAclEntry|KeyPair)$/,
+    /^AWS::ElasticLoadBalancingV2::(Listener|ListenerRule|TargetGroup)$/,
+    /^AWS::ApiGateway::(Resource|Method|Deployment|Stage|Authorizer|Model|ApiKey|UsagePlan|UsagePlanKey)$/,
+    /^AWS::ApiGatewayV2::(Route|Integration|Stage|Deployment|Authorizer)$/,
+    /^AWS::(RDS::DBSubnetGroup|ElastiCache::SubnetGroup|ECS::TaskDefinition|Lambda::LayerVersion|Serverless::LayerVersion)$/,
+    /^AWS::CloudFormation::/,
+];
+
+// Glue resources drawn as links from the resource in the first property to those in the second
+const LINKING_RESOURCES: Record<string, [string, string]> = {
+    'AWS::Lambda::EventSourceMapping': ['EventSourceArn', 'FunctionName'],
+    'AWS::SNS::Subscription': ['TopicArn', 'Endpoint'],
+    'AWS::Lambda::Permission': ['SourceArn', 'FunctionName'],
+};
+
+// SAM event types, and the property naming their source
+const EVENT_SOURCES: Record<string, string> = {
+    SQS: 'Queue',
+    SNS: 'Topic',
+    S3: 'Bucket',
+    DynamoDB: 'Stream',
+    Kinesis: 'Stream',
+    Api: 'RestApiId',
+    HttpApi: 'ApiId',
+    EventBridgeRule: 'EventBusName',
+};
+
+// SAM creates these APIs for Api/HttpApi events that name none
+const IMPLICIT_APIS: Record<string, string> = { Api: 'ServerlessRestApi', HttpApi: 'ServerlessHttpApi' };
+
+// Properties that reference a network, by what they reference
+const NETWORK_PROPERTIES: Record<NetworkReference, string[]> = {
+    subnet: ['SubnetId', 'SubnetIds', 'Subnets', 'VPCZoneIdentifier'],
+    subnetGroup: ['DBSubnetGroupName', 'CacheSubnetGroupName'],
+    securityGroup: ['SecurityGroupIds', 'SecurityGroups', 'VpcSecurityGroupIds', 'GroupSet'],
+    vpc: ['VpcId'],
+};
+
+// Properties holding a display name
+const NAME_PROPERTIES = ['Name', 'FunctionName', 'TableName', 'QueueName', 'TopicName', 'BucketName', 'DBInstanceIdentifier', 'ClusterName'];
+
+// ============================================
+// YAML SHORT FORMS
+// ============================================
+
+const INTRINSIC_FUNCTIONS = [
+    'Ref', 'Condition', 'GetAtt', 'Sub', 'Join', 'Select', 'Split', 'If', 'Equals', 'And', 'Or', 'Not',
+    'FindInMap', 'ImportValue', 'GetAZs', 'Base64', 'Cidr', 'Transform', 'ToJsonString', 'Length',
+];
+
+/**
+ * `!Ref Queue` is `{ Ref: Queue }`, `!GetAtt Queue.Arn` is `{ "Fn::GetAtt": [Queue, Arn] }`
+ */
+const TEMPLATE_SCHEMA: Schema = DEFAULT_SCHEMA.extend(INTRINSIC_FUNCTIONS.flatMap(name => {
+    const key = name === 'Ref' || name === 'Condition' ? name : `Fn::${name}`;
+    return (['scalar', 'sequence', 'mapping'] as const).map(kind => new Type(`!${name}`, {
+        kind,
+        construct: (data: unknown) => {
+            if (name === 'GetAtt' && typeof data === 'string') {
+                const dot = data.indexOf('.');
+                return { [key]: dot < 0 ? [data] : [data.slice(0, dot), data.slice(dot + 1)] };
+            }
+            return { [key]: data ?? '' };
+        },
+    }));
+}));
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+export function importCloudFormation(source: string): ImportResult {
+    const read = readYamlDocuments(source, { schema: TEMPLATE_SCHEMA });
+    if ('error' in read) return { success: false, errors: [read.error], warnings: [] };
+
+    const template = read.documents[0];
+    if (!isYamlMap(template) || !isYamlMap(template.Resources) || Object.keys(template.Resources).length === 0) {
+        return { success: false, errors: ['No resources found: expected a top-level "Resources" section.'], warnings: [] };
+    }
+
+    const warnings: string[] = [];
+    const resources = new Map<string, Resource>();
+    Object.entries(template.Resources).forEach(([id, value]) => {
+        const type = isYamlMap(value) ? yamlString(value.Type) : undefined;
+        if (!type) {
+            warnings.push(`Resource "${id}" has no Type and was skipped.`);
+            return;
+        }
+        const raw = value as YamlMap;
+        resources.set(id, { id, type, properties: isYamlMap(raw.Properties) ? raw.Properties : {}, raw });
+    });
+
+    const data = toDiagram(resources, warnings);
+    if (data.nodes.length === 0 && data.containers.length === 0) {
+        return { success: false, errors: ['The template only has supporting resources, such as IAM roles.'], warnings };
+    }
+    const layout = layoutWholeDiagram(data.nodes, data.links, data.containers, { strategy: 'tiered' });
+
+    return {
+        success: true,
+        data: {
+            title: yamlString(template.Description)?.split('\n')[0] || 'CloudFormation Stack',
+            architectureType: 'cloudformation-import',
+            nodes: layout.nodes,
+            links: data.links,
+            containers: layout.containers.length > 0 ? layout.containers : undefined,
+        },
+        errors: [],
+        warnings,
+    };
+}
+
+/**
+ * Whether text looks like a CloudFormation or SAM template
+ */
+export function isCloudFormationSource(text: string): boolean {
+    return /"?AWSTemplateFormatVersion"?\s*:/.test(text)
+        || /"?Transform"?\s*:\s*"?AWS::Serverless/.test(text)
+        || (/^\s*"?Resources"?\s*:/m.test(text) && /"?Type"?\s*:\s*"?AWS::/.test(text));
+}
+
+// ============================================
+// REFERENCES
+// ============================================
+
+/**
+ * Logical ids a value refers to through Ref, Fn::GetAtt and Fn::Sub, in order
+ */
+function referencesIn(value: unknown, resources: Map<string, Resource>): string[] {
+    const ids: string[] = [];
+    const add = (id: string | undefined) => {
+        if (id && resources.has(id) && !ids.includes(id)) ids.push(id);
+    };
+    const walk = (v: unknown) => {
+        if (Array.isArray(v)) v.forEach(walk);
+        if (!isYamlMap(v)) return;
+        Object.entries(v).forEach(([key, inner]) => {
+            if (key === 'Ref') add(yamlString(inner));
+            else if (key === 'Fn::GetAtt') add(Array.isArray(inner) ? yamlString(inner[0]) : yamlString(inner)?.split('.')[0]);
+            else if (key === 'Fn::Sub') {
+                const text = Array.isArray(inner) ? yamlString(inner[0]) : yamlString(inner);
+                // ${Queue} and ${Queue.Arn}; ${!Literal} is escaped
+                for (const match of (text ?? '').matchAll(/\$\{([A-Za-z0-9]+)(\.[^}]*)?\}/g)) add(match[1]);
+                if (Array.isArray(inner)) walk(inner[1]);
+            } else walk(inner);
+        });
+    };
+    walk(value);
+    return ids;
+}
+
+/**
+ * References made under the named properties, at any depth
+ */
+function referencesOf(value: unknown, names: string[], resources: Map<string, Resource>): string[] {
+    const ids = new Set<string>();
+    const walk = (v: unknown) => {
+        if (Array.isArray(v)) v.forEach(walk);
+        if (!isYamlMap(v)) return;
+        Object.entries(v).forEach(([key, inner]) => {
+            if (names.includes(key)) referencesIn(inner, resources).forEach(id => ids.add(id));
+            else walk(inner);
+        });
+    };
+    walk(value);
+    return [...ids];
+}
+
+// ============================================
+// CONVERSION
+// ============================================
+
+function toDiagram(
+    resources: Map<string, Resource>,
+    warnings: string[]
+): { nodes: ArchNode[]; links: Link[]; containers: Container[] } {
+    const networks = new Map<string, NetworkContainerType>();
+    const nodeIds: string[] = [];
+    const linking: Resource[] = [];
+    const supporting: string[] = [];
+    const untyped = new Set<string>();
+
+    resources.forEach(resource => {
+        if (NETWORK_CONTAINERS[resource.type]) networks.set(resource.id, NETWORK_CONTAINERS[resource.type]);
+        else if (LINKING_RESOURCES[resource.type]) linking.push(resource);
+        else if (!RESOURCE_ICONS[resource.type] && SUPPORTING_RESOURCES.some(p => p.test(resource.type))) supporting.push(resource.id);
+        else {
+            nodeIds.push(resource.id);
+            if (!RESOURCE_ICONS[resource.type]) untyped.add(resource.type);
+        }
+    });
+
+    const networkReferences = (id: string, kind: NetworkReference) => referencesOf(resources.get(id)!.properties, NETWORK_PROPERTIES[kind], resources);
+    const grouping = groupByNetwork({
+        containerTypes: networks,
+        nodeKeys: nodeIds,
+        parentReferences: id => networkReferences(id, 'vpc'),
+        references: networkReferences,
+    });
+
+    const nodes: ArchNode[] = nodeIds.map(id => {
+        const resource = resources.get(id)!;
+        return {
+            id,
+            label: labelOf(resource),
+            type: RESOURCE_ICONS[resource.type] ?? IconType.Generic,
+            x: 0,
+            y: 0,
+            width: DEFAULT_NODE_WIDTH,
+            height: DEFAULT_NODE_HEIGHT,
+            description: `${resource.type} ${id}`,
+        };
+    });
+
+    const links: Link[] = [];
+    const linked = new Set<string>();
+    const addLink = (from: string, to: string, options: { label?: string; dotted?: boolean } = {}) => {
+        const pair = `${from}→${to}`;
+        const isNode = (id: string) => nodeIds.includes(id) || nodes.some(n => n.id === id);
+        if (from === to || linked.has(pair) || !isNode(from) || !isNode(to)) return;
+        linked.add(pair);
+        links.push({
+            id: `link-${links.length + 1}`,
+            source: from,
+            target: to,
+            ...(options.label && { label: options.label }),
+            ...(options.dotted && { style: 'dotted' as const }),
+        });
+    };
+
+    // SAM function events run from their source to the function; they come first so their labels win
+    nodeIds.forEach(id => {
+        const resource = resources.get(id)!;
+        if (resource.type !== 'AWS::Serverless::Function' || !isYamlMap(resource.properties.Events)) return;
+        Object.values(resource.properties.Events).filter(isYamlMap).forEach(event => {
+            const type = yamlString(event.Type) ?? '';
+            const properties = isYamlMap(event.Properties) ? event.Properties : {};
+            const sources = EVENT_SOURCES[type] ? referencesIn(properties[EVENT_SOURCES[type]], resources) : [];
+            const label = type === 'Api' || type === 'HttpApi'
+                ? [yamlString(properties.Method)?.toUpperCase(), yamlString(properties.Path)].filter(Boolean).join(' ') || type
+                : type;
+            if (sources.length === 0 && IMPLICIT_APIS[type]) {
+                const api = IMPLICIT_APIS[type];
+                if (!nodes.some(n => n.id === api)) {
+                    nodes.push({
+                        id: api,
+                        label: type === 'Api' ? 'REST API' : 'HTTP API',
+                        type: IconType.AwsApiGateway,
+                        x: 0,
+                        y: 0,
+                        width: DEFAULT_NODE_WIDTH,
+                        height: DEFAULT_NODE_HEIGHT,
+                        description: `API created by SAM for the ${type} events`,
+                    });
+                }
+                sources.push(api);
+            }
+            sources.forEach(source => addLink(source, id, { label }));
+        });
+    });
+    linking.forEach(resource => {
+        const [from, to] = LINKING_RESOURCES[resource.type];
+        referencesIn(resource.properties[from], resources).forEach(source =>
+            referencesIn(resource.properties[to], resources).forEach(target => addLink(source, target)));
+    });
+    nodeIds.forEach(id => {
+        const { type, properties } = resources.get(id)!;
+        const { Events: _events, ...rest } = properties;
+        referencesIn(type === 'AWS::Serverless::Function' ? rest : properties, resources).forEach(target => addLink(id, target));
+    });
+    nodeIds.forEach(id => {
+        const dependsOn = resources.get(id)!.raw.DependsOn;
+        const targets = Array.isArray(dependsOn) ? dependsOn.map(yamlString) : [yamlString(dependsOn)];
+        targets.forEach(target => {
+            if (target) addLink(id, target, { dotted: true });
+        });
+    });
+
+    const containers = networkContainers(grouping, nodeIds, id => id, id => ({
+        label: labelOf(resources.get(id)!),
+        description: `${resources.get(id)!.type} ${id}`,
+    }));
+    warnings.push(...grouping.warnings);
+
+    if (supporting.length > 0) {
+        warnings.push(`Left out ${supporting.length} supporting resource${supporting.length !== 1 ? 's' : ''}: ${supporting.join(', ')}.`);
+    }
+    if (untyped.size > 0) {
+        warnings.push(`No matching icon for ${[...untyped].join(', ')}; shown as generic nodes.`);
+    }
+
+    return { nodes, links, containers };
+}
+
+/**
+ * The Name tag or a name property when it is a plain string, else the logical id
+ */
+function labelOf(resource: Resource): string {
+    const tag = yamlList(resource.properties.Tags).filter(isYamlMap).find(t => t.Key === 'Name');
+    const named = NAME_PROPERTIES.map(p => yamlString(resource.properties[p])).find(Boolean);
+    return yamlString(tag?.Value) ?? named ?? resource.id;
+}
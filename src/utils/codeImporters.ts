@@ -0,0 +1,185 @@
+/**
+ * Code Importers
+ * Infrastructure-as-code languages the Code to Diagram page accepts besides the CubeGen DSL.
+ * Each converts its source straight into a laid-out diagram.
+ */
+
+import { importTerraform, isTerraformSource } from './terraformImporter';
+import { importDockerCompose, isComposeSource } from './composeImporter';
+import { importKubernetes, isKubernetesSource } from './kubernetesImporter';
+import { importCloudFormation, isCloudFormationSource } from './cloudFormationImporter';
+import type { ImportResult } from './diagramImport';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type CodeLanguage = 'cubegen' | 'terraform' | 'cloudformation' | 'compose' | 'kubernetes';
+
+export interface CodeImporter {
+    label: string;
+    // Shown in an empty editor and loaded when switching to the language
+    example: string;
+    detect: (code: string) => boolean;
+    convert: (code: string) => ImportResult;
+}
+
+// ============================================
+// EXAMPLES
+// ============================================
+
+const TERRAFORM_EXAMPLE = `# Paste your .tf files here
+resource "aws_vpc" "main" {
+  cidr_block = "10.0.0.0/16"
+  tags       = { Name = "Production VPC" }
+}
+
+resource "aws_subnet" "public" {
+  vpc_id     = aws_vpc.main.id
+  cidr_block = "10.0.1.0/24"
+}
+
+resource "aws_instance" "web" {
+  ami           = data.aws_ami.ubuntu.id
+  instance_type = "t3.micro"
+  subnet_id     = aws_subnet.public.id
+  tags          = { Name = "Web Server" }
+}
+
+resource "aws_s3_bucket" "assets" {
+  bucket = "app-assets"
+}
+
+resource "aws_lambda_function" "thumbnails" {
+  function_name = "thumbnails"
+  environment {
+    variables = { BUCKET = aws_s3_bucket.assets.bucket }
+  }
+  depends_on = [aws_instance.web]
+}`;
+
+const CLOUDFORMATION_EXAMPLE = `# Paste your CloudFormation or SAM template here
+AWSTemplateFormatVersion: '2010-09-09'
+Transform: AWS::Serverless-2016-10-31
+Description: Order processing
+
+Resources:
+  OrdersTable:
+    Type: AWS::DynamoDB::Table
+    Properties:
+      TableName: orders
+      BillingMode: PAY_PER_REQUEST
+      AttributeDefinitions: [{ AttributeName: id, AttributeType: S }]
+      KeySchema: [{ AttributeName: id, KeyType: HASH }]
+
+  OrderQueue:
+    Type: AWS::SQS::Queue
+
+  OrderEvents:
+    Type: AWS::SNS::Topic
+
+  CreateOrder:
+    Type: AWS::Serverless::Function
+    Properties:
+      Handler: create.handler
+      Runtime: nodejs20.x
+      Environment:
+        Variables:
+          QUEUE_URL: !Ref OrderQueue
+      Events:
+        Post: { Type: Api, Properties: { Path: /orders, Method: post } }
+
+  ProcessOrder:
+    Type: AWS::Serverless::Function
+    Properties:
+      Handler: process.handler
+      Runtime: nodejs20.x
+      Environment:
+        Variables:
+          TABLE: !Ref OrdersTable
+          TOPIC: !Ref OrderEvents
+      Events:
+        Queue: { Type: SQS, Properties: { Queue: !GetAtt OrderQueue.Arn } }`;
+
+const COMPOSE_EXAMPLE = `# Paste your docker-compose.yml here
+services:
+  proxy:
+    image: nginx:1.25
+    ports: ["80:80"]
+    networks: [frontend]
+    depends_on: [api]
+  api:
+    build: ./api
+    networks: [frontend, backend]
+    depends_on: [db, cache]
+  db:
+    image: postgres:16
+    networks: [backend]
+    volumes: [db-data:/var/lib/postgresql/data]
+  cache:
+    image: redis:7
+    networks: [backend]
+
+networks:
+  frontend: {}
+  backend: {}
+
+volumes:
+  db-data: {}`;
+
+const KUBERNETES_EXAMPLE = `# Paste your Kubernetes manifests here
+apiVersion: networking.k8s.io/v1
+kind: Ingress
+metadata: { name: shop, namespace: shop }
+spec:
+  rules:
+    - http:
+        paths:
+          - path: /
+            pathType: Prefix
+            backend: { service: { name: api, port: { number: 80 } } }
+---
+apiVersion: v1
+kind: Service
+metadata: { name: api, namespace: shop }
+spec:
+  selector: { app: api }
+  ports: [{ port: 80, targetPort: 3000 }]
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata: { name: api, namespace: shop }
+spec:
+  replicas: 3
+  selector: { matchLabels: { app: api } }
+  template:
+    metadata: { labels: { app: api } }
+    spec:
+      containers:
+        - name: api
+          image: node:20
+          envFrom: [{ configMapRef: { name: api-config } }]
+---
+apiVersion: v1
+kind: ConfigMap
+metadata: { name: api-config, namespace: shop }
+data: { LOG_LEVEL: info }`;
+
+// ============================================
+// REGISTRY
+// ============================================
+
+export const CODE_IMPORTERS: Record<Exclude<CodeLanguage, 'cubegen'>, CodeImporter> = {
+    terraform: { label: 'Terraform', example: TERRAFORM_EXAMPLE, detect: isTerraformSource, convert: importTerraform },
+    cloudformation: { label: 'CloudFormation', example: CLOUDFORMATION_EXAMPLE, detect: isCloudFormationSource, convert: importCloudFormation },
+    compose: { label: 'Docker Compose', example: COMPOSE_EXAMPLE, detect: isComposeSource, convert: importDockerCompose },
+    kubernetes: { label: 'Kubernetes', example: KUBERNETES_EXAMPLE, detect: isKubernetesSource, convert: importKubernetes },
+};
+
+/**
+ * The language some code is written in, for code restored without one
+ */
+export function detectCodeLanguage(code: string): CodeLanguage {
+    const match = (Object.keys(CODE_IMPORTERS) as (keyof typeof CODE_IMPORTERS)[]).find(language => CODE_IMPORTERS[language].detect(code));
+    return match ?? 'cubegen';
+}
@@ -0,0 +1,244 @@
+/**
+ * Docker Compose Importer
+ * Converts a `docker-compose.yml` into DiagramData:
+ *
+ *   services:
+ *     web:
+ *       image: nginx:1.25
+ *       networks: [frontend]
+ *       depends_on: [api]
+ *     api:
+ *       build: ./api
+ *       networks: [frontend, backend]
+ *     db:
+ *       image: postgres:16
+ *       networks: [backend]
+ *       volumes: [db-data:/var/lib/postgresql/data]
+ *   networks: { frontend: {}, backend: {} }
+ *   volumes: { db-data: {} }
+ *
+ * Services become nodes (the image picks the icon, Docker when it is unknown), networks
+ * become containers holding the services attached to them (the first one, for services on
+ * several), and named volumes become storage nodes linked from the services mounting them.
+ * `depends_on` and legacy `links` become links. Compose has no coordinates, so the whole
+ * diagram is auto-laid out.
+ */
+
+import { ArchNode, Link, Container, IconType } from '../types';
+import { layoutWholeDiagram } from './autoLayout';
+import { DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from './cubegenDSL';
+import { readYamlDocuments, isYamlMap, yamlString, yamlList, YamlMap } from './yamlDocuments';
+import type { ImportResult } from './diagramImport';
+
+// ============================================
+// IMAGES
+// ============================================
+
+// Matched against the image's repository name, without registry, owner or tag; first match wins
+const IMAGE_ICONS: [RegExp, IconType][] = [
+    [/^nginx/, IconType.Nginx],
+    [/^(haproxy|traefik|envoy|caddy)/, IconType.LoadBalancer],
+    [/^(postgres|postgis|timescaledb)/, IconType.Postgresql],
+    [/^(mysql|mariadb|percona)/, IconType.MySql],
+    [/^mongo/, IconType.MongoDb],
+    [/^(redis|valkey|memcached|keydb)/, IconType.Cache],
+    [/^(kafka|cp-kafka|redpanda)/, IconType.Kafka],
+    [/^(rabbitmq|nats|activemq|artemis)/, IconType.MessageQueue],
+    [/^(elasticsearch|opensearch|cassandra|couchdb|cockroach|clickhouse|mssql|neo4j)/, IconType.Database],
+    [/^(qdrant|weaviate|milvus|chroma)/, IconType.VectorDatabase],
+    [/^(minio|localstack)/, IconType.DataStore],
+    [/^(prometheus|grafana|jaeger|zipkin|otel|opentelemetry)/, IconType.Monitoring],
+    [/^(loki|fluentd|fluent-bit|logstash|kibana|vector)/, IconType.Logging],
+    [/^vault/, IconType.SecretsManager],
+    [/^keycloak/, IconType.AuthService],
+    [/^(node|bun|deno)/, IconType.NodeJs],
+    [/^(python|pypy)/, IconType.Python],
+    [/^golang/, IconType.GoLang],
+];
+
+/**
+ * The icon for a container image such as `bitnami/postgresql:16` or `ghcr.io/org/api@sha256:…`
+ */
+export function iconForImage(image: string): IconType | undefined {
+    const repository = image.split('@')[0].split('/').pop()!.split(':')[0].toLowerCase();
+    return IMAGE_ICONS.find(([pattern]) => pattern.test(repository))?.[1];
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+export function importDockerCompose(source: string): ImportResult {
+    const read = readYamlDocuments(source);
+    if ('error' in read) return { success: false, errors: [read.error], warnings: [] };
+
+    const file = read.documents[0];
+    if (!isYamlMap(file) || !isYamlMap(file.services) || Object.keys(file.services).length === 0) {
+        return { success: false, errors: ['No services found: expected a top-level "services:" map.'], warnings: [] };
+    }
+
+    const warnings: string[] = [];
+    if (read.documents.length > 1) warnings.push(`Found ${read.documents.length} YAML documents; imported the first one.`);
+
+    const data = toDiagram(file, warnings);
+    const layout = layoutWholeDiagram(data.nodes, data.links, data.containers, { strategy: 'tiered' });
+
+    return {
+        success: true,
+        data: {
+            title: yamlString(file.name) || 'Docker Compose Services',
+            architectureType: 'compose-import',
+            nodes: layout.nodes,
+            links: data.links,
+            containers: layout.containers.length > 0 ? layout.containers : undefined,
+        },
+        errors: [],
+        warnings,
+    };
+}
+
+/**
+ * Whether text looks like a Compose file
+ */
+export function isComposeSource(text: string): boolean {
+    return /^services\s*:/m.test(text) && !/^(apiVersion|AWSTemplateFormatVersion|Resources)\s*:/m.test(text);
+}
+
+// ============================================
+// CONVERSION
+// ============================================
+
+interface VolumeMount {
+    source: string;
+    target?: string;
+}
+
+function toDiagram(file: YamlMap, warnings: string[]): { nodes: ArchNode[]; links: Link[]; containers: Container[] } {
+    const services = file.services as YamlMap;
+    const networks = isYamlMap(file.networks) ? Object.keys(file.networks) : [];
+    const volumes = isYamlMap(file.volumes) ? Object.keys(file.volumes) : [];
+
+    const serviceId = (name: string) => `service-${name}`;
+    const volumeId = (name: string) => `volume-${name}`;
+    const networkId = (name: string) => `network-${name}`;
+
+    const nodes: ArchNode[] = [];
+    const membership = new Map<string, string>();
+    const mounts = new Map<string, VolumeMount[]>();
+
+    Object.entries(services).forEach(([name, value]) => {
+        const service = isYamlMap(value) ? value : {};
+        const image = yamlString(service.image);
+        const attached = isYamlMap(service.networks) ? Object.keys(service.networks) : yamlList(service.networks).map(yamlString).filter((n): n is string => !!n);
+
+        attached.filter(n => !networks.includes(n) && n !== 'default').forEach(n => {
+            warnings.push(`Service "${name}" uses the network "${n}", which is not declared under networks:.`);
+        });
+        const network = attached.find(n => networks.includes(n));
+        if (network) membership.set(serviceId(name), networkId(network));
+
+        mounts.set(name, yamlList(service.volumes).map(volumeMount).filter((m): m is VolumeMount => !!m && volumes.includes(m.source)));
+
+        nodes.push({
+            id: serviceId(name),
+            label: yamlString(service.container_name) || name,
+            type: (image && iconForImage(image)) || IconType.Docker,
+            x: 0,
+            y: 0,
+            width: DEFAULT_NODE_WIDTH,
+            height: DEFAULT_NODE_HEIGHT,
+            description: serviceDescription(service, attached),
+        });
+    });
+
+    // A volume sits in the network of the services using it, when they share one
+    volumes.forEach(name => {
+        const users = Object.keys(services).filter(s => mounts.get(s)!.some(m => m.source === name));
+        const places = new Set(users.map(s => membership.get(serviceId(s))));
+        if (places.size === 1 && [...places][0]) membership.set(volumeId(name), [...places][0]!);
+        nodes.push({
+            id: volumeId(name),
+            label: name,
+            type: IconType.DataStore,
+            x: 0,
+            y: 0,
+            width: DEFAULT_NODE_WIDTH,
+            height: DEFAULT_NODE_HEIGHT,
+            description: `Volume ${name}`,
+        });
+    });
+
+    const links: Link[] = [];
+    const linked = new Set<string>();
+    const addLink = (from: string, to: string, label?: string) => {
+        if (from === to || linked.has(`${from}→${to}`)) return;
+        linked.add(`${from}→${to}`);
+        links.push({ id: `link-${links.length + 1}`, source: from, target: to, ...(label && { label }) });
+    };
+
+    Object.entries(services).forEach(([name, value]) => {
+        const service = isYamlMap(value) ? value : {};
+        const dependencies = isYamlMap(service.depends_on)
+            ? Object.keys(service.depends_on)
+            : yamlList(service.depends_on).map(yamlString);
+        // Legacy links are "service" or "service:alias"
+        const legacy = yamlList(service.links).map(l => yamlString(l)?.split(':')[0]);
+
+        [...dependencies, ...legacy].forEach(dependency => {
+            if (!dependency) return;
+            if (!(dependency in services)) {
+                warnings.push(`Service "${name}" depends on "${dependency}", which is not a service in this file.`);
+                return;
+            }
+            addLink(serviceId(name), serviceId(dependency));
+        });
+        mounts.get(name)!.forEach(mount => addLink(serviceId(name), volumeId(mount.source), mount.target));
+    });
+
+    const containers: Container[] = networks.map(name => {
+        const network = (file.networks as YamlMap)[name];
+        const external = isYamlMap(network) && network.external;
+        return {
+            id: networkId(name),
+            label: `${name} network`,
+            type: 'group' as const,
+            x: 0,
+            y: 0,
+            width: 0,
+            height: 0,
+            childNodeIds: nodes.filter(n => membership.get(n.id) === networkId(name)).map(n => n.id),
+            description: external ? `External network ${name}` : `Network ${name}`,
+            nestingLevel: 0,
+        };
+    });
+
+    return { nodes, links, containers };
+}
+
+/**
+ * A named volume mount: `data:/var/lib/data:ro` or `{ type: volume, source: data, target: /var/lib/data }`.
+ * Bind mounts and anonymous volumes have no source that is a declared volume.
+ */
+function volumeMount(entry: unknown): VolumeMount | undefined {
+    if (isYamlMap(entry)) {
+        const source = yamlString(entry.source);
+        return source ? { source, target: yamlString(entry.target) } : undefined;
+    }
+    const [source, target] = (yamlString(entry) ?? '').split(':');
+    return source && target ? { source, target } : undefined;
+}
+
+function serviceDescription(service: YamlMap, networks: string[]): string {
+    const build = isYamlMap(service.build) ? yamlString(service.build.context) : yamlString(service.build);
+    const ports = yamlList(service.ports)
+        .map(p => (isYamlMap(p) ? [yamlString(p.published), yamlString(p.target)].filter(Boolean).join(':') : yamlString(p)))
+        .filter(Boolean);
+    const replicas = isYamlMap(service.deploy) ? yamlString(service.deploy.replicas) : undefined;
+
+    return [
+        yamlString(service.image) ? `Image ${yamlString(service.image)}` : build ? `Built from ${build}` : undefined,
+        ports.length > 0 ? `ports ${ports.join(', ')}` : undefined,
+        replicas ? `${replicas} replicas` : undefined,
+        networks.length > 1 ? `networks ${networks.join(', ')}` : undefined,
+    ].filter(Boolean).join('; ');
+}
@@ -0,0 +1,1009 @@
+/**
+ * CubeGen DSL Syntax Tree
+ * Tokenizes DSL code line by line and parses it into an AST with source ranges
+ *
+ * The parser recovers from mistakes: a malformed line is reported and skipped, a malformed
+ * attribute is reported and the rest of its line is still read, so every valid statement
+ * survives. Tokens are annotated with their syntactic role, which drives editor highlighting.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+/** A span within one line: 1-based line, 0-based columns, end exclusive */
+export interface SourceRange {
+    line: number;
+    start: number;
+    end: number;
+    // Path of the imported file the span is in; absent for the file being edited
+    file?: string;
+}
+
+export type TokenKind =
+    | 'word'
+    | 'string'
+    | 'value'
+    | 'arrow'
+    | 'colon'
+    | 'equals'
+    | 'lbrace'
+    | 'rbrace'
+    | 'lparen'
+    | 'rparen'
+    | 'comma'
+    | 'range'
+    | 'comment'
+    | 'unknown';
+
+export type TokenRole =
+    | 'keyword'
+    | 'declaration'
+    | 'definition'
+    | 'reference'
+    | 'label'
+    | 'attributeKey'
+    | 'attributeValue'
+    | 'operator'
+    | 'punctuation'
+    | 'comment'
+    | 'invalid'
+    | 'plain';
+
+export interface Token {
+    kind: TokenKind;
+    text: string;
+    start: number;
+    end: number;
+    role: TokenRole;
+    // Strings only: false when the closing quote is missing
+    terminated?: boolean;
+}
+
+export interface Identifier {
+    name: string;
+    range: SourceRange;
+}
+
+export interface StringLiteral {
+    value: string;
+    range: SourceRange;
+}
+
+export interface AttributeNode {
+    key: string;
+    value: string;
+    quoted: boolean;
+    range: SourceRange;
+    keyRange: SourceRange;
+    valueRange: SourceRange;
+    // Placement attributes only: the ids of the items they are placed against
+    references?: Identifier[];
+}
+
+export interface NodeStatement {
+    kind: 'node';
+    id: Identifier;
+    label: StringLiteral;
+    attributes: AttributeNode[];
+    range: SourceRange;
+}
+
+export interface ContainerStatement {
+    kind: 'container';
+    id: Identifier;
+    label: StringLiteral;
+    attributes: AttributeNode[];
+    // Whether the header ends with `{`, and whether a matching `}` was found
+    opensBlock: boolean;
+    closed: boolean;
+    body: Statement[];
+    range: SourceRange;
+}
+
+export interface ConnectionStatement {
+    kind: 'connection';
+    source: Identifier;
+    target: Identifier;
+    bidirectional: boolean;
+    label?: StringLiteral;
+    attributes: AttributeNode[];
+    range: SourceRange;
+}
+
+export interface TitleStatement {
+    kind: 'title';
+    title: StringLiteral;
+    range: SourceRange;
+}
+
+export interface LayoutStatement {
+    kind: 'layout';
+    strategy: Identifier;
+    range: SourceRange;
+}
+
+export interface LetStatement {
+    kind: 'let';
+    name: Identifier;
+    value: string;
+    quoted: boolean;
+    valueRange: SourceRange;
+    range: SourceRange;
+}
+
+export interface StyleStatement {
+    kind: 'style';
+    name: Identifier;
+    // Attributes from the header line and, for multi-line blocks, the body lines
+    attributes: AttributeNode[];
+    closed: boolean;
+    range: SourceRange;
+}
+
+export interface ForStatement {
+    kind: 'for';
+    variable: Identifier;
+    // Bounds as written; they may use placeholders of enclosing loops and components
+    from: Identifier;
+    to: Identifier;
+    closed: boolean;
+    body: Statement[];
+    range: SourceRange;
+}
+
+export interface ComponentStatement {
+    kind: 'component';
+    name: Identifier;
+    parameters: Identifier[];
+    closed: boolean;
+    body: Statement[];
+    range: SourceRange;
+}
+
+export interface Argument {
+    value: string;
+    quoted: boolean;
+    range: SourceRange;
+}
+
+export interface UseStatement {
+    kind: 'use';
+    component: Identifier;
+    args: Argument[];
+    range: SourceRange;
+}
+
+export interface ImportStatement {
+    kind: 'import';
+    path: StringLiteral;
+    // Namespace for the imported ids; defaults to the file name
+    alias?: Identifier;
+    range: SourceRange;
+}
+
+export type Statement =
+    | NodeStatement
+    | ContainerStatement
+    | ConnectionStatement
+    | TitleStatement
+    | LayoutStatement
+    | LetStatement
+    | StyleStatement
+    | ForStatement
+    | ComponentStatement
+    | UseStatement
+    | ImportStatement;
+
+/** Statements that hold a `{ ... }` body of other statements */
+export type BlockStatement = ContainerStatement | ForStatement | ComponentStatement;
+
+export interface SyntaxDiagnostic {
+    message: string;
+    range: SourceRange;
+}
+
+export interface CubeGenDocument {
+    // Top-level statements; container bodies hold their nested statements
+    statements: Statement[];
+    // Tokens of each line, index 0 is line 1
+    tokens: Token[][];
+    diagnostics: SyntaxDiagnostic[];
+}
+
+/**
+ * Where a range is, for messages: "line 4", or "line 4 of networking.cgd" in an imported file
+ */
+export function describeLocation(range: SourceRange): string {
+    return range.file ? `line ${range.line} of ${range.file.split(/[\\/]/).pop()}` : `line ${range.line}`;
+}
+
+// ============================================
+// TOKENIZER
+// ============================================
+
+// A `{name}` or `{i*200}` placeholder, substituted when loops and components are expanded
+const PLACEHOLDER_PATTERN = /^\{[\w+\-*/%]+\}/;
+// Words may be joined by dashes, or by dots in references to imported ids (networking.vpc)
+const ID_PATTERN = /^(?:\w|\{[\w+\-*/%]+\})+(?:[-.](?:\w|\{[\w+\-*/%]+\})+)*/;
+
+/**
+ * Split one line into tokens. Unquoted attribute values run from `=` to the next
+ * space, quote or brace, so values like #2563EB, 5,5 or -40 stay in one token.
+ * Placeholders are part of the word or value they appear in (worker{i}, x={i*200}).
+ */
+export function tokenizeLine(text: string): Token[] {
+    const tokens: Token[] = [];
+    const push = (kind: TokenKind, start: number, end: number, terminated?: boolean) => {
+        tokens.push({ kind, text: text.substring(start, end), start, end, role: 'plain', ...(terminated !== undefined && { terminated }) });
+    };
+
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+
+        if (/\s/.test(ch)) { i++; continue; }
+
+        if (text.startsWith('//', i)) {
+            push('comment', i, text.length);
+            break;
+        }
+
+        if (ch === '"') {
+            let j = i + 1;
+            while (j < text.length && text[j] !== '"') j += text[j] === '\\' ? 2 : 1;
+            const end = Math.min(j + 1, text.length);
+            push('string', i, end, j < text.length);
+            i = end;
+            continue;
+        }
+
+        if (text.startsWith('<->', i)) { push('arrow', i, i + 3); i += 3; continue; }
+        if (text.startsWith('->', i)) { push('arrow', i, i + 2); i += 2; continue; }
+        if (ch === ':') { push('colon', i, i + 1); i++; continue; }
+        if (ch === '{' && !PLACEHOLDER_PATTERN.test(text.substring(i))) { push('lbrace', i, i + 1); i++; continue; }
+        if (ch === '}') { push('rbrace', i, i + 1); i++; continue; }
+        if (ch === '(') { push('lparen', i, i + 1); i++; continue; }
+        if (ch === ')') { push('rparen', i, i + 1); i++; continue; }
+        if (ch === ',') { push('comma', i, i + 1); i++; continue; }
+        if (text.startsWith('..', i)) { push('range', i, i + 2); i += 2; continue; }
+
+        if (ch === '=') {
+            push('equals', i, i + 1);
+            i++;
+            let j = i;
+            while (j < text.length) {
+                const placeholder = text.substring(j).match(PLACEHOLDER_PATTERN);
+                if (placeholder) { j += placeholder[0].length; continue; }
+                if (/[\s"{}]/.test(text[j])) break;
+                j++;
+            }
+            if (j > i) {
+                push('value', i, j);
+                i = j;
+            }
+            continue;
+        }
+
+        const word = text.substring(i).match(ID_PATTERN);
+        if (word) {
+            push('word', i, i + word[0].length);
+            i += word[0].length;
+            continue;
+        }
+
+        push('unknown', i, i + 1);
+        i++;
+    }
+
+    return tokens;
+}
+
+// ============================================
+// PARSER
+// ============================================
+
+const NODE_SYNTAX = 'Invalid node syntax. Expected: node <id>: "<label>" [icon=<IconType>] [x=<number> y=<number>] [<attribute>=<value> ...]';
+const CONTAINER_SYNTAX = 'Invalid container syntax. Expected: container <id>: "<label>" type=<type> x=<n> y=<n> width=<n> height=<n> {';
+const CONNECTION_SYNTAX = 'Invalid connection syntax. Expected: source -> target: "label" or source <-> target: "label"';
+const TITLE_SYNTAX = 'Invalid title syntax. Expected: title "<diagram title>"';
+
+// Placement attributes whose value is another item's id (see cubegenPlacement.ts), by normalized key
+export const ANCHOR_KEYS = ['rightof', 'leftof', 'below', 'above', 'inside'];
+
+/**
+ * Parse DSL code into a document. Never throws; problems are collected as diagnostics.
+ * `file` is set when parsing an imported file, and is carried by every source range.
+ */
+export function parseCubeGenAST(code: string, file?: string): CubeGenDocument {
+    const lines = code.split('\n');
+    const tokens = lines.map(tokenizeLine);
+    const diagnostics: SyntaxDiagnostic[] = [];
+    const statements: Statement[] = [];
+    // Open blocks, innermost last. null marks a block whose header failed to parse:
+    // its body is kept in the enclosing block and its closing brace still balances.
+    const stack: (BlockStatement | null)[] = [];
+
+    const currentBody = (): Statement[] => {
+        const open = [...stack].reverse().find((b): b is BlockStatement => b !== null);
+        return open ? open.body : statements;
+    };
+    const openBlock = (block: BlockStatement | null, lineTokens: Token[]) => {
+        if (block) {
+            currentBody().push(block);
+            if (block.kind !== 'container' || block.opensBlock) stack.push(block);
+        } else if (lineTokens.some(t => t.kind === 'lbrace') && lastCodeToken(lineTokens)?.kind !== 'rbrace') {
+            stack.push(null);
+        }
+    };
+
+    // A multi-line style block being read; its lines hold only attributes
+    let openStyle: StyleStatement | null = null;
+
+    /**
+     * Parse the statement on one line (or the body part of a one-line block)
+     */
+    const parseStatement = (cursor: LineCursor, lineTokens: Token[], text: string) => {
+        const first = cursor.peek()!;
+
+        // Arrows after a `{` belong to the body of a one-line block
+        const braceIndex = lineTokens.findIndex(t => t.kind === 'lbrace');
+        const hasArrow = lineTokens.slice(0, braceIndex < 0 ? undefined : braceIndex).some(t => t.kind === 'arrow');
+
+        if (first.kind === 'word' && first.text === 'container') {
+            openBlock(parseContainerLine(cursor), lineTokens);
+            return;
+        }
+
+        if (first.kind === 'word' && first.text === 'for' && !hasArrow) {
+            const loop = parseForLine(cursor);
+            openBlock(loop, lineTokens);
+            if (loop) parseInlineBody(cursor, text);
+            return;
+        }
+
+        if (first.kind === 'word' && first.text === 'component' && !hasArrow) {
+            const component = parseComponentLine(cursor);
+            openBlock(component, lineTokens);
+            if (component) parseInlineBody(cursor, text);
+            return;
+        }
+
+        if (first.kind === 'word' && first.text === 'import' && !hasArrow) {
+            const include = parseImportLine(cursor);
+            if (include) currentBody().push(include);
+            return;
+        }
+
+        if (first.kind === 'word' && first.text === 'use' && !hasArrow) {
+            const use = parseUseLine(cursor);
+            if (use) currentBody().push(use);
+            return;
+        }
+
+        if (first.kind === 'word' && first.text === 'node') {
+            const node = parseNodeLine(cursor);
+            if (node) currentBody().push(node);
+            return;
+        }
+
+        if (first.kind === 'word' && first.text === 'title' && !hasArrow) {
+            const title = parseTitleLine(cursor);
+            if (title) currentBody().push(title);
+            return;
+        }
+
+        if (first.kind === 'word' && first.text === 'layout' && !hasArrow) {
+            const layout = parseLayoutLine(cursor);
+            if (layout) currentBody().push(layout);
+            return;
+        }
+
+        if (first.kind === 'word' && first.text === 'let' && !hasArrow) {
+            const constant = parseLetLine(cursor, text);
+            if (constant) currentBody().push(constant);
+            return;
+        }
+
+        if (first.kind === 'word' && first.text === 'style' && !hasArrow) {
+            const style = parseStyleLine(cursor);
+            if (style) {
+                currentBody().push(style);
+                if (!style.closed) openStyle = style;
+            }
+            return;
+        }
+
+        if (hasArrow) {
+            const connection = parseConnectionLine(cursor);
+            if (connection) currentBody().push(connection);
+            return;
+        }
+
+        const rest = cursor.restText();
+        cursor.failRest(`Unknown syntax: "${rest.substring(0, 30)}${rest.length > 30 ? '...' : ''}"`);
+    };
+
+    /**
+     * Parse what follows the `{` of a loop or component header: a body statement and a
+     * closing `}` (`for i in 1..3 { node worker{i}: "Worker {i}" }`). Without the `}`,
+     * the body goes on over the following lines.
+     */
+    const parseInlineBody = (cursor: LineCursor, text: string) => {
+        const rest = cursor.takeRest();
+        if (rest.length === 0) return;
+        const closing = rest[rest.length - 1].kind === 'rbrace' ? rest.pop()! : undefined;
+        if (rest.length > 0) parseStatement(new LineCursor(rest, cursor.line, diagnostics, file), rest, text);
+        if (!closing) return;
+        closing.role = 'punctuation';
+        // The innermost open block, as with a `}` on its own line
+        const closed = stack.pop();
+        if (closed) closed.closed = true;
+    };
+
+    tokens.forEach((lineTokens, index) => {
+        const lineNum = index + 1;
+        const cursor = new LineCursor(lineTokens, lineNum, diagnostics, file);
+        const first = cursor.peek();
+        if (!first) return;
+
+        if (openStyle) {
+            if (first.kind === 'rbrace') {
+                cursor.take('punctuation');
+                openStyle.closed = true;
+                openStyle = null;
+                if (cursor.peek()) cursor.failRest('Closing brace "}" must be on its own line.');
+            } else {
+                openStyle.attributes.push(...parseAttributes(cursor, false));
+            }
+            return;
+        }
+
+        // Close the innermost container block
+        if (first.kind === 'rbrace') {
+            cursor.take('punctuation');
+            if (stack.length === 0) {
+                cursor.fail(first, 'Unexpected "}": there is no open block to close.');
+                return;
+            }
+            const closed = stack.pop();
+            if (closed) closed.closed = true;
+            if (cursor.peek()) cursor.failRest('Closing brace "}" must be on its own line.');
+            return;
+        }
+
+        parseStatement(cursor, lineTokens, lines[index]);
+    });
+
+    // Report blocks still open at end of input
+    // (assigned inside the callback above, so TypeScript cannot narrow it here)
+    const unclosedStyle = openStyle as StyleStatement | null;
+    if (unclosedStyle) {
+        diagnostics.push({
+            message: `Style "${unclosedStyle.name.name}" is never closed. Add a matching "}".`,
+            range: unclosedStyle.name.range,
+        });
+    }
+    stack.forEach(block => {
+        if (!block) return;
+        const name = block.kind === 'container' ? block.id : block.kind === 'for' ? block.variable : block.name;
+        const subject = block.kind === 'container' ? 'Container' : block.kind === 'for' ? 'Loop over' : 'Component';
+        diagnostics.push({ message: `${subject} "${name.name}" is never closed. Add a matching "}".`, range: name.range });
+    });
+
+    markAnchorTokens(statements, tokens);
+    return { statements, tokens, diagnostics };
+}
+
+/**
+ * Walks the tokens of one line, ignoring a trailing comment
+ */
+class LineCursor {
+    private index = 0;
+    private readonly code: Token[];
+
+    constructor(tokens: Token[], readonly line: number, private readonly diagnostics: SyntaxDiagnostic[], private readonly file?: string) {
+        tokens.filter(t => t.kind === 'comment').forEach(t => { t.role = 'comment'; });
+        this.code = tokens.filter(t => t.kind !== 'comment');
+    }
+
+    peek(offset = 0): Token | undefined {
+        return this.code[this.index + offset];
+    }
+
+    take(role: TokenRole): Token {
+        const token = this.code[this.index++];
+        token.role = role;
+        return token;
+    }
+
+    /** Range from the start of the line's code to the last consumed token */
+    rangeSoFar(): SourceRange {
+        return this.span(this.code[0].start, this.code[this.index - 1].end);
+    }
+
+    range(token: Token): SourceRange {
+        return this.span(token.start, token.end);
+    }
+
+    span(start: number, end: number): SourceRange {
+        return { line: this.line, start, end, ...(this.file && { file: this.file }) };
+    }
+
+    /** Consume the remaining tokens */
+    takeRest(): Token[] {
+        const rest = this.code.slice(this.index);
+        this.index = this.code.length;
+        return rest;
+    }
+
+    restText(): string {
+        const rest = this.code.slice(this.index);
+        if (rest.length === 0) return '';
+        return rest.map(t => t.text).join(' ');
+    }
+
+    /** Report a problem at a token (or just past the end of the line when it is missing) */
+    fail(token: Token | undefined, message: string): null {
+        if (token) token.role = 'invalid';
+        const last = this.code[this.code.length - 1];
+        const range = token
+            ? this.range(token)
+            : this.span(last ? last.end : 0, (last ? last.end : 0) + 1);
+        this.diagnostics.push({ message, range });
+        return null;
+    }
+
+    /** Report everything from the current token to the end of the line */
+    failRest(message: string): null {
+        const rest = this.code.slice(this.index);
+        rest.forEach(t => { t.role = 'invalid'; });
+        this.index = this.code.length;
+        if (rest.length === 0) return this.fail(undefined, message);
+        this.diagnostics.push({ message, range: this.span(rest[0].start, rest[rest.length - 1].end) });
+        return null;
+    }
+
+    atEnd(): boolean {
+        return this.index >= this.code.length;
+    }
+}
+
+function lastCodeToken(tokens: Token[]): Token | undefined {
+    return [...tokens].reverse().find(t => t.kind !== 'comment');
+}
+
+function unescapeString(text: string): string {
+    return text.replace(/\\(["\\])/g, '$1');
+}
+
+function stringValue(token: Token): string {
+    return unescapeString(token.text.slice(1, token.terminated ? -1 : undefined));
+}
+
+/**
+ * Read `<id>: "<label>"` shared by node and container headers
+ */
+function parseDeclarationHead(cursor: LineCursor, syntax: string): { id: Identifier; label: StringLiteral } | null {
+    const idToken = cursor.peek();
+    if (idToken?.kind !== 'word') return cursor.fail(idToken, syntax);
+    cursor.take('declaration');
+
+    if (cursor.peek()?.kind !== 'colon') return cursor.fail(cursor.peek(), syntax);
+    cursor.take('punctuation');
+
+    const labelToken = cursor.peek();
+    if (labelToken?.kind !== 'string') return cursor.fail(labelToken, syntax);
+    cursor.take('label');
+    if (!labelToken.terminated) return cursor.fail(labelToken, 'Unterminated string in label.');
+    if (labelToken.text.length <= 2) return cursor.fail(labelToken, syntax);
+
+    return {
+        id: { name: idToken.text, range: cursor.range(idToken) },
+        label: { value: stringValue(labelToken), range: cursor.range(labelToken) },
+    };
+}
+
+/**
+ * Read `key=value key="quoted value"` up to the end of the line (or a trailing `{` / `}` when allowed).
+ * A bad attribute is reported and skipped; the remaining ones are still read.
+ */
+function parseAttributes(cursor: LineCursor, allowBlock: boolean, allowClose = false): AttributeNode[] {
+    const attributes: AttributeNode[] = [];
+
+    while (!cursor.atEnd()) {
+        const keyToken = cursor.peek()!;
+        if (allowBlock && keyToken.kind === 'lbrace' && cursor.peek(1) === undefined) break;
+        if (allowClose && keyToken.kind === 'rbrace' && cursor.peek(1) === undefined) break;
+
+        if (keyToken.kind !== 'word' || !/^[A-Za-z]/.test(keyToken.text) || cursor.peek(1)?.kind !== 'equals') {
+            cursor.take('invalid');
+            cursor.fail(keyToken, `Expected <attribute>=<value> but found "${keyToken.text}".`);
+            continue;
+        }
+        cursor.take('attributeKey');
+        const equals = cursor.take('punctuation');
+
+        const valueToken = cursor.peek();
+        const adjacent = valueToken && valueToken.start === equals.end;
+        if (!valueToken || !adjacent || (valueToken.kind !== 'value' && valueToken.kind !== 'string')) {
+            cursor.fail(keyToken, `Missing value for attribute "${keyToken.text}".`);
+            continue;
+        }
+        cursor.take('attributeValue');
+        if (valueToken.kind === 'string' && !valueToken.terminated) {
+            cursor.fail(valueToken, `Unterminated string in attribute "${keyToken.text}".`);
+            continue;
+        }
+
+        const value = valueToken.kind === 'string' ? stringValue(valueToken) : valueToken.text;
+        const references = anchorReferences(cursor, keyToken.text, value, valueToken.start + (valueToken.kind === 'string' ? 1 : 0));
+        attributes.push({
+            key: keyToken.text,
+            value,
+            quoted: valueToken.kind === 'string',
+            range: cursor.span(keyToken.start, valueToken.end),
+            keyRange: cursor.range(keyToken),
+            valueRange: cursor.range(valueToken),
+            ...(references.length > 0 && { references }),
+        });
+    }
+
+    return attributes;
+}
+
+/**
+ * The ids a placement attribute names, starting at column `offset`: the whole value of
+ * right-of= and the like, the part after each `<edge>-of:` of align=
+ */
+function anchorReferences(cursor: LineCursor, key: string, value: string, offset: number): Identifier[] {
+    const isId = (text: string) => text.match(ID_PATTERN)?.[0] === text;
+    const normalized = key.replace(/-/g, '').toLowerCase();
+    if (ANCHOR_KEYS.includes(normalized)) {
+        return isId(value) ? [{ name: value, range: cursor.span(offset, offset + value.length) }] : [];
+    }
+    if (normalized !== 'align') return [];
+
+    const references: Identifier[] = [];
+    let start = offset;
+    value.split(',').forEach(part => {
+        const separator = part.indexOf('-of:');
+        const id = separator < 0 ? '' : part.substring(separator + 4);
+        if (isId(id)) references.push({ name: id, range: cursor.span(start + separator + 4, start + part.length) });
+        start += part.length + 1;
+    });
+    return references;
+}
+
+/**
+ * Give the ids in placement attributes the reference role, like connection endpoints.
+ * Their value tokens are split so each id is a token of its own (align=center-of:api).
+ */
+function markAnchorTokens(statements: Statement[], tokens: Token[][]) {
+    statements.forEach(statement => {
+        if ('attributes' in statement) {
+            statement.attributes.forEach(({ references, valueRange }) => {
+                if (!references) return;
+                const lineTokens = tokens[valueRange.line - 1];
+                const index = lineTokens.findIndex(t => t.start === valueRange.start);
+                const value = lineTokens[index];
+                const part = (kind: TokenKind, start: number, end: number, role: TokenRole): Token =>
+                    ({ kind, text: value.text.substring(start - value.start, end - value.start), start, end, role });
+
+                const parts: Token[] = [];
+                let position = value.start;
+                references.forEach(({ range }) => {
+                    if (range.start > position) parts.push(part(value.kind, position, range.start, 'attributeValue'));
+                    parts.push(part('word', range.start, range.end, 'reference'));
+                    position = range.end;
+                });
+                if (position < value.end) parts.push(part(value.kind, position, value.end, 'attributeValue'));
+                lineTokens.splice(index, 1, ...parts);
+            });
+        }
+        if ('body' in statement) markAnchorTokens(statement.body, tokens);
+    });
+}
+
+/**
+ * Format: node <id>: "<label>" [<attribute>=<value> ...]
+ */
+function parseNodeLine(cursor: LineCursor): NodeStatement | null {
+    cursor.take('keyword');
+    const head = parseDeclarationHead(cursor, NODE_SYNTAX);
+    if (!head) return null;
+
+    const attributes = parseAttributes(cursor, false);
+    return { kind: 'node', ...head, attributes, range: cursor.rangeSoFar() };
+}
+
+/**
+ * Format: container <id>: "<label>" [<attribute>=<value> ...] [{]
+ */
+function parseContainerLine(cursor: LineCursor): ContainerStatement | null {
+    cursor.take('keyword');
+    const head = parseDeclarationHead(cursor, CONTAINER_SYNTAX);
+    if (!head) return null;
+
+    const attributes = parseAttributes(cursor, true);
+    const opensBlock = cursor.peek()?.kind === 'lbrace';
+    if (opensBlock) cursor.take('punctuation');
+
+    return { kind: 'container', ...head, attributes, opensBlock, closed: false, body: [], range: cursor.rangeSoFar() };
+}
+
+/**
+ * Format: <source> -> <target>[: "<label>"] [<attribute>=<value> ...]  (or <-> for bidirectional)
+ */
+function parseConnectionLine(cursor: LineCursor): ConnectionStatement | null {
+    const sourceToken = cursor.peek();
+    if (sourceToken?.kind !== 'word') return cursor.failRest(CONNECTION_SYNTAX);
+    cursor.take('reference');
+
+    const arrowToken = cursor.peek();
+    if (arrowToken?.kind !== 'arrow') return cursor.fail(arrowToken, CONNECTION_SYNTAX);
+    cursor.take('operator');
+
+    const targetToken = cursor.peek();
+    if (targetToken?.kind !== 'word') return cursor.fail(targetToken, CONNECTION_SYNTAX);
+    cursor.take('reference');
+
+    let label: StringLiteral | undefined;
+    if (cursor.peek()?.kind === 'colon') {
+        cursor.take('punctuation');
+        const labelToken = cursor.peek();
+        if (labelToken?.kind !== 'string') return cursor.fail(labelToken, CONNECTION_SYNTAX);
+        cursor.take('label');
+        if (!labelToken.terminated) return cursor.fail(labelToken, 'Unterminated string in label.');
+        if (labelToken.text.length > 2) label = { value: stringValue(labelToken), range: cursor.range(labelToken) };
+    }
+
+    const attributes = parseAttributes(cursor, false);
+    return {
+        kind: 'connection',
+        source: { name: sourceToken.text, range: cursor.range(sourceToken) },
+        target: { name: targetToken.text, range: cursor.range(targetToken) },
+        bidirectional: arrowToken.text === '<->',
+        ...(label && { label }),
+        attributes,
+        range: cursor.rangeSoFar(),
+    };
+}
+
+/**
+ * Format: title "<diagram title>"
+ */
+function parseTitleLine(cursor: LineCursor): TitleStatement | null {
+    cursor.take('keyword');
+    const titleToken = cursor.peek();
+    if (titleToken?.kind !== 'string' || !titleToken.terminated) return cursor.fail(titleToken, TITLE_SYNTAX);
+    cursor.take('label');
+    if (!cursor.atEnd()) return cursor.failRest(TITLE_SYNTAX);
+
+    return { kind: 'title', title: { value: stringValue(titleToken), range: cursor.range(titleToken) }, range: cursor.rangeSoFar() };
+}
+
+/**
+ * Format: layout <strategy>
+ */
+function parseLayoutLine(cursor: LineCursor): LayoutStatement | null {
+    cursor.take('keyword');
+    const strategyToken = cursor.peek();
+    if (strategyToken?.kind !== 'word') return cursor.fail(strategyToken, 'Invalid layout syntax. Expected: layout <strategy>');
+    cursor.take('attributeValue');
+    if (!cursor.atEnd()) return cursor.failRest('Invalid layout syntax. Expected: layout <strategy>');
+
+    return { kind: 'layout', strategy: { name: strategyToken.text, range: cursor.range(strategyToken) }, range: cursor.rangeSoFar() };
+}
+
+/**
+ * Format: let <name> = <value>  (the value runs to the end of the line, or is one quoted string)
+ */
+function parseLetLine(cursor: LineCursor, text: string): LetStatement | null {
+    const syntax = 'Invalid constant syntax. Expected: let <name> = <value>';
+    cursor.take('keyword');
+    const nameToken = cursor.peek();
+    if (nameToken?.kind !== 'word') return cursor.fail(nameToken, syntax);
+    cursor.take('definition');
+    if (cursor.peek()?.kind !== 'equals') return cursor.fail(cursor.peek(), syntax);
+    cursor.take('punctuation');
+
+    const valueTokens: Token[] = [];
+    while (!cursor.atEnd()) valueTokens.push(cursor.take('attributeValue'));
+    if (valueTokens.length === 0) return cursor.fail(undefined, `Missing value for constant "${nameToken.text}".`);
+
+    const first = valueTokens[0];
+    const last = valueTokens[valueTokens.length - 1];
+    const quoted = valueTokens.length === 1 && first.kind === 'string';
+    if (quoted && !first.terminated) return cursor.fail(first, `Unterminated string in constant "${nameToken.text}".`);
+
+    return {
+        kind: 'let',
+        name: { name: nameToken.text, range: cursor.range(nameToken) },
+        value: quoted ? stringValue(first) : text.substring(first.start, last.end),
+        quoted,
+        valueRange: cursor.span(first.start, last.end),
+        range: cursor.rangeSoFar(),
+    };
+}
+
+/**
+ * Format: style <name> { <attribute>=<value> ... }  (on one line, or with the attributes on the following lines)
+ */
+function parseStyleLine(cursor: LineCursor): StyleStatement | null {
+    const syntax = 'Invalid style syntax. Expected: style <name> { <attribute>=<value> ... }';
+    cursor.take('keyword');
+    const nameToken = cursor.peek();
+    if (nameToken?.kind !== 'word') return cursor.fail(nameToken, syntax);
+    cursor.take('definition');
+    if (cursor.peek()?.kind !== 'lbrace') return cursor.fail(cursor.peek(), syntax);
+    cursor.take('punctuation');
+
+    const attributes = parseAttributes(cursor, false, true);
+    const closed = cursor.peek()?.kind === 'rbrace';
+    if (closed) cursor.take('punctuation');
+
+    return { kind: 'style', name: { name: nameToken.text, range: cursor.range(nameToken) }, attributes, closed, range: cursor.rangeSoFar() };
+}
+
+// Loop variables and component parameters are used inside placeholders, where `-` means minus
+const PARAMETER_PATTERN = /^[A-Za-z_]\w*$/;
+
+/**
+ * Read a loop variable or component parameter name
+ */
+function parseParameter(cursor: LineCursor, syntax: string): Identifier | null {
+    const token = cursor.peek();
+    if (token?.kind !== 'word') return cursor.fail(token, syntax);
+    cursor.take('definition');
+    if (!PARAMETER_PATTERN.test(token.text)) {
+        return cursor.fail(token, `Invalid name "${token.text}": use letters, digits and underscores, starting with a letter.`);
+    }
+    return { name: token.text, range: cursor.range(token) };
+}
+
+/**
+ * Format: for <name> in <from>..<to> {  (the body may follow on the same line, see parseInlineBody)
+ */
+function parseForLine(cursor: LineCursor): ForStatement | null {
+    const syntax = 'Invalid loop syntax. Expected: for <name> in <from>..<to> {';
+    cursor.take('keyword');
+    const variable = parseParameter(cursor, syntax);
+    if (!variable) return null;
+
+    const inToken = cursor.peek();
+    if (inToken?.kind !== 'word' || inToken.text !== 'in') return cursor.fail(inToken, syntax);
+    cursor.take('keyword');
+
+    const fromToken = cursor.peek();
+    if (fromToken?.kind !== 'word') return cursor.fail(fromToken, syntax);
+    cursor.take('attributeValue');
+    if (cursor.peek()?.kind !== 'range') return cursor.fail(cursor.peek(), syntax);
+    cursor.take('operator');
+    const toToken = cursor.peek();
+    if (toToken?.kind !== 'word') return cursor.fail(toToken, syntax);
+    cursor.take('attributeValue');
+
+    if (cursor.peek()?.kind !== 'lbrace') return cursor.fail(cursor.peek(), syntax);
+    cursor.take('punctuation');
+
+    return {
+        kind: 'for',
+        variable,
+        from: { name: fromToken.text, range: cursor.range(fromToken) },
+        to: { name: toToken.text, range: cursor.range(toToken) },
+        closed: false,
+        body: [],
+        range: cursor.rangeSoFar(),
+    };
+}
+
+/**
+ * Format: component <name>(<parameter>, ...) {  (the body may follow on the same line)
+ */
+function parseComponentLine(cursor: LineCursor): ComponentStatement | null {
+    const syntax = 'Invalid component syntax. Expected: component <name>(<parameter>, ...) {';
+    cursor.take('keyword');
+    const nameToken = cursor.peek();
+    if (nameToken?.kind !== 'word') return cursor.fail(nameToken, syntax);
+    cursor.take('definition');
+    if (cursor.peek()?.kind !== 'lparen') return cursor.fail(cursor.peek(), syntax);
+    cursor.take('punctuation');
+
+    const parameters: Identifier[] = [];
+    while (cursor.peek()?.kind !== 'rparen') {
+        if (parameters.length > 0) {
+            if (cursor.peek()?.kind !== 'comma') return cursor.fail(cursor.peek(), syntax);
+            cursor.take('punctuation');
+        }
+        const parameter = parseParameter(cursor, syntax);
+        if (!parameter) return null;
+        if (parameters.some(p => p.name === parameter.name)) {
+            return cursor.fail(cursor.peek(-1), `Duplicate parameter "${parameter.name}".`);
+        }
+        parameters.push(parameter);
+    }
+    cursor.take('punctuation');
+
+    if (cursor.peek()?.kind !== 'lbrace') return cursor.fail(cursor.peek(), syntax);
+    cursor.take('punctuation');
+
+    return {
+        kind: 'component',
+        name: { name: nameToken.text, range: cursor.range(nameToken) },
+        parameters,
+        closed: false,
+        body: [],
+        range: cursor.rangeSoFar(),
+    };
+}
+
+/**
+ * Format: use <component>(<argument>, ...)  (arguments are words, numbers or quoted strings)
+ */
+function parseUseLine(cursor: LineCursor): UseStatement | null {
+    const syntax = 'Invalid component use. Expected: use <component>(<argument>, ...)';
+    cursor.take('keyword');
+    const nameToken = cursor.peek();
+    if (nameToken?.kind !== 'word') return cursor.fail(nameToken, syntax);
+    cursor.take('definition');
+    if (cursor.peek()?.kind !== 'lparen') return cursor.fail(cursor.peek(), syntax);
+    cursor.take('punctuation');
+
+    const args: Argument[] = [];
+    while (cursor.peek()?.kind !== 'rparen') {
+        if (args.length > 0) {
+            if (cursor.peek()?.kind !== 'comma') return cursor.fail(cursor.peek(), syntax);
+            cursor.take('punctuation');
+        }
+        const token = cursor.peek();
+        if (token?.kind !== 'word' && token?.kind !== 'string') return cursor.fail(token, syntax);
+        cursor.take('attributeValue');
+        if (token.kind === 'string' && !token.terminated) return cursor.fail(token, 'Unterminated string in argument.');
+        args.push({
+            value: token.kind === 'string' ? stringValue(token) : token.text,
+            quoted: token.kind === 'string',
+            range: cursor.range(token),
+        });
+    }
+    cursor.take('punctuation');
+    if (!cursor.atEnd()) return cursor.failRest(syntax);
+
+    return {
+        kind: 'use',
+        component: { name: nameToken.text, range: cursor.range(nameToken) },
+        args,
+        range: cursor.rangeSoFar(),
+    };
+}
+
+/**
+ * Format: import "<path>" [as <namespace>]
+ */
+function parseImportLine(cursor: LineCursor): ImportStatement | null {
+    const syntax = 'Invalid import syntax. Expected: import "<path>" [as <namespace>]';
+    cursor.take('keyword');
+    const pathToken = cursor.peek();
+    if (pathToken?.kind !== 'string') return cursor.fail(pathToken, syntax);
+    cursor.take('label');
+    if (!pathToken.terminated) return cursor.fail(pathToken, 'Unterminated string in import path.');
+    if (pathToken.text.length <= 2) return cursor.fail(pathToken, syntax);
+
+    let alias: Identifier | undefined;
+    if (!cursor.atEnd()) {
+        const asToken = cursor.peek();
+        if (asToken?.kind !== 'word' || asToken.text !== 'as') return cursor.failRest(syntax);
+        cursor.take('keyword');
+        const parsed = parseParameter(cursor, syntax);
+        if (!parsed) return null;
+        alias = parsed;
+        if (!cursor.atEnd()) return cursor.failRest(syntax);
+    }
+
+    return {
+        kind: 'import',
+        path: { value: stringValue(pathToken), range: cursor.range(pathToken) },
+        ...(alias && { alias }),
+        range: cursor.rangeSoFar(),
+    };
+}
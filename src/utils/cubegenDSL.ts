@@ -3,20 +3,76 @@
  * Parses declarative code syntax into DiagramData for DiagramCanvas
  * 
  * Syntax:
- *   node <id>: "<label>" icon=<IconType> x=<number> y=<number>
- *   <source> -> <target>: "<label>"
- *   <source> <-> <target>: "<label>"
- *   container <id>: "<label>" type=<type> x=<number> y=<number> width=<number> height=<number> { ... }
+ *   node <id>: "<label>" [icon=<IconType>] [x=<number> y=<number>] [<attribute>=<value> ...]
+ *   layout <strategy>
+ *   <source> -> <target>: "<label>" [<attribute>=<value> ...]
+ *   <source> <-> <target>: "<label>" [<attribute>=<value> ...]
+ *   container <id>: "<label>" type=<type> x=<number> y=<number> width=<number> height=<number> [<attribute>=<value> ...] { ... }
+ *   title "<diagram title>"
+ *   let <name> = <value>                          (use as <attribute>=$<name>)
+ *   style <name> { <attribute>=<value> ... }      (apply with class=<name>[,<name>...])
+ *   container ... defaultClass=<name> { ... }     (styles every node inside the container)
+ *   for <name> in <from>..<to> { ... }            (repeats the body; use {name} in ids, labels and values)
+ *   component <name>(<parameter>, ...) { ... }    (a reusable group of statements, see cubegenMacros.ts)
+ *   use <component>(<argument>, ...)
+ *   import "<path>" [as <namespace>]              (ids from the file become <namespace>.<id>)
+ *
+ * Instead of x/y, nodes and containers can be placed relative to others (see cubegenPlacement.ts):
+ *   right-of=<id> left-of=<id> below=<id> above=<id> [gap=<number>]
+ *   align=center-of:<id>[,middle-of:<id>]          (edges: center, middle, left, right, top, bottom)
+ *   inside=<container> [at=top-left|top|...|bottom-right]
+ *
+ * Attribute precedence, lowest first: container defaultClass, class (left to right), the line itself.
+ *
+ * Ids are word characters, optionally joined by single dashes (e.g. api-gateway).
+ *
+ * Containers may be nested; every `{` must be closed by a `}` on its own line. Loops and
+ * components may also hold a one-line body: for i in 1..3 { node worker{i}: "Worker {i}" }
+ *
+ * After parsing, ids are cross-checked: duplicates and connections to undeclared nodes are
+ * errors, self-loops and nodes outside their container's bounds are reported as warnings.
+ *
+ * Parsing recovers from errors (see cubegenAST.ts): statements with errors are left out and
+ * reported with their column range, and the rest of the diagram is still built.
  */
 
-import { DiagramData, ArchNode, Link, Container, IconType } from '../types';
+import { DiagramData, ArchNode, Link, Container, IconType, NodeShape } from '../types';
+import { LayoutStrategy } from './layoutDecisionEngine';
+import { applyAutoLayout } from './autoLayout';
+import {
+    parseCubeGenAST,
+    describeLocation,
+    AttributeNode,
+    ConnectionStatement,
+    ContainerStatement,
+    Identifier,
+    LetStatement,
+    NodeStatement,
+    SourceRange,
+    Statement,
+    StyleStatement,
+} from './cubegenAST';
+import { expandMacros, ImportResolver } from './cubegenMacros';
+import {
+    checkPlacements,
+    resolvePlacements,
+    boxOf,
+    positionOf,
+    ALIGN_EDGES,
+    INSIDE_POSITIONS,
+    AlignEdge,
+    Box,
+    InsidePosition,
+    PlacedItem,
+    Placement,
+} from './cubegenPlacement';
 import { customAlphabet } from 'nanoid';
 
 const nanoid = customAlphabet('1234567890abcdef', 10);
 
 // Default node dimensions
-const DEFAULT_NODE_WIDTH = 120;
-const DEFAULT_NODE_HEIGHT = 100;
+export const DEFAULT_NODE_WIDTH = 120;
+export const DEFAULT_NODE_HEIGHT = 100;
 
 // Icon type mapping (lowercase to IconType enum)
 const ICON_MAP: Record<string, IconType> = {};
@@ -25,27 +81,145 @@ Object.entries(IconType).forEach(([key, value]) => {
     ICON_MAP[value.toLowerCase()] = value as IconType;
 });
 
+const LAYOUT_STRATEGIES: LayoutStrategy[] = ['tiered', 'layered', 'hub-spoke', 'grid', 'clustered', 'pipeline', 'swimlane', 'radial'];
+
+const NODE_SHAPES: NodeShape[] = [
+    'rectangle', 'ellipse', 'diamond', 'rounded-rectangle', 'circle', 'triangle', 'hexagon', 'cylinder', 'cloud', 'document',
+    'folder', 'actor', 'component', 'storage', 'queue', 'pentagon', 'octagon', 'parallelogram', 'step', 'tape',
+];
+const BORDER_STYLES = ['solid', 'dotted', 'dashed', 'double', 'none'];
+const BORDER_WIDTHS = ['thin', 'medium', 'thick'];
+const CONTAINER_TYPES: Container['type'][] = [
+    'region', 'availability-zone', 'tier', 'vpc', 'subnet', 'security-group', 'group', 'rectangle', 'circle', 'triangle',
+];
+
+const DEFAULT_TITLE = 'CubeGen Diagram';
+
+/**
+ * Value rules for `key=value` attributes
+ */
+export type AttributeSpec =
+    | { kind: 'number'; min?: number; max?: number; integer?: boolean }
+    | { kind: 'enum'; values: readonly string[] }
+    | { kind: 'color' }
+    | { kind: 'string'; pattern?: RegExp; hint?: string }
+    | { kind: 'boolean' }
+    | { kind: 'icon' };
+
+const ANCHOR_ID = /^\w+(?:[-.]\w+)*$/;
+const ALIGN_VALUE = new RegExp(`^(${ALIGN_EDGES.join('|')})-of:[\\w.-]+(,(${ALIGN_EDGES.join('|')})-of:[\\w.-]+)*$`);
+
+// Relative placement, resolved after parsing (see cubegenPlacement.ts)
+const PLACEMENT_ATTRIBUTES: Record<string, AttributeSpec> = {
+    rightOf: { kind: 'string', pattern: ANCHOR_ID, hint: 'a node or container id' },
+    leftOf: { kind: 'string', pattern: ANCHOR_ID, hint: 'a node or container id' },
+    below: { kind: 'string', pattern: ANCHOR_ID, hint: 'a node or container id' },
+    above: { kind: 'string', pattern: ANCHOR_ID, hint: 'a node or container id' },
+    align: { kind: 'string', pattern: ALIGN_VALUE, hint: `<edge>-of:<id>, comma-separated (edges: ${ALIGN_EDGES.join(', ')})` },
+    inside: { kind: 'string', pattern: ANCHOR_ID, hint: 'a container id' },
+    at: { kind: 'enum', values: INSIDE_POSITIONS },
+    gap: { kind: 'number' },
+};
+const PLACEMENT_KEYS = Object.keys(PLACEMENT_ATTRIBUTES);
+
+// Everything the PropertiesSidebar can set on a node, plus placement
+const NODE_ATTRIBUTES: Record<string, AttributeSpec> = {
+    icon: { kind: 'icon' },
+    x: { kind: 'number' },
+    y: { kind: 'number' },
+    width: { kind: 'number', min: 1 },
+    height: { kind: 'number', min: 1 },
+    ...PLACEMENT_ATTRIBUTES,
+    shape: { kind: 'enum', values: NODE_SHAPES },
+    color: { kind: 'color' },
+    borderStyle: { kind: 'enum', values: BORDER_STYLES },
+    borderWidth: { kind: 'enum', values: BORDER_WIDTHS },
+    borderColor: { kind: 'color' },
+    shapeOpacity: { kind: 'number', min: 0, max: 100 },
+    description: { kind: 'string' },
+    locked: { kind: 'boolean' },
+    customIcon: { kind: 'string' },
+    customIconSize: { kind: 'number', min: 10, max: 100, integer: true },
+    animationOrder: { kind: 'number', min: 0, integer: true },
+};
+
+// Geometry is required on containers; the rest mirrors the PropertiesSidebar
+const CONTAINER_ATTRIBUTES: Record<string, AttributeSpec> = {
+    type: { kind: 'enum', values: CONTAINER_TYPES },
+    x: { kind: 'number' },
+    y: { kind: 'number' },
+    width: { kind: 'number', min: 1 },
+    height: { kind: 'number', min: 1 },
+    ...PLACEMENT_ATTRIBUTES,
+    color: { kind: 'color' },
+    borderStyle: { kind: 'enum', values: BORDER_STYLES },
+    borderWidth: { kind: 'enum', values: BORDER_WIDTHS },
+    borderColor: { kind: 'color' },
+    description: { kind: 'string' },
+    orientation: { kind: 'enum', values: ['horizontal', 'vertical'] },
+};
+const REQUIRED_CONTAINER_ATTRIBUTES = ['type', 'x', 'y', 'width', 'height'];
+
+// Everything the LinkProperties panel can set on a connection
+const LINK_ATTRIBUTES: Record<string, AttributeSpec> = {
+    style: { kind: 'enum', values: ['solid', 'dotted', 'dashed', 'double'] },
+    color: { kind: 'color' },
+    thickness: { kind: 'enum', values: BORDER_WIDTHS },
+    strokeWidth: { kind: 'number', min: 1, max: 10 },
+    lineStyle: { kind: 'enum', values: ['straight', 'curved', 'elbow', 'orthogonal'] },
+    curvature: { kind: 'number', min: 0, max: 100 },
+    offsetDistance: { kind: 'number', min: 0, max: 50 },
+    angle: { kind: 'number', min: 0, max: 360 },
+    dashPattern: { kind: 'string', pattern: /^\d+(\.\d+)?(\s*,\s*\d+(\.\d+)?)*$/, hint: 'comma-separated lengths like 5,5' },
+    arrowheadStyle: { kind: 'enum', values: ['default', 'filled', 'outlined', 'none'] },
+    arrowheadSize: { kind: 'number', min: 0.5, max: 3 },
+    arrowheadColor: { kind: 'color' },
+    startMarker: { kind: 'boolean' },
+    endMarker: { kind: 'boolean' },
+    animated: { kind: 'boolean' },
+};
+
 export interface ParseResult {
     success: boolean;
+    // Present whenever something valid was parsed, even alongside errors
     data?: DiagramData;
     errors: ParseError[];
+    // Problems that do not stop the diagram from rendering
+    warnings: ParseError[];
 }
 
 export interface ParseError {
     line: number;
     message: string;
     code: string;
+    // 0-based column span within the line (end exclusive), when the problem has a precise location
+    column?: number;
+    endColumn?: number;
+    // Path of the imported file the problem is in; absent for the code being parsed
+    file?: string;
+}
+
+export interface ParseOptions {
+    // Path of the code being parsed, when it is saved to disk; imports are relative to it
+    file?: string;
+    // Reads imported files; without it, import statements are reported as errors
+    resolveImport?: ImportResolver;
 }
 
 interface ParsedNode {
     id: string;
     label: string;
     icon: IconType;
-    x: number;
-    y: number;
+    // Omitted coordinates are filled in by the auto-layout pass
+    x?: number;
+    y?: number;
     width?: number;
     height?: number;
     containerId?: string;
+    placement?: Placement;
+    // Remaining ArchNode styling fields (shape, color, border*, ...)
+    style: Partial<ArchNode>;
+    range: SourceRange;
 }
 
 interface ParsedConnection {
@@ -53,278 +227,843 @@ interface ParsedConnection {
     targetId: string;
     label?: string;
     bidirectional: boolean;
+    // Remaining Link styling and routing fields
+    style: Partial<Link>;
+    range: SourceRange;
+    sourceRange: SourceRange;
+    targetRange: SourceRange;
 }
 
 interface ParsedContainer {
     id: string;
     label: string;
     type: Container['type'];
-    x: number;
-    y: number;
+    // Omitted when the container is placed relative to others
+    x?: number;
+    y?: number;
     width: number;
     height: number;
+    placement?: Placement;
     childNodeIds: string[];
+    childContainerIds: string[];
+    parentContainerId?: string;
+    nestingLevel: number;
+    // Remaining Container styling fields
+    style: Partial<Container>;
+    range: SourceRange;
+}
+
+interface Analysis {
+    title: string;
+    layoutStrategy?: LayoutStrategy;
+    nodes: ParsedNode[];
+    connections: ParsedConnection[];
+    containers: ParsedContainer[];
+    errors: ParseError[];
+    warnings: ParseError[];
 }
 
 /**
  * Main parser function
  */
-export function parseCubeGenDSL(code: string): ParseResult {
-    const errors: ParseError[] = [];
+export function parseCubeGenDSL(code: string, options: ParseOptions = {}): ParseResult {
+    const { title, layoutStrategy, nodes, connections, containers, errors, warnings } = analyzeCubeGenDSL(code, options);
+
+    // Nothing usable: report the errors only
+    if (errors.length > 0 && nodes.length === 0 && containers.length === 0) {
+        return { success: false, errors, warnings };
+    }
+
+    let diagramNodes: ArchNode[] = nodes.map(n => ({
+        ...n.style,
+        id: n.id,
+        label: n.label,
+        type: n.icon,
+        x: n.x ?? 0,
+        y: n.y ?? 0,
+        width: n.width || DEFAULT_NODE_WIDTH,
+        height: n.height || DEFAULT_NODE_HEIGHT,
+    }));
+
+    const diagramLinks: Link[] = connections.map(c => ({
+        ...c.style,
+        id: `link-${nanoid()}`,
+        source: c.sourceId,
+        target: c.targetId,
+        label: c.label,
+        bidirectional: c.bidirectional,
+    }));
+
+    let diagramContainers: Container[] = containers.map(c => ({
+        ...c.style,
+        id: c.id,
+        label: c.label,
+        type: c.type,
+        x: c.x ?? 0,
+        y: c.y ?? 0,
+        width: c.width,
+        height: c.height,
+        childNodeIds: c.childNodeIds,
+        ...(c.childContainerIds.length > 0 && { childContainerIds: c.childContainerIds }),
+        ...(c.parentContainerId && { parentContainerId: c.parentContainerId }),
+        nestingLevel: c.nestingLevel,
+    }));
+
+    // Relative placements whose anchors already have positions
+    const items = placedItems(nodes, containers);
+    const placed = resolvePlacements(items, fixedBoxes(items));
+    diagramNodes = moveToBoxes(diagramNodes, placed, 'node');
+    diagramContainers = moveToBoxes(diagramContainers, placed, 'container');
+
+    // Hand nodes without coordinates to the layout engine; nodes placed relative to them wait for it
+    const unplacedIds = new Set(nodes.filter(n => n.x === undefined && !n.placement).map(n => n.id));
+    const waiting = new Set(nodes.filter(n => n.placement && !placed.has(n.id)).map(n => n.id));
+    if (unplacedIds.size > 0) {
+        const laidOut = applyAutoLayout(
+            diagramNodes.filter(n => !waiting.has(n.id)),
+            diagramLinks.filter(l => !waiting.has(l.source as string) && !waiting.has(l.target as string)),
+            diagramContainers,
+            { unplacedIds, strategy: layoutStrategy }
+        );
+        const positions = new Map(laidOut.nodes.map(n => [n.id, n]));
+        diagramNodes = diagramNodes.map(n => positions.get(n.id) ?? n);
+        diagramContainers = laidOut.containers;
+    }
+    if (waiting.size > 0) {
+        const current = new Map<string, Box>([
+            ...diagramNodes.filter(n => !waiting.has(n.id)).map(n => [n.id, boxOf({ ...n, kind: 'node' })] as const),
+            ...diagramContainers.map(c => [c.id, boxOf({ ...c, kind: 'container' })] as const),
+        ]);
+        diagramNodes = moveToBoxes(diagramNodes, resolvePlacements(items, current), 'node');
+    }
+
+    return {
+        success: errors.length === 0,
+        data: {
+            title,
+            architectureType: 'code-to-diagram',
+            nodes: diagramNodes,
+            links: diagramLinks,
+            containers: diagramContainers.length > 0 ? diagramContainers : undefined,
+        },
+        errors,
+        warnings,
+    };
+}
+
+/**
+ * Report errors and warnings without building the diagram (cheap enough to run on every edit)
+ */
+export function checkCubeGenDSL(code: string, options: ParseOptions = {}): { errors: ParseError[]; warnings: ParseError[] } {
+    const { errors, warnings } = analyzeCubeGenDSL(code, options);
+    return { errors, warnings };
+}
+
+/**
+ * Resolve the syntax tree into nodes, containers and connections. Statements with errors are
+ * reported and left out; everything else is kept so the valid part of the diagram still renders.
+ */
+function analyzeCubeGenDSL(code: string, options: ParseOptions): Analysis {
+    const document = parseCubeGenAST(code);
+    // Lines of the parsed code and of each imported file, for the `code` of errors
+    const sources: SourceLines = new Map([[undefined, code.split('\n')]]);
+    const errors: ParseError[] = document.diagnostics.map(d => errorAt(d.range, d.message, sources));
+    const report = (range: SourceRange, message: string) => errors.push(errorAt(range, message, sources));
+
+    const { resolveImport } = options;
+    const readImport: ImportResolver | undefined = resolveImport && ((spec, fromFile) => {
+        const resolved = resolveImport(spec, fromFile);
+        if ('code' in resolved) sources.set(resolved.path, resolved.code.split('\n'));
+        return resolved;
+    });
+
+    // Imports, loops and components are expanded first; everything below sees plain statements
+    const statements = expandMacros(document.statements, report, { file: options.file, resolveImport: readImport });
+    const definitions = collectDefinitions(statements, report);
+    const prepare = (attributes: AttributeNode[], defaults: InheritedAttribute[] = [], allowDefaultClass = false) =>
+        prepareAttributes(attributes, definitions, report, defaults, allowDefaultClass);
+
     const nodes: ParsedNode[] = [];
     const connections: ParsedConnection[] = [];
     const containers: ParsedContainer[] = [];
+    // Nodes and containers share one id space (selection, links and layout key on it)
+    const declared = new Map<string, { kind: 'node' | 'container'; range: SourceRange }>();
+    let layoutStrategy: LayoutStrategy | undefined;
+    let title = DEFAULT_TITLE;
 
-    const lines = code.split('\n');
-    let currentContainer: ParsedContainer | null = null;
-    let braceDepth = 0;
+    const declare = (id: Identifier, kind: 'node' | 'container'): boolean => {
+        const first = declared.get(id.name);
+        if (first && first.range.line === id.range.line && first.range.file === id.range.file) {
+            report(id.range, `Duplicate id "${id.name}": this line is repeated by a loop or component. Add a placeholder such as {i} to the id.`);
+            return false;
+        }
+        if (first) {
+            report(id.range, `Duplicate id "${id.name}": already declared as a ${first.kind} on ${describeLocation(first.range)}. Ids must be unique.`);
+            return false;
+        }
+        declared.set(id.name, { kind, range: id.range });
+        return true;
+    };
+
+    // `defaults` holds the defaultClass styles of the enclosing containers, outermost first
+    const visit = (statements: Statement[], parent: ParsedContainer | null, defaults: InheritedAttribute[]) => {
+        statements.forEach(statement => {
+            switch (statement.kind) {
+                case 'title':
+                    title = statement.title.value;
+                    break;
 
-    for (let i = 0; i < lines.length; i++) {
-        const lineNum = i + 1;
-        const line = lines[i].trim();
+                case 'layout': {
+                    const strategy = statement.strategy.name.toLowerCase() as LayoutStrategy;
+                    if (LAYOUT_STRATEGIES.includes(strategy)) {
+                        layoutStrategy = strategy;
+                    } else {
+                        report(statement.strategy.range, `Unknown layout strategy: "${strategy}". Valid strategies: ${LAYOUT_STRATEGIES.join(', ')}`);
+                    }
+                    break;
+                }
 
-        // Skip empty lines and comments
-        if (!line || line.startsWith('//')) continue;
+                case 'container': {
+                    const prepared = prepare(statement.attributes, [], true);
+                    const container = convertContainer(statement, prepared, report);
+                    // A rejected container's contents stay in the enclosing block
+                    if (!container || !declare(statement.id, 'container')) {
+                        visit(statement.body, parent, defaults);
+                        break;
+                    }
+                    if (parent) {
+                        container.parentContainerId = parent.id;
+                        container.nestingLevel = parent.nestingLevel + 1;
+                        parent.childContainerIds.push(container.id);
+                    }
+                    // Parents are pushed before children so they render underneath
+                    containers.push(container);
+                    visit(statement.body, container, [...defaults, ...prepared.defaultClass]);
+                    break;
+                }
 
-        // Track brace depth for containers
-        if (line.includes('{')) braceDepth++;
-        if (line.includes('}')) {
-            braceDepth--;
-            if (braceDepth === 0 && currentContainer) {
-                containers.push(currentContainer);
-                currentContainer = null;
+                case 'node': {
+                    const node = convertNode(statement, prepare(statement.attributes, defaults), report);
+                    if (!declare(statement.id, 'node')) break;
+                    if (parent) {
+                        node.containerId = parent.id;
+                        parent.childNodeIds.push(node.id);
+                    }
+                    nodes.push(node);
+                    break;
+                }
+
+                case 'connection':
+                    connections.push(convertConnection(statement, prepare(statement.attributes), report));
+                    break;
             }
-            continue;
+        });
+    };
+    visit(statements, null, []);
+
+    // Placements that cannot be resolved are reported and dropped
+    const unresolvable = new Set<string>();
+    [...nodes, ...containers].forEach(item => {
+        const unknown = item.placement && placementAnchors(item.placement).find(anchor => !declared.has(anchor.id));
+        if (!unknown) return;
+        report(unknown.range, `Unknown placement anchor "${unknown.id}".${suggestId(unknown.id, [...declared.keys()])}`);
+        unresolvable.add(item.id);
+    });
+    checkPlacements(placedItems(nodes, containers).filter(item => !unresolvable.has(item.id)), report)
+        .forEach(id => unresolvable.add(id));
+    [...nodes, ...containers].forEach(item => {
+        if (!unresolvable.has(item.id)) return;
+        delete item.placement;
+        // Without its placement a node falls back to auto-layout, a container to the origin
+        if ('icon' in item && (item.x === undefined || item.y === undefined)) {
+            item.x = undefined;
+            item.y = undefined;
+        }
+        if (!('icon' in item)) {
+            item.x ??= 0;
+            item.y ??= 0;
         }
+    });
 
-        // Parse container declaration
-        if (line.startsWith('container ')) {
-            const containerResult = parseContainer(line, lineNum);
-            if (containerResult.error) {
-                errors.push(containerResult.error);
-            } else if (containerResult.container) {
-                currentContainer = containerResult.container;
-            }
+    // A node placed inside= a container outside its block still belongs to it
+    nodes.forEach(node => {
+        const inside = node.placement?.inside && containers.find(c => c.id === node.placement!.inside!.id);
+        if (!inside || node.containerId) return;
+        node.containerId = inside.id;
+        inside.childNodeIds.push(node.id);
+    });
+
+    // Cross-reference checks; connections with unknown endpoints are dropped
+    const validation = validateReferences(nodes, connections, containers, declared, sources);
+    errors.push(...validation.errors);
+
+    // Problems in the parsed code come first, then those in imported files
+    const byPosition = (a: ParseError, b: ParseError) =>
+        (a.file ?? '').localeCompare(b.file ?? '') || a.line - b.line || (a.column ?? 0) - (b.column ?? 0);
+    return {
+        title,
+        layoutStrategy,
+        nodes,
+        connections: validation.connections,
+        containers,
+        errors: withoutRepeats(errors).sort(byPosition),
+        warnings: withoutRepeats(validation.warnings).sort(byPosition),
+    };
+}
+
+/**
+ * A template line expanded several times reports the same problem once
+ */
+function withoutRepeats(problems: ParseError[]): ParseError[] {
+    const seen = new Set<string>();
+    return problems.filter(problem => {
+        const key = `${problem.file}:${problem.line}:${problem.column}:${problem.message}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+// Source lines by file path (undefined for the parsed code)
+type SourceLines = Map<string | undefined, string[]>;
+
+function errorAt(range: SourceRange, message: string, sources: SourceLines): ParseError {
+    return {
+        line: range.line,
+        message,
+        code: (sources.get(range.file)?.[range.line - 1] ?? '').trim(),
+        column: range.start,
+        endColumn: range.end,
+        ...(range.file && { file: range.file }),
+    };
+}
+
+type Reporter = (range: SourceRange, message: string) => void;
+
+/**
+ * Check attributes against a schema. Unknown, duplicate and invalid attributes are
+ * reported and skipped; the valid ones are returned by canonical key. Attributes written
+ * on the line win over ones inherited from styles.
+ */
+function convertAttributes(
+    { own, inherited }: PreparedAttributes,
+    schema: Record<string, AttributeSpec>,
+    subject: string,
+    report: Reporter
+): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    const seen = new Set<string>();
+
+    for (const attribute of own) {
+        const key = resolveAttributeKey(attribute.key, schema);
+        if (!key) {
+            report(attribute.keyRange, `Unknown ${subject} attribute "${attribute.key}". Valid attributes: ${Object.keys(schema).join(', ')}`);
             continue;
         }
-
-        // Parse node declaration
-        if (line.startsWith('node ')) {
-            const nodeResult = parseNode(line, lineNum);
-            if (nodeResult.error) {
-                errors.push(nodeResult.error);
-            } else if (nodeResult.node) {
-                const node = nodeResult.node;
-                if (currentContainer) {
-                    node.containerId = currentContainer.id;
-                    currentContainer.childNodeIds.push(node.id);
-                }
-                nodes.push(node);
-            }
+        if (seen.has(key)) {
+            report(attribute.range, `Duplicate ${subject} attribute "${key}".`);
             continue;
         }
+        seen.add(key);
 
-        // Parse connection (-> or <->)
-        if (line.includes('->')) {
-            const connResult = parseConnection(line, lineNum);
-            if (connResult.error) {
-                errors.push(connResult.error);
-            } else if (connResult.connection) {
-                connections.push(connResult.connection);
-            }
+        const converted = convertAttribute(key, attribute, schema[key]);
+        if (converted.error) {
+            report(attribute.valueRange, converted.error);
             continue;
         }
+        values[key] = converted.value;
+    }
+
+    // Later styles override earlier ones. A style may mix node, container and link
+    // attributes, so keys this item doesn't have are skipped.
+    for (const attribute of inherited) {
+        const key = resolveAttributeKey(attribute.key, schema);
+        if (!key || seen.has(key)) continue;
 
-        // Unknown syntax
-        if (line && !line.startsWith('}')) {
-            errors.push({
-                line: lineNum,
-                message: `Unknown syntax: "${line.substring(0, 30)}..."`,
-                code: line
-            });
+        const converted = convertAttribute(key, attribute, schema[key]);
+        if (converted.error) {
+            report(attribute.range, `Style "${attribute.style}": ${converted.error}`);
+            continue;
         }
+        values[key] = converted.value;
     }
 
-    // Build DiagramData
-    if (errors.length === 0) {
-        const diagramNodes: ArchNode[] = nodes.map(n => ({
-            id: n.id,
-            label: n.label,
-            type: n.icon,
-            x: n.x,
-            y: n.y,
-            width: n.width || DEFAULT_NODE_WIDTH,
-            height: n.height || DEFAULT_NODE_HEIGHT,
-        }));
-
-        const diagramLinks: Link[] = connections.map(c => ({
-            id: `link-${nanoid()}`,
-            source: c.sourceId,
-            target: c.targetId,
-            label: c.label,
-            bidirectional: c.bidirectional,
-        }));
+    return values;
+}
 
-        const diagramContainers: Container[] = containers.map(c => ({
-            id: c.id,
-            label: c.label,
-            type: c.type,
-            x: c.x,
-            y: c.y,
-            width: c.width,
-            height: c.height,
-            childNodeIds: c.childNodeIds,
-        }));
+/**
+ * Build a node from its statement; bad attributes are dropped, the node is always kept
+ */
+function convertNode(statement: NodeStatement, attributes: PreparedAttributes, report: Reporter): ParsedNode {
+    const { icon, x, y, width, height, ...style } = convertAttributes(attributes, NODE_ATTRIBUTES, 'node', report);
+    const placement = takePlacement(style, attributes, NODE_ATTRIBUTES);
+    const node: ParsedNode = {
+        id: statement.id.name,
+        label: statement.label.value,
+        icon: (icon as IconType | undefined) ?? IconType.Generic,
+        width: width as number | undefined,
+        height: height as number | undefined,
+        ...(placement && { placement }),
+        style: style as Partial<ArchNode>,
+        range: statement.range,
+    };
 
-        return {
-            success: true,
-            data: {
-                title: 'CubeGen Diagram',
-                architectureType: 'code-to-diagram',
-                nodes: diagramNodes,
-                links: diagramLinks,
-                containers: diagramContainers.length > 0 ? diagramContainers : undefined,
-            },
-            errors: [],
-        };
+    // With a placement, a single coordinate fixes one axis and the placement sets the other
+    if (!placement && (x === undefined) !== (y === undefined)) {
+        const given = attributes.own.find(a => resolveAttributeKey(a.key, NODE_ATTRIBUTES) === (x === undefined ? 'y' : 'x'));
+        report(given ? given.range : statement.range, 'Node coordinates must be given together: set both x= and y=, or neither for auto-layout.');
+    } else {
+        node.x = x as number | undefined;
+        node.y = y as number | undefined;
     }
 
-    return { success: false, errors };
+    return node;
 }
 
 /**
- * Parse a node line
- * Format: node <id>: "<label>" icon=<IconType> x=<number> y=<number>
+ * Build a container from its statement; without its required geometry it cannot be placed
  */
-function parseNode(line: string, lineNum: number): { node?: ParsedNode; error?: ParseError } {
-    // Regex: node id: "label" icon=Type x=100 y=200 [width=120] [height=100]
-    const regex = /^node\s+(\w+):\s*"([^"]+)"\s+icon=(\w+)\s+x=(\d+)\s+y=(\d+)(?:\s+width=(\d+))?(?:\s+height=(\d+))?/;
-    const match = line.match(regex);
-
-    if (!match) {
-        return {
-            error: {
-                line: lineNum,
-                message: 'Invalid node syntax. Expected: node <id>: "<label>" icon=<IconType> x=<number> y=<number>',
-                code: line
-            }
-        };
+function convertContainer(statement: ContainerStatement, attributes: PreparedAttributes, report: Reporter): ParsedContainer | null {
+    const values = convertAttributes(attributes, CONTAINER_ATTRIBUTES, 'container', report);
+    const placement = takePlacement(values, attributes, CONTAINER_ATTRIBUTES);
+
+    // A placement stands in for the coordinates
+    const required = placement ? REQUIRED_CONTAINER_ATTRIBUTES.filter(key => key !== 'x' && key !== 'y') : REQUIRED_CONTAINER_ATTRIBUTES;
+    const missing = required.filter(key => !(key in values));
+    if (missing.length > 0) {
+        // Attributes that were given but invalid have been reported already
+        const given = [...attributes.own, ...attributes.inherited];
+        const absent = missing.filter(key => !given.some(a => resolveAttributeKey(a.key, CONTAINER_ATTRIBUTES) === key));
+        if (absent.length > 0) {
+            report(statement.id.range, `Container "${statement.id.name}" is missing required attribute${absent.length > 1 ? 's' : ''}: ${absent.join(', ')}`);
+        }
+        return null;
     }
 
-    const [, id, label, iconName, xStr, yStr, widthStr, heightStr] = match;
+    const { type, x, y, width, height, ...style } = values;
 
-    // Resolve icon type
-    const icon = ICON_MAP[iconName.toLowerCase()];
-    if (!icon) {
-        return {
-            error: {
-                line: lineNum,
-                message: `Unknown icon type: "${iconName}". Check available icons in documentation.`,
-                code: line
-            }
-        };
-    }
+    return {
+        id: statement.id.name,
+        label: statement.label.value,
+        type: type as Container['type'],
+        x: x as number | undefined,
+        y: y as number | undefined,
+        width: width as number,
+        height: height as number,
+        ...(placement && { placement }),
+        childNodeIds: [],
+        childContainerIds: [],
+        nestingLevel: 0,
+        style: style as Partial<Container>,
+        range: statement.range,
+    };
+}
 
+/**
+ * Build a connection from its statement; bad attributes are dropped
+ */
+function convertConnection(statement: ConnectionStatement, attributes: PreparedAttributes, report: Reporter): ParsedConnection {
+    const style = convertAttributes(attributes, LINK_ATTRIBUTES, 'connection', report);
     return {
-        node: {
-            id,
-            label,
-            icon,
-            x: parseInt(xStr, 10),
-            y: parseInt(yStr, 10),
-            width: widthStr ? parseInt(widthStr, 10) : undefined,
-            height: heightStr ? parseInt(heightStr, 10) : undefined,
-        }
+        sourceId: statement.source.name,
+        targetId: statement.target.name,
+        label: statement.label?.value,
+        bidirectional: statement.bidirectional,
+        style: style as Partial<Link>,
+        range: statement.range,
+        sourceRange: statement.source.range,
+        targetRange: statement.target.range,
     };
 }
 
+// ============================================
+// CONSTANTS AND STYLES
+// ============================================
+
+// An attribute supplied by a style; its ranges point at the `class=` that applied it
+interface InheritedAttribute extends AttributeNode {
+    style: string;
+}
+
+const STYLE_SCHEMAS = [NODE_ATTRIBUTES, CONTAINER_ATTRIBUTES, LINK_ATTRIBUTES];
+
+interface Definitions {
+    constants: Map<string, LetStatement>;
+    // Style attributes with constants already substituted
+    styles: Map<string, AttributeNode[]>;
+}
+
+interface PreparedAttributes {
+    own: AttributeNode[];
+    // From container defaults, then classes, lowest precedence first
+    inherited: InheritedAttribute[];
+    // Styles a container's defaultClass gives to the nodes inside it
+    defaultClass: InheritedAttribute[];
+}
+
 /**
- * Parse a connection line
- * Format: source -> target: "label"  OR  source <-> target: "label"
+ * Gather `let` constants and `style` blocks. Both are global, wherever they are declared.
  */
-function parseConnection(line: string, lineNum: number): { connection?: ParsedConnection; error?: ParseError } {
-    // Regex for bidirectional: source <-> target: "label"
-    const biRegex = /^(\w+)\s*<->\s*(\w+)(?::\s*"([^"]*)")?/;
-    // Regex for unidirectional: source -> target: "label"
-    const uniRegex = /^(\w+)\s*->\s*(\w+)(?::\s*"([^"]*)")?/;
-
-    let match = line.match(biRegex);
-    let bidirectional = true;
-
-    if (!match) {
-        match = line.match(uniRegex);
-        bidirectional = false;
-    }
+function collectDefinitions(statements: Statement[], report: Reporter): Definitions {
+    const definitions: Definitions = { constants: new Map(), styles: new Map() };
+    const styleStatements = new Map<string, StyleStatement>();
 
-    if (!match) {
-        return {
-            error: {
-                line: lineNum,
-                message: 'Invalid connection syntax. Expected: source -> target: "label" or source <-> target: "label"',
-                code: line
+    const visit = (list: Statement[]) => list.forEach(statement => {
+        if (statement.kind === 'container') visit(statement.body);
+        if (statement.kind === 'let') {
+            const first = definitions.constants.get(statement.name.name);
+            if (first) report(statement.name.range, `Duplicate constant "${statement.name.name}": already declared on ${describeLocation(first.name.range)}.`);
+            else definitions.constants.set(statement.name.name, statement);
+        }
+        if (statement.kind === 'style') {
+            const first = styleStatements.get(statement.name.name);
+            if (first) report(statement.name.range, `Duplicate style "${statement.name.name}": already declared on ${describeLocation(first.name.range)}.`);
+            else styleStatements.set(statement.name.name, statement);
+        }
+    });
+    visit(statements);
+
+    // Constants are resolved once per style so a bad reference is reported once, where it is written
+    styleStatements.forEach((statement, name) => {
+        const seen = new Set<string>();
+        const attributes: AttributeNode[] = [];
+        statement.attributes.forEach(attribute => {
+            const key = attribute.key.replace(/-/g, '').toLowerCase();
+            if (!STYLE_SCHEMAS.some(schema => resolveAttributeKey(attribute.key, schema))) {
+                report(attribute.keyRange, `Unknown style attribute "${attribute.key}". Styles accept node, container and connection attributes.`);
+                return;
+            }
+            if (seen.has(key)) {
+                report(attribute.range, `Duplicate style attribute "${attribute.key}".`);
+                return;
             }
-        };
+            seen.add(key);
+            const resolved = resolveConstant(attribute, definitions, report);
+            if (resolved) attributes.push(resolved);
+        });
+        definitions.styles.set(name, attributes);
+    });
+
+    return definitions;
+}
+
+/**
+ * Substitute a `$name` value with its constant; unknown names are reported and dropped
+ */
+function resolveConstant(attribute: AttributeNode, definitions: Definitions, report: Reporter): AttributeNode | null {
+    let { value, quoted } = attribute;
+    const seen = new Set<string>();
+
+    while (!quoted && value.startsWith('$')) {
+        const name = value.slice(1);
+        const constant = definitions.constants.get(name);
+        if (!constant) {
+            report(attribute.valueRange, `Unknown constant "${value}".${suggestId(value, [...definitions.constants.keys()].map(k => `$${k}`))}`);
+            return null;
+        }
+        if (seen.has(name)) {
+            report(attribute.valueRange, `Constant "${name}" refers to itself.`);
+            return null;
+        }
+        seen.add(name);
+        ({ value, quoted } = constant);
     }
 
-    const [, sourceId, targetId, label] = match;
+    return { ...attribute, value, quoted };
+}
 
-    return {
-        connection: {
-            sourceId,
-            targetId,
-            label: label || undefined,
-            bidirectional,
+/**
+ * Attributes of the styles named in `class=a,b`, in order
+ */
+function expandClasses(attribute: AttributeNode, definitions: Definitions, report: Reporter): InheritedAttribute[] {
+    return attribute.value.split(',').map(name => name.trim()).filter(Boolean).flatMap(name => {
+        const style = definitions.styles.get(name);
+        if (!style) {
+            report(attribute.valueRange, `Unknown style "${name}".${suggestId(name, [...definitions.styles.keys()])}`);
+            return [];
         }
-    };
+        return style.map(styled => ({
+            ...styled,
+            range: attribute.valueRange,
+            keyRange: attribute.valueRange,
+            valueRange: attribute.valueRange,
+            style: name,
+        }));
+    });
+}
+
+/**
+ * Split `class=` and (on containers) `defaultClass=` from a line's own attributes,
+ * substituting constants in the rest
+ */
+function prepareAttributes(
+    attributes: AttributeNode[],
+    definitions: Definitions,
+    report: Reporter,
+    defaults: InheritedAttribute[],
+    allowDefaultClass: boolean
+): PreparedAttributes {
+    const prepared: PreparedAttributes = { own: [], inherited: [...defaults], defaultClass: [] };
+
+    attributes.forEach(attribute => {
+        const key = attribute.key.replace(/-/g, '').toLowerCase();
+        if (key === 'class') {
+            prepared.inherited.push(...expandClasses(attribute, definitions, report));
+        } else if (key === 'defaultclass' && allowDefaultClass) {
+            prepared.defaultClass = expandClasses(attribute, definitions, report);
+        } else {
+            const resolved = resolveConstant(attribute, definitions, report);
+            if (resolved) prepared.own.push(resolved);
+        }
+    });
+
+    return prepared;
 }
 
 /**
- * Parse a container line
- * Format: container <id>: "<label>" type=<type> x=<number> y=<number> width=<number> height=<number> {
+ * Match an attribute key case-insensitively, ignoring dashes (border-color → borderColor)
  */
-function parseContainer(line: string, lineNum: number): { container?: ParsedContainer; error?: ParseError } {
-    // Regex: container id: "label" type=vpc x=50 y=50 width=600 height=400 {
-    const regex = /^container\s+(\w+):\s*"([^"]+)"\s+type=(\w+)\s+x=(\d+)\s+y=(\d+)\s+width=(\d+)\s+height=(\d+)\s*\{?/;
-    const match = line.match(regex);
-
-    if (!match) {
-        return {
-            error: {
-                line: lineNum,
-                message: 'Invalid container syntax. Expected: container <id>: "<label>" type=<type> x=<n> y=<n> width=<n> height=<n> {',
-                code: line
+function resolveAttributeKey(key: string, schema: Record<string, AttributeSpec>): string | undefined {
+    const normalized = key.replace(/-/g, '').toLowerCase();
+    return Object.keys(schema).find(k => k.toLowerCase() === normalized);
+}
+
+/**
+ * Whether a color attribute value is one the DSL accepts: hex, rgb()/hsl() or transparent
+ */
+export function isDslColor(value: string): boolean {
+    return /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value)
+        || /^(rgb|rgba|hsl|hsla)\([\d\s.,%]+\)$/i.test(value)
+        || value.toLowerCase() === 'transparent';
+}
+
+/**
+ * Validate a raw attribute value against its spec and convert it to the ArchNode/Link field type
+ */
+function convertAttribute(key: string, raw: AttributeNode, spec: AttributeSpec): { value?: unknown; error?: string } {
+    const { value } = raw;
+
+    switch (spec.kind) {
+        case 'number': {
+            if (raw.quoted || !/^-?\d+(\.\d+)?$/.test(value)) {
+                return { error: `Attribute "${key}" must be a number, got "${value}".` };
+            }
+            const num = parseFloat(value);
+            if (spec.integer && !Number.isInteger(num)) return { error: `Attribute "${key}" must be a whole number, got "${value}".` };
+            if (spec.min !== undefined && num < spec.min) return { error: `Attribute "${key}" must be at least ${spec.min}, got ${value}.` };
+            if (spec.max !== undefined && num > spec.max) return { error: `Attribute "${key}" must be at most ${spec.max}, got ${value}.` };
+            return { value: num };
+        }
+        case 'enum': {
+            const match = spec.values.find(v => v.toLowerCase() === value.toLowerCase());
+            if (!match) return { error: `Invalid ${key}: "${value}". Valid values: ${spec.values.join(', ')}` };
+            return { value: match };
+        }
+        case 'color': {
+            if (!isDslColor(value)) {
+                return { error: `Attribute "${key}" must be a hex color like #2563EB (or "transparent"), got "${value}".` };
             }
-        };
+            return { value };
+        }
+        case 'boolean': {
+            if (value !== 'true' && value !== 'false') return { error: `Attribute "${key}" must be true or false, got "${value}".` };
+            return { value: value === 'true' };
+        }
+        case 'icon': {
+            const icon = ICON_MAP[value.toLowerCase()];
+            if (!icon) return { error: `Unknown icon type: "${value}". Check available icons in documentation.` };
+            return { value: icon };
+        }
+        case 'string':
+            if (spec.pattern && !spec.pattern.test(value)) {
+                return { error: `Attribute "${key}" must be ${spec.hint || `in the form ${spec.pattern}`}, got "${value}".` };
+            }
+            return { value };
     }
+}
+
+// ============================================
+// PLACEMENT
+// ============================================
+
+/**
+ * Move the placement attributes out of converted values into a Placement
+ */
+function takePlacement(
+    values: Record<string, unknown>,
+    attributes: PreparedAttributes,
+    schema: Record<string, AttributeSpec>
+): Placement | undefined {
+    const present = PLACEMENT_KEYS.filter(key => key in values);
+    if (present.length === 0) return undefined;
+
+    // The line's own attribute wins, then the most recently applied style
+    const given = [...attributes.own, ...[...attributes.inherited].reverse()];
+    const attributeFor = (key: string) => given.find(a => resolveAttributeKey(a.key, schema) === key)!;
+    const anchor = (key: string) => key in values ? { id: values[key] as string, range: attributeFor(key).valueRange } : undefined;
+
+    const placement: Placement = {
+        rightOf: anchor('rightOf'),
+        leftOf: anchor('leftOf'),
+        below: anchor('below'),
+        above: anchor('above'),
+        inside: anchor('inside'),
+        align: 'align' in values
+            ? (values.align as string).split(',').map(part => {
+                const [edge, id] = part.split(/-of:/);
+                return { edge: edge as AlignEdge, id, range: attributeFor('align').valueRange };
+            })
+            : [],
+        at: values.at as InsidePosition | undefined,
+        gap: values.gap as number | undefined,
+        range: present.map(key => attributeFor(key).range).sort((a, b) => a.line - b.line || a.start - b.start)[0],
+    };
+    present.forEach(key => delete values[key]);
+    return placement;
+}
+
+function placementAnchors(placement: Placement): { id: string; range: SourceRange }[] {
+    return [placement.rightOf, placement.leftOf, placement.below, placement.above, placement.inside, ...placement.align]
+        .filter((anchor): anchor is NonNullable<typeof anchor> => anchor !== undefined);
+}
+
+function placedItems(nodes: ParsedNode[], containers: ParsedContainer[]): PlacedItem[] {
+    return [
+        ...nodes.map(n => ({
+            id: n.id,
+            kind: 'node' as const,
+            x: n.x,
+            y: n.y,
+            width: n.width || DEFAULT_NODE_WIDTH,
+            height: n.height || DEFAULT_NODE_HEIGHT,
+            placement: n.placement,
+        })),
+        ...containers.map(c => ({ id: c.id, kind: 'container' as const, x: c.x, y: c.y, width: c.width, height: c.height, placement: c.placement })),
+    ];
+}
+
+/**
+ * Boxes of the items positioned by their own coordinates
+ */
+function fixedBoxes(items: PlacedItem[]): Map<string, Box> {
+    const boxes = new Map<string, Box>();
+    items.forEach(item => {
+        if (!item.placement && item.x !== undefined && item.y !== undefined) boxes.set(item.id, boxOf({ ...item, x: item.x, y: item.y }));
+    });
+    return boxes;
+}
 
-    const [, id, label, typeStr, xStr, yStr, widthStr, heightStr] = match;
+function moveToBoxes<T extends { id: string; x: number; y: number }>(items: T[], boxes: Map<string, Box>, kind: 'node' | 'container'): T[] {
+    return items.map(item => {
+        const box = boxes.get(item.id);
+        return box ? { ...item, ...positionOf(box, kind) } : item;
+    });
+}
 
-    // Validate container type
-    const validTypes: Container['type'][] = ['region', 'availability-zone', 'tier', 'vpc', 'subnet', 'security-group', 'group'];
-    const containerType = typeStr.toLowerCase() as Container['type'];
+// ============================================
+// SEMANTIC VALIDATION
+// ============================================
+
+/**
+ * Check references between declarations: unknown connection endpoints are errors (and the
+ * connection is dropped); self-loops and nodes placed outside their container are warnings.
+ */
+function validateReferences(
+    nodes: ParsedNode[],
+    connections: ParsedConnection[],
+    containers: ParsedContainer[],
+    declared: Map<string, { kind: 'node' | 'container'; range: SourceRange }>,
+    sources: SourceLines
+): { errors: ParseError[]; warnings: ParseError[]; connections: ParsedConnection[] } {
+    const errors: ParseError[] = [];
+    const warnings: ParseError[] = [];
 
-    if (!validTypes.includes(containerType)) {
-        return {
-            error: {
-                line: lineNum,
-                message: `Invalid container type: "${typeStr}". Valid types: ${validTypes.join(', ')}`,
-                code: line
+    const nodeIds = nodes.map(n => n.id);
+    const valid = connections.filter(conn => {
+        let ok = true;
+        const endpoints: [string, SourceRange, string][] = [
+            [conn.sourceId, conn.sourceRange, 'source'],
+            [conn.targetId, conn.targetRange, 'target'],
+        ];
+        endpoints.forEach(([endpoint, range, role]) => {
+            const found = declared.get(endpoint);
+            if (found?.kind === 'container') {
+                errors.push(errorAt(range, `Connection ${role} "${endpoint}" is a container; connections must join nodes.${suggestId(endpoint, nodeIds)}`, sources));
+                ok = false;
+            } else if (!found) {
+                errors.push(errorAt(range, `Connection ${role} "${endpoint}" is not a declared node.${suggestId(endpoint, nodeIds)}`, sources));
+                ok = false;
             }
-        };
+        });
+
+        if (ok && conn.sourceId === conn.targetId) {
+            const others = nodeIds.filter(id => id !== conn.sourceId);
+            warnings.push(errorAt(conn.range, `Connection from "${conn.sourceId}" to itself.${suggestId(conn.targetId, others)}`, sources));
+        }
+        return ok;
+    });
+
+    // Only explicitly placed nodes can fall outside; auto-layout keeps the rest inside
+    const containersById = new Map(containers.map(c => [c.id, c]));
+    nodes.forEach(node => {
+        const container = node.containerId ? containersById.get(node.containerId) : undefined;
+        if (!container || node.x === undefined || node.y === undefined || container.x === undefined || container.y === undefined) return;
+        if (fitsInside(node, container)) return;
+
+        const fitting = containers.filter(c => c !== container && c.x !== undefined && c.y !== undefined && fitsInside(node, c)).map(c => c.id);
+        const hint = fitting.length > 0
+            ? ` It lies within "${closestId(container.id, fitting)}".`
+            : ` Move it within x ${container.x}–${container.x + container.width}, y ${container.y}–${container.y + container.height}.`;
+        warnings.push(errorAt(node.range, `Node "${node.id}" is placed outside its container "${container.id}".${hint}`, sources));
+    });
+
+    return { errors, warnings, connections: valid };
+}
+
+/**
+ * Whether a node's box (x/y is its center) lies within a container (x/y is its top-left corner)
+ */
+function fitsInside(node: ParsedNode, container: ParsedContainer): boolean {
+    const halfWidth = (node.width || DEFAULT_NODE_WIDTH) / 2;
+    const halfHeight = (node.height || DEFAULT_NODE_HEIGHT) / 2;
+    return node.x! - halfWidth >= container.x! &&
+        node.x! + halfWidth <= container.x! + container.width &&
+        node.y! - halfHeight >= container.y! &&
+        node.y! + halfHeight <= container.y! + container.height;
+}
+
+function suggestId(id: string, candidates: string[]): string {
+    const closest = closestId(id, candidates);
+    return closest ? ` Did you mean "${closest}"?` : '';
+}
+
+/**
+ * Find the candidate with the smallest edit distance to id (case-insensitive)
+ */
+function closestId(id: string, candidates: string[]): string | undefined {
+    let best: string | undefined;
+    let bestDistance = Infinity;
+    for (const candidate of candidates) {
+        const distance = editDistance(id.toLowerCase(), candidate.toLowerCase());
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
     }
+    return best;
+}
 
-    return {
-        container: {
-            id,
-            label,
-            type: containerType,
-            x: parseInt(xStr, 10),
-            y: parseInt(yStr, 10),
-            width: parseInt(widthStr, 10),
-            height: parseInt(heightStr, 10),
-            childNodeIds: [],
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
         }
-    };
+        previous = current;
+    }
+    return previous[b.length];
 }
 
 /**
@@ -334,9 +1073,44 @@ export function getAvailableIcons(): string[] {
     return Object.keys(IconType);
 }
 
+/**
+ * Resolve an icon name as written in the DSL (enum key or value, any case)
+ */
+export function resolveIconName(name: string): IconType | undefined {
+    return ICON_MAP[name.toLowerCase()];
+}
+
 /**
  * Get list of available container types
  */
 export function getContainerTypes(): string[] {
-    return ['region', 'availability-zone', 'tier', 'vpc', 'subnet', 'security-group', 'group'];
+    return [...CONTAINER_TYPES];
+}
+
+/**
+ * Get the attributes accepted on container lines, keyed by name
+ */
+export function getContainerAttributes(): Record<string, AttributeSpec> {
+    return { ...CONTAINER_ATTRIBUTES };
+}
+
+/**
+ * Get the attributes accepted on node lines, keyed by name
+ */
+export function getNodeAttributes(): Record<string, AttributeSpec> {
+    return { ...NODE_ATTRIBUTES };
+}
+
+/**
+ * Get the attributes accepted after a connection, keyed by name
+ */
+export function getLinkAttributes(): Record<string, AttributeSpec> {
+    return { ...LINK_ATTRIBUTES };
+}
+
+/**
+ * Get list of strategies accepted by the layout directive
+ */
+export function getLayoutStrategies(): string[] {
+    return [...LAYOUT_STRATEGIES];
 }
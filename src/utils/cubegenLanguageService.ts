@@ -0,0 +1,437 @@
+/**
+ * CubeGen DSL Language Service
+ * Editor features built on the syntax tree: completion, hover info,
+ * go-to-definition and rename
+ *
+ * Positions are 1-based lines and 0-based columns, matching SourceRange.
+ */
+
+import { DiagramData, IconType, Link } from '../types';
+import {
+    parseCubeGenAST,
+    tokenizeLine,
+    ANCHOR_KEYS,
+    ConnectionStatement,
+    CubeGenDocument,
+    SourceRange,
+    Statement,
+    Token,
+} from './cubegenAST';
+import { expandMacros } from './cubegenMacros';
+import {
+    AttributeSpec,
+    getAvailableIcons,
+    getContainerAttributes,
+    getLayoutStrategies,
+    getLinkAttributes,
+    getNodeAttributes,
+    resolveIconName,
+} from './cubegenDSL';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type CompletionKind = 'keyword' | 'id' | 'attribute' | 'value' | 'icon';
+
+export interface CompletionItem {
+    label: string;
+    kind: CompletionKind;
+    // Text that replaces the typed prefix
+    insertText: string;
+    detail?: string;
+}
+
+export interface CompletionResult {
+    // Column range on the caret's line that an accepted item replaces
+    from: number;
+    to: number;
+    items: CompletionItem[];
+}
+
+export interface SymbolDeclaration {
+    id: string;
+    kind: 'node' | 'container';
+    label: string;
+    // Resolved icon for nodes, container type for containers
+    icon?: IconType;
+    containerType?: string;
+    range: SourceRange;
+}
+
+export interface HoverInfo {
+    declaration: SymbolDeclaration;
+    // The hovered occurrence
+    range: SourceRange;
+}
+
+/**
+ * Declarations and connections of the document with loops and components expanded, as the
+ * diagram was built from it; see indexSources
+ */
+export interface SourceIndex {
+    declarations: Map<string, SymbolDeclaration>;
+    connections: ConnectionStatement[];
+}
+
+const KEYWORDS: CompletionItem[] = [
+    { label: 'node', kind: 'keyword', insertText: 'node ', detail: 'node <id>: "<label>"' },
+    { label: 'container', kind: 'keyword', insertText: 'container ', detail: 'container <id>: "<label>" type=<type> ... {' },
+    { label: 'title', kind: 'keyword', insertText: 'title "', detail: 'title "<diagram title>"' },
+    { label: 'layout', kind: 'keyword', insertText: 'layout ', detail: 'layout <strategy>' },
+    { label: 'let', kind: 'keyword', insertText: 'let ', detail: 'let <name> = <value>' },
+    { label: 'style', kind: 'keyword', insertText: 'style ', detail: 'style <name> { <attribute>=<value> ... }' },
+    { label: 'for', kind: 'keyword', insertText: 'for ', detail: 'for <name> in <from>..<to> {' },
+    { label: 'component', kind: 'keyword', insertText: 'component ', detail: 'component <name>(<parameter>, ...) {' },
+    { label: 'use', kind: 'keyword', insertText: 'use ', detail: 'use <component>(<argument>, ...)' },
+    { label: 'import', kind: 'keyword', insertText: 'import "', detail: 'import "<path>" [as <namespace>]' },
+];
+
+// Attributes resolved by the parser itself rather than copied onto the item
+const CLASS_ATTRIBUTE: CompletionItem = { label: 'class', kind: 'attribute', insertText: 'class=', detail: 'style name(s)' };
+const DEFAULT_CLASS_ATTRIBUTE: CompletionItem = { label: 'defaultClass', kind: 'attribute', insertText: 'defaultClass=', detail: 'style for nodes inside' };
+
+const ID_PATTERN = /^\w+(?:-\w+)*$/;
+
+// Words that start other statements, so they cannot open a connection line
+const RESERVED_IDS = ['node', 'container'];
+
+const MAX_COMPLETIONS = 50;
+
+// ============================================
+// SYMBOLS
+// ============================================
+
+/**
+ * Every node and container declaration, in source order (first declaration wins)
+ */
+export function collectDeclarations(document: CubeGenDocument): Map<string, SymbolDeclaration> {
+    const declarations = new Map<string, SymbolDeclaration>();
+
+    const visit = (statements: Statement[]) => {
+        statements.forEach(statement => {
+            if (statement.kind === 'for' || statement.kind === 'component') visit(statement.body);
+            if (statement.kind !== 'node' && statement.kind !== 'container') return;
+            if (!declarations.has(statement.id.name)) {
+                const attribute = (key: string) => statement.attributes.find(a => a.key.toLowerCase() === key)?.value;
+                declarations.set(statement.id.name, {
+                    id: statement.id.name,
+                    kind: statement.kind,
+                    label: statement.label.value,
+                    range: statement.id.range,
+                    ...(statement.kind === 'node'
+                        ? { icon: resolveIconName(attribute('icon') ?? '') ?? IconType.Generic }
+                        : { containerType: attribute('type') }),
+                });
+            }
+            if (statement.kind === 'container') visit(statement.body);
+        });
+    };
+    visit(document.statements);
+
+    return declarations;
+}
+
+/**
+ * Names of `let` constants and `style` blocks
+ */
+function collectDefinitionNames(statements: Statement[]): { constants: string[]; styles: string[] } {
+    const names = { constants: [] as string[], styles: [] as string[] };
+    statements.forEach(statement => {
+        if (statement.kind === 'let') names.constants.push(statement.name.name);
+        if (statement.kind === 'style') names.styles.push(statement.name.name);
+        if ('body' in statement) {
+            const nested = collectDefinitionNames(statement.body);
+            names.constants.push(...nested.constants);
+            names.styles.push(...nested.styles);
+        }
+    });
+    return names;
+}
+
+/**
+ * The id token (declaration, connection endpoint or placement anchor) at a position;
+ * the caret just after an id still counts as on it
+ */
+function symbolTokenAt(document: CubeGenDocument, line: number, column: number): Token | undefined {
+    return (document.tokens[line - 1] || []).find(t =>
+        (t.role === 'declaration' || t.role === 'reference') && t.start <= column && column <= t.end
+    );
+}
+
+export function getHoverInfo(code: string, line: number, column: number): HoverInfo | null {
+    const document = parseCubeGenAST(code);
+    const token = symbolTokenAt(document, line, column);
+    if (!token) return null;
+
+    const declaration = collectDeclarations(document).get(token.text);
+    if (!declaration) return null;
+    return { declaration, range: { line, start: token.start, end: token.end } };
+}
+
+/**
+ * Where the id at a position is declared
+ */
+export function findDefinition(code: string, line: number, column: number): SourceRange | null {
+    return getHoverInfo(code, line, column)?.declaration.range ?? null;
+}
+
+/**
+ * Rename the id at a position, rewriting its declaration and every connection and
+ * placement anchor that references it
+ */
+export function renameSymbol(
+    code: string,
+    line: number,
+    column: number,
+    newName: string
+): { code: string; range: SourceRange } | { error: string } {
+    const document = parseCubeGenAST(code);
+    const token = symbolTokenAt(document, line, column);
+    if (!token) return { error: 'Place the caret on a node or container id to rename it.' };
+
+    const oldName = token.text;
+    if (newName === oldName) return { code, range: { line, start: token.start, end: token.end } };
+    if (!ID_PATTERN.test(newName)) {
+        return { error: `"${newName}" is not a valid id. Use letters, digits and underscores, joined by single dashes.` };
+    }
+    if (RESERVED_IDS.includes(newName)) return { error: `"${newName}" is a keyword and cannot be used as an id.` };
+
+    const declarations = collectDeclarations(document);
+    if (declarations.has(newName)) return { error: `"${newName}" is already declared on line ${declarations.get(newName)!.range.line}.` };
+
+    const lines = code.split('\n');
+    document.tokens.forEach((lineTokens, index) => {
+        const matches = lineTokens.filter(t => (t.role === 'declaration' || t.role === 'reference') && t.text === oldName);
+        // Replace right to left so earlier columns stay valid
+        [...matches].reverse().forEach(t => {
+            lines[index] = lines[index].substring(0, t.start) + newName + lines[index].substring(t.end);
+        });
+    });
+
+    // Earlier occurrences on the same line shift the renamed token
+    const shift = document.tokens[line - 1].filter(t => t.start < token.start && t.text === oldName && (t.role === 'declaration' || t.role === 'reference')).length;
+    const start = token.start + shift * (newName.length - oldName.length);
+    return { code: lines.join('\n'), range: { line, start, end: start + newName.length } };
+}
+
+// ============================================
+// DIAGRAM MAPPING
+// ============================================
+
+function linkEndpoint(end: Link['source']): string {
+    return typeof end === 'string' ? end : end.id;
+}
+
+/**
+ * All connection statements, in source order
+ */
+function collectConnections(statements: Statement[]): ConnectionStatement[] {
+    return statements.flatMap(statement => {
+        if (statement.kind === 'connection') return [statement];
+        if ('body' in statement) return collectConnections(statement.body);
+        return [];
+    });
+}
+
+/**
+ * Parse and expand the code once for looking up diagram items; expanded items keep the
+ * ranges of their template lines
+ */
+export function indexSources(code: string): SourceIndex {
+    const document = parseCubeGenAST(code);
+    const expanded = { ...document, statements: expandMacros(document.statements) };
+    return { declarations: collectDeclarations(expanded), connections: collectConnections(expanded.statements) };
+}
+
+/**
+ * Links carry generated ids, so they are matched to connections by endpoints:
+ * the nth link between two nodes belongs to the nth connection between them.
+ */
+function connectionForLink(connections: ConnectionStatement[], data: DiagramData, link: Link): ConnectionStatement | undefined {
+    const source = linkEndpoint(link.source);
+    const target = linkEndpoint(link.target);
+    const sameEnds = (s: string, t: string) => s === source && t === target;
+
+    const occurrence = data.links
+        .slice(0, data.links.indexOf(link))
+        .filter(l => sameEnds(linkEndpoint(l.source), linkEndpoint(l.target))).length;
+    return connections.filter(c => sameEnds(c.source.name, c.target.name))[occurrence];
+}
+
+/**
+ * The source range that declares a node, container or link of the diagram
+ */
+export function findItemDeclaration(sources: SourceIndex, data: DiagramData, id: string): SourceRange | null {
+    const link = data.links.find(l => l.id === id);
+    if (link) return connectionForLink(sources.connections, data, link)?.range ?? null;
+
+    return sources.declarations.get(id)?.range ?? null;
+}
+
+/**
+ * The id of the diagram item declared on a line, if any
+ */
+export function findItemAtLine(sources: SourceIndex, data: DiagramData, line: number): string | null {
+    const declaration = [...sources.declarations.values()].find(d => d.range.line === line);
+    if (declaration) {
+        const exists = data.nodes.some(n => n.id === declaration.id) || (data.containers || []).some(c => c.id === declaration.id);
+        return exists ? declaration.id : null;
+    }
+
+    const connection = sources.connections.find(c => c.range.line === line);
+    if (!connection) return null;
+    const link = data.links.find(l => connectionForLink(sources.connections, data, l) === connection);
+    return link ? link.id : null;
+}
+
+// ============================================
+// COMPLETION
+// ============================================
+
+/**
+ * Suggestions for the caret position. Without `explicit` (Ctrl+Space), nothing is offered
+ * until a word is started, except right after `=`, `->` or `layout`.
+ */
+export function getCompletions(code: string, line: number, column: number, explicit = false): CompletionResult | null {
+    const text = code.split('\n')[line - 1] ?? '';
+    const before = text.substring(0, column);
+
+    // Inside a string or comment there is nothing to complete
+    const open = tokenizeLine(before);
+    const last = open[open.length - 1];
+    if (last && (last.kind === 'comment' || (last.kind === 'string' && !last.terminated && last.end === column))) return null;
+
+    // The word being typed; after `=` it is a value and may hold #, commas, dots
+    const prefixMatch = before.match(/=([^\s"{}]*)$/) || before.match(/([\w-]*)$/);
+    const prefix = prefixMatch ? prefixMatch[1] : '';
+    const from = column - prefix.length;
+    const context = tokenizeLine(before.substring(0, from));
+    const previous = context[context.length - 1];
+
+    const document = parseCubeGenAST(code);
+    const declarations = collectDeclarations(document);
+    const nodeIds = [...declarations.values()].filter(d => d.kind === 'node');
+
+    let items: CompletionItem[] = [];
+    let triggered = prefix.length > 0;
+
+    if (previous?.kind === 'equals') {
+        // Attribute value: a constant, style names for class attributes, or the attribute's own values
+        const keyToken = context[context.length - 2];
+        const key = keyToken?.text.replace(/-/g, '').toLowerCase();
+        const definitions = collectDefinitionNames(document.statements);
+        if (prefix.startsWith('$')) {
+            items = definitions.constants.map(name => ({ label: `$${name}`, kind: 'value' as const, insertText: `$${name}` }));
+        } else if (key === 'class' || key === 'defaultclass') {
+            // Complete the last name of a comma-separated list
+            const listed = prefix.substring(0, prefix.lastIndexOf(',') + 1);
+            items = definitions.styles.map(name => ({ label: name, kind: 'value' as const, insertText: `${listed}${name}`, detail: 'style' }));
+        } else if (key && ANCHOR_KEYS.includes(key)) {
+            // Placement anchors: inside= takes a container, the sides any item
+            items = [...declarations.values()]
+                .filter(d => key !== 'inside' || d.kind === 'container')
+                .map(d => ({ label: d.id, kind: 'id' as const, insertText: d.id, detail: d.label }));
+        } else {
+            const spec = keyToken && attributeSpec(context[0]?.text, context, keyToken.text);
+            if (spec) items = valueCompletions(spec);
+        }
+        triggered = true;
+    } else if (context.length === 0) {
+        // Start of a statement: a keyword, or a node id starting a connection
+        items = [
+            ...KEYWORDS,
+            ...nodeIds.map(d => ({ label: d.id, kind: 'id' as const, insertText: d.id, detail: d.label })),
+        ];
+    } else if (previous?.kind === 'arrow' && context.length === 2) {
+        // Connection target
+        items = nodeIds.map(d => ({ label: d.id, kind: 'id' as const, insertText: d.id, detail: d.label }));
+        triggered = true;
+    } else if (context.length === 1 && context[0].text === 'layout') {
+        items = getLayoutStrategies().map(s => ({ label: s, kind: 'value' as const, insertText: s }));
+        triggered = true;
+    } else if (context.length === 1 && context[0].kind === 'word' && !['node', 'container', 'title'].includes(context[0].text)) {
+        // After a connection source only an arrow can follow
+        return null;
+    } else if (headerComplete(context)) {
+        // Attribute key; keys already on the line are not offered again
+        const schema = schemaFor(context[0].text, context);
+        if (schema) {
+            const used = new Set(context.filter((_, i) => context[i + 1]?.kind === 'equals').map(t => t.text.toLowerCase()));
+            items = [
+                ...Object.keys(schema).map(key => ({ label: key, kind: 'attribute' as const, insertText: `${key}=`, detail: describeSpec(schema[key]) })),
+                CLASS_ATTRIBUTE,
+                ...(context[0].text === 'container' ? [DEFAULT_CLASS_ATTRIBUTE] : []),
+            ].filter(item => !used.has(item.label.toLowerCase()));
+        }
+    }
+
+    if (!triggered && !explicit) return null;
+
+    const lowered = prefix.toLowerCase();
+    const ranked = [
+        ...items.filter(item => item.label.toLowerCase().startsWith(lowered)),
+        ...items.filter(item => !item.label.toLowerCase().startsWith(lowered) && item.label.toLowerCase().includes(lowered)),
+    ].slice(0, MAX_COMPLETIONS);
+
+    // Nothing left to complete once the word is typed out in full
+    if (ranked.length === 0 || (ranked.length === 1 && ranked[0].insertText === prefix)) return null;
+    return { from, to: column, items: ranked };
+}
+
+/**
+ * Whether the tokens so far complete a statement's head, so attributes may follow
+ */
+function headerComplete(tokens: Token[]): boolean {
+    const first = tokens[0];
+    if (first?.kind !== 'word') return false;
+    if (first.text === 'node' || first.text === 'container') {
+        return tokens.length >= 4 && tokens[2].kind === 'colon' && tokens[3].kind === 'string';
+    }
+    const arrowIndex = tokens.findIndex(t => t.kind === 'arrow');
+    if (arrowIndex !== 1 || tokens[2]?.kind !== 'word') return false;
+    // `a -> b` or `a -> b: "label"`, then attributes
+    return tokens.length === 3 || (tokens[3].kind === 'colon' ? tokens[4]?.kind === 'string' : true);
+}
+
+function schemaFor(keyword: string | undefined, tokens: Token[]): Record<string, AttributeSpec> | undefined {
+    if (keyword === 'node') return getNodeAttributes();
+    if (keyword === 'container') return getContainerAttributes();
+    if (tokens.some(t => t.kind === 'arrow')) return getLinkAttributes();
+    return undefined;
+}
+
+function attributeSpec(keyword: string | undefined, tokens: Token[], key: string): AttributeSpec | undefined {
+    const schema = schemaFor(keyword, tokens);
+    if (!schema) return undefined;
+    const normalized = key.replace(/-/g, '').toLowerCase();
+    const match = Object.keys(schema).find(k => k.toLowerCase() === normalized);
+    return match ? schema[match] : undefined;
+}
+
+function valueCompletions(spec: AttributeSpec): CompletionItem[] {
+    switch (spec.kind) {
+        case 'enum':
+            return spec.values.map(v => ({ label: v, kind: 'value' as const, insertText: v }));
+        case 'boolean':
+            return ['true', 'false'].map(v => ({ label: v, kind: 'value' as const, insertText: v }));
+        case 'icon':
+            return getAvailableIcons().map(name => ({ label: name, kind: 'icon' as const, insertText: name }));
+        default:
+            return [];
+    }
+}
+
+function describeSpec(spec: AttributeSpec): string {
+    switch (spec.kind) {
+        case 'number':
+            if (spec.min !== undefined && spec.max !== undefined) return `number ${spec.min}–${spec.max}`;
+            return spec.min !== undefined ? `number ≥ ${spec.min}` : 'number';
+        case 'enum':
+            return spec.values.join(' | ');
+        case 'string':
+            return spec.hint || 'text';
+        default:
+            return spec.kind;
+    }
+}
@@ -0,0 +1,376 @@
+/**
+ * CubeGen DSL Macro Expansion
+ * Expands imports, `for` loops and `component` instances into plain nodes, containers and connections
+ *
+ *   import "shared/networking.cgd" [as net]
+ *   for i in 1..3 { node worker{i}: "Worker {i}" x={i*200} y=300 }
+ *   component webTier(name, az) { container {name}: "Web {az}" ... { node {name}-lb: "LB" ... } }
+ *   use webTier(web1, "us-east-1a")
+ *
+ * Placeholders are a loop variable or parameter (`{name}`) or integer arithmetic over them
+ * (`{i*200+50}`). Ids are exactly the template with its placeholders filled in, so
+ * `worker{i}` always expands to worker1, worker2, ... Placeholders in ids, endpoints and
+ * unquoted values must resolve; in labels and quoted values unknown ones are kept as text.
+ *
+ * Ids declared in an imported file are namespaced by the file name (or the `as` name):
+ * `vpc` in networking.cgd becomes networking.vpc, for that file's own references too.
+ * Styles, constants and components are shared by all files. Components are expanded into
+ * the namespace of the file that uses them.
+ *
+ * Expanded statements keep the source ranges of the template lines (and the imported file
+ * they are in), so problems in an expansion are reported where the template is written.
+ */
+
+import {
+    parseCubeGenAST,
+    describeLocation,
+    ANCHOR_KEYS,
+    Argument,
+    AttributeNode,
+    ComponentStatement,
+    Identifier,
+    ImportStatement,
+    SourceRange,
+    Statement,
+    StringLiteral,
+} from './cubegenAST';
+
+type Reporter = (range: SourceRange, message: string) => void;
+
+// Placeholder values by name; loop variables hold integers
+type Scope = Map<string, string>;
+
+const PLACEHOLDER = /\{([^{}\s]+)\}/g;
+const VALID_ID = /^\w+(?:[-.]\w+)*$/;
+
+const MAX_LOOP_ITERATIONS = 500;
+const MAX_EXPANDED_STATEMENTS = 5000;
+
+export type ResolvedImport = { path: string; code: string } | { error: string };
+
+/**
+ * Find an imported file. `fromFile` is the importing file's path, undefined for the edited file.
+ */
+export type ImportResolver = (spec: string, fromFile: string | undefined) => ResolvedImport;
+
+export interface ExpandOptions {
+    // Path of the edited file, when it is saved
+    file?: string;
+    resolveImport?: ImportResolver;
+}
+
+// The statements of an imported file, and the namespace its ids are declared in
+interface ImportedFile {
+    statements: Statement[];
+    prefix: string;
+}
+
+/**
+ * Replace imports, loops, component declarations and `use` statements with the statements
+ * they produce. Statements that cannot be expanded are reported and left out.
+ */
+export function expandMacros(statements: Statement[], report: Reporter = () => undefined, options: ExpandOptions = {}): Statement[] {
+    const components = new Map<string, ComponentStatement>();
+    const imports = new Map<ImportStatement, ImportedFile>();
+    const namespaces = new Map<string, ImportStatement>();
+    const loadedFiles = new Set<string>();
+    let budget = MAX_EXPANDED_STATEMENTS;
+
+    // Imported files are read first so their components can be used anywhere
+    const load = (list: Statement[], prefix: string, chain: string[]) => {
+        const visit = (nested: Statement[], topLevel: boolean) => nested.forEach(statement => {
+            if (statement.kind === 'component') {
+                const first = components.get(statement.name.name);
+                if (!topLevel) report(statement.name.range, 'Components must be declared at the top level.');
+                else if (first) report(statement.name.range, `Duplicate component "${statement.name.name}": already declared on ${describeLocation(first.name.range)}.`);
+                else components.set(statement.name.name, statement);
+            }
+            if (statement.kind === 'import') {
+                if (topLevel) loadImport(statement, prefix, chain);
+                else report(statement.range, 'Imports must be at the top level.');
+            }
+            if ('body' in statement) visit(statement.body, false);
+        });
+        visit(list, true);
+    };
+
+    const loadImport = (statement: ImportStatement, prefix: string, chain: string[]) => {
+        const spec = statement.path.value;
+        const resolved = options.resolveImport
+            ? options.resolveImport(spec, statement.range.file ?? options.file)
+            : { error: `Cannot import "${spec}": imports are not available here.` };
+        if ('error' in resolved) {
+            report(statement.path.range, resolved.error);
+            return;
+        }
+        if (chain.includes(resolved.path)) {
+            report(statement.path.range, `Import cycle: ${[...chain, resolved.path].map(fileName).join(' → ')}.`);
+            return;
+        }
+
+        const namespace = statement.alias?.name ?? fileName(resolved.path).replace(/\..*$/, '').replace(/\W+/g, '_');
+        const first = namespaces.get(prefix + namespace);
+        if (first) {
+            report(statement.range, `Namespace "${namespace}" is already imported on ${describeLocation(first.range)}. Name this one with: import "${spec}" as <name>`);
+            return;
+        }
+        namespaces.set(prefix + namespace, statement);
+
+        const document = parseCubeGenAST(resolved.code, resolved.path);
+        document.diagnostics.forEach(d => report(d.range, d.message));
+        // A file imported again adds its ids under the new namespace; its shared definitions are already known
+        const statements = loadedFiles.has(resolved.path)
+            ? document.statements.filter(s => s.kind !== 'let' && s.kind !== 'style' && s.kind !== 'component')
+            : document.statements;
+        loadedFiles.add(resolved.path);
+        const imported: ImportedFile = { statements, prefix: `${prefix}${namespace}.` };
+        imports.set(statement, imported);
+        load(imported.statements, imported.prefix, [...chain, resolved.path]);
+    };
+
+    // `using` lists the components being expanded, outermost first, to catch recursion.
+    // `prefix` is the namespace of the file the statements were written in, or used from.
+    const expand = (list: Statement[], scope: Scope, using: string[], prefix: string): Statement[] => list.flatMap((statement): Statement[] => {
+        const inTemplate = scope.size > 0 || using.length > 0;
+
+        switch (statement.kind) {
+            case 'component':
+                return [];
+
+            case 'import': {
+                const imported = imports.get(statement);
+                return imported ? expand(imported.statements, new Map(), [], imported.prefix) : [];
+            }
+
+            case 'let':
+            case 'style':
+                if (inTemplate) {
+                    report(statement.name.range, `${statement.kind === 'let' ? 'Constants' : 'Styles'} cannot be declared inside a loop or component. Move it to the top level.`);
+                    return [];
+                }
+                return [statement];
+
+            case 'title':
+            case 'layout':
+                // The edited file decides these for the whole diagram
+                return prefix ? [] : [statement];
+            case 'for': {
+                const from = evaluateBound(statement.from, scope, report);
+                const to = evaluateBound(statement.to, scope, report);
+                if (from === null || to === null) return [];
+                if (to < from) {
+                    report(statement.range, `Empty loop range ${from}..${to}: the end must not be less than the start.`);
+                    return [];
+                }
+                if (to - from + 1 > MAX_LOOP_ITERATIONS) {
+                    report(statement.range, `Loop range ${from}..${to} is too large (at most ${MAX_LOOP_ITERATIONS} iterations).`);
+                    return [];
+                }
+                const expanded: Statement[] = [];
+                for (let i = from; i <= to; i++) {
+                    expanded.push(...expand(statement.body, new Map(scope).set(statement.variable.name, String(i)), using, prefix));
+                }
+                return expanded;
+            }
+
+            case 'use': {
+                const name = statement.component.name;
+                const component = components.get(name);
+                if (!component) {
+                    const known = [...components.keys()];
+                    report(statement.component.range, `Unknown component "${name}".${known.length > 0 ? ` Declared components: ${known.join(', ')}` : ''}`);
+                    return [];
+                }
+                if (using.includes(name)) {
+                    report(statement.component.range, `Component "${name}" uses itself: ${[...using, name].join(' → ')}.`);
+                    return [];
+                }
+                const expected = component.parameters.map(p => p.name);
+                if (statement.args.length !== expected.length) {
+                    report(statement.range, `Component "${name}" expects ${expected.length} argument${expected.length === 1 ? '' : 's'} (${expected.join(', ')}) but got ${statement.args.length}.`);
+                    return [];
+                }
+                // Arguments are evaluated where the component is used; its body only sees its parameters
+                const values = statement.args.map(arg => substituteArgument(arg, scope, report));
+                if (values.some(value => value === null)) return [];
+                const componentScope: Scope = new Map(expected.map((parameter, i) => [parameter, values[i]!]));
+                return expand(component.body, componentScope, [...using, name], prefix);
+            }
+
+            case 'node':
+            case 'container':
+            case 'connection': {
+                if (budget-- === 0) {
+                    report(statement.range, `Expansion produces more than ${MAX_EXPANDED_STATEMENTS} statements. Reduce the loop ranges.`);
+                }
+                if (budget < 0) return [];
+
+                const attributes = substituteAttributes(statement.attributes, scope, report);
+                if (statement.kind === 'connection') {
+                    const source = substituteId(statement.source, scope, report);
+                    const target = substituteId(statement.target, scope, report);
+                    if (!source || !target) return [];
+                    return [{
+                        ...statement,
+                        source: { ...source, name: prefix + source.name },
+                        target: { ...target, name: prefix + target.name },
+                        label: statement.label && substituteLabel(statement.label, scope),
+                        attributes,
+                    }];
+                }
+
+                const id = substituteId(statement.id, scope, report);
+                if (id && id.name.includes('.')) {
+                    report(statement.id.range, `Id "${id.name}" cannot contain ".": dots separate the namespaces of imported files.`);
+                }
+                if (!id || id.name.includes('.')) {
+                    // Like any rejected container, its contents stay in the enclosing block
+                    return statement.kind === 'container' ? expand(statement.body, scope, using, prefix) : [];
+                }
+                const declared = { ...id, name: prefix + id.name };
+                const label = substituteLabel(statement.label, scope);
+                const anchored = prefix ? prefixAnchors(attributes, prefix) : attributes;
+                return statement.kind === 'container'
+                    ? [{ ...statement, id: declared, label, attributes: anchored, body: expand(statement.body, scope, using, prefix) }]
+                    : [{ ...statement, id: declared, label, attributes: anchored }];
+            }
+        }
+    });
+
+    load(statements, '', options.file ? [options.file] : []);
+    return expand(statements, new Map(), [], '');
+}
+
+/**
+ * Put the namespace of an imported file onto the ids its placement attributes refer to
+ */
+function prefixAnchors(attributes: AttributeNode[], prefix: string): AttributeNode[] {
+    return attributes.map(attribute => {
+        const key = attribute.key.replace(/-/g, '').toLowerCase();
+        if (ANCHOR_KEYS.includes(key)) return { ...attribute, value: prefix + attribute.value };
+        if (key === 'align') return { ...attribute, value: attribute.value.replace(/-of:/g, `-of:${prefix}`) };
+        return attribute;
+    });
+}
+
+function fileName(path: string): string {
+    return path.split(/[\\/]/).pop() ?? path;
+}
+
+// ============================================
+// SUBSTITUTION
+// ============================================
+
+/**
+ * Fill in every placeholder of a text. Strict substitution reports the first placeholder
+ * that does not resolve and gives up; lenient substitution keeps it as written.
+ */
+function substitute(text: string, scope: Scope, strict: true, range: SourceRange, report: Reporter): string | null;
+function substitute(text: string, scope: Scope, strict: false): string;
+function substitute(text: string, scope: Scope, strict: boolean, range?: SourceRange, report?: Reporter): string | null {
+    if (!text.includes('{')) return text;
+
+    let failed = false;
+    const result = text.replace(PLACEHOLDER, (placeholder, expression: string) => {
+        if (failed) return placeholder;
+        const evaluated = evaluatePlaceholder(expression, scope);
+        if (evaluated.error === undefined) return evaluated.value!;
+        if (strict) {
+            report!(range!, evaluated.error);
+            failed = true;
+        }
+        return placeholder;
+    });
+
+    return failed ? null : result;
+}
+
+function substituteId(id: Identifier, scope: Scope, report: Reporter): Identifier | null {
+    const name = substitute(id.name, scope, true, id.range, report);
+    if (name === null) return null;
+    if (!VALID_ID.test(name)) {
+        report(id.range, `"${id.name}" expands to "${name}", which is not a valid id. Ids are letters, digits and underscores, joined by single dashes.`);
+        return null;
+    }
+    return { ...id, name };
+}
+
+function substituteLabel(label: StringLiteral, scope: Scope): StringLiteral {
+    return { ...label, value: substitute(label.value, scope, false) };
+}
+
+function substituteAttributes(attributes: AttributeNode[], scope: Scope, report: Reporter): AttributeNode[] {
+    return attributes.flatMap(attribute => {
+        if (attribute.quoted) return [{ ...attribute, value: substitute(attribute.value, scope, false) }];
+        const value = substitute(attribute.value, scope, true, attribute.valueRange, report);
+        return value === null ? [] : [{ ...attribute, value }];
+    });
+}
+
+function substituteArgument(arg: Argument, scope: Scope, report: Reporter): string | null {
+    return arg.quoted ? substitute(arg.value, scope, false) : substitute(arg.value, scope, true, arg.range, report);
+}
+
+/**
+ * A loop bound: an integer, or a placeholder that evaluates to one
+ */
+function evaluateBound(bound: Identifier, scope: Scope, report: Reporter): number | null {
+    const text = substitute(bound.name, scope, true, bound.range, report);
+    if (text === null) return null;
+    if (!/^-?\d+$/.test(text)) {
+        report(bound.range, `Loop bound "${bound.name}" must be a whole number${text !== bound.name ? ` (it is "${text}")` : ''}.`);
+        return null;
+    }
+    return Number(text);
+}
+
+/**
+ * Evaluate the inside of a placeholder: a name, or `+ - * / %` over names and integers
+ * (`*`, `/` and `%` bind tighter; `/` rounds down).
+ */
+function evaluatePlaceholder(expression: string, scope: Scope): { value?: string; error?: string } {
+    if (scope.has(expression)) return { value: scope.get(expression)! };
+
+    const invalid = { error: `Invalid placeholder "{${expression}}". Use a name, or + - * / % over names and whole numbers.` };
+    const parts = expression.match(/[A-Za-z_]\w*|\d+|[+\-*/%]/g) ?? [];
+    if (parts.join('') !== expression) return invalid;
+
+    let total = 0;
+    let term = 1;
+    let operator = '*';
+    let sign = 1;
+    let expectOperand = true;
+
+    for (const part of parts) {
+        if (expectOperand) {
+            if (part === '-') { sign = -sign; continue; }
+            let operand: number;
+            if (/^\d+$/.test(part)) {
+                operand = Number(part);
+            } else if (/^[A-Za-z_]/.test(part)) {
+                if (!scope.has(part)) return { error: `Unknown placeholder "{${part}}".${scope.size > 0 ? ` Available here: ${[...scope.keys()].join(', ')}` : ''}` };
+                operand = Number(scope.get(part));
+                if (!Number.isInteger(operand)) return { error: `Placeholder "${part}" is "${scope.get(part)}", not a whole number, so it cannot be used in arithmetic.` };
+            } else {
+                return invalid;
+            }
+            operand *= sign;
+            sign = 1;
+            if (operator === '*') term *= operand;
+            else if (operand === 0) return { error: `Division by zero in "{${expression}}".` };
+            else term = operator === '/' ? Math.floor(term / operand) : term % operand;
+            expectOperand = false;
+        } else if (part === '+' || part === '-') {
+            total += term;
+            term = 1;
+            operator = '*';
+            sign = part === '-' ? -1 : 1;
+            expectOperand = true;
+        } else {
+            operator = part;
+            expectOperand = true;
+        }
+    }
+
+    return expectOperand ? invalid : { value: String(total + term) };
+}
@@ -0,0 +1,290 @@
+/**
+ * CubeGen DSL Placement Constraints
+ * Positions nodes and containers relative to each other instead of by absolute x/y
+ *
+ *   node api: "API" right-of=lb gap=80              right of lb, 80 apart, vertically centered on it
+ *   node db: "DB" below=api                         below api (default gap 60), horizontally centered on it
+ *   node cache: "Cache" below=lb align=center-of:gateway
+ *   node nat: "NAT" inside=subnet1 at=top-left      in a corner of subnet1 (gap= sets the padding)
+ *
+ * Each axis is set by at most one of: the explicit coordinate, a side (right-of/left-of or
+ * below/above) or an align edge. An axis left unset follows inside=, and otherwise is
+ * centered on the right-of/left-of/below/above anchor.
+ *
+ * Placements are resolved after parsing, so moving an anchor moves everything placed
+ * relative to it. Anchors may be auto-laid out nodes: those placements are resolved after
+ * the layout pass (containers cannot wait for it, since layout needs their geometry).
+ */
+
+import { SourceRange } from './cubegenAST';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const ALIGN_EDGES = ['center', 'middle', 'left', 'right', 'top', 'bottom'] as const;
+export type AlignEdge = typeof ALIGN_EDGES[number];
+
+export const INSIDE_POSITIONS = [
+    'top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right',
+] as const;
+export type InsidePosition = typeof INSIDE_POSITIONS[number];
+
+export interface Anchor {
+    id: string;
+    // Where the anchor is written, for problems with it
+    range: SourceRange;
+}
+
+export interface AlignAnchor extends Anchor {
+    edge: AlignEdge;
+}
+
+export interface Placement {
+    rightOf?: Anchor;
+    leftOf?: Anchor;
+    below?: Anchor;
+    above?: Anchor;
+    align: AlignAnchor[];
+    inside?: Anchor;
+    at?: InsidePosition;
+    gap?: number;
+    // The first placement attribute, where problems with the placement as a whole are reported
+    range: SourceRange;
+}
+
+/** Top-left corner and size, whatever the item's own coordinate convention */
+export interface Box {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+export interface PlacedItem {
+    id: string;
+    kind: 'node' | 'container';
+    // Explicit coordinates: a node's center, a container's top-left corner
+    x?: number;
+    y?: number;
+    width: number;
+    height: number;
+    placement?: Placement;
+}
+
+type Reporter = (range: SourceRange, message: string) => void;
+
+const DEFAULT_GAP = 60;
+const INSIDE_PADDING = 20;
+// Keeps top-aligned items clear of the container's title
+const CONTAINER_LABEL_SPACE = 30;
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Report placements that cannot be resolved: anchors on the item itself or of the wrong kind,
+ * axes set twice or not at all, cycles, and containers depending on auto-laid nodes.
+ * Anchor ids must already be known to exist. Returns the ids whose placement is invalid.
+ */
+export function checkPlacements(items: PlacedItem[], report: Reporter): Set<string> {
+    const byId = new Map(items.map(item => [item.id, item]));
+    const invalid = new Set<string>();
+    const fail = (item: PlacedItem, range: SourceRange, message: string) => {
+        report(range, message);
+        invalid.add(item.id);
+    };
+
+    items.forEach(item => {
+        const placement = item.placement;
+        if (!placement) return;
+
+        anchorsOf(placement).forEach(anchor => {
+            if (anchor.id === item.id) fail(item, anchor.range, `"${item.id}" cannot be placed relative to itself.`);
+        });
+        if (placement.inside && byId.get(placement.inside.id)?.kind !== 'container') {
+            fail(item, placement.inside.range, `inside= must name a container; "${placement.inside.id}" is a node.`);
+        }
+        if (placement.at && !placement.inside) {
+            fail(item, placement.range, 'at= positions an item inside a container: add inside=<container>.');
+        }
+
+        (['horizontal', 'vertical'] as const).forEach(axis => {
+            const { setters, fallback } = axisSources(item, axis);
+            if (setters.length > 1) {
+                fail(item, placement.range, `The ${axis} position of "${item.id}" is set by both ${setters[0]} and ${setters[1]}. Keep one.`);
+            } else if (setters.length === 0 && !fallback) {
+                const options = axis === 'horizontal'
+                    ? 'x=, right-of=, left-of=, below=, above=, inside= or align=center-of:<id>'
+                    : 'y=, below=, above=, right-of=, left-of=, inside= or align=middle-of:<id>';
+                fail(item, placement.range, `"${item.id}" has no ${axis} position. Add one of ${options}.`);
+            }
+        });
+    });
+
+    // Cycles: each item depends on its anchors
+    const state = new Map<string, 'visiting' | 'done'>();
+    const visit = (item: PlacedItem, path: string[]) => {
+        state.set(item.id, 'visiting');
+        anchorsOf(item.placement!).forEach(anchor => {
+            const target = byId.get(anchor.id);
+            if (!target?.placement || invalid.has(target.id) || target === item) return;
+            if (state.get(target.id) === 'visiting') {
+                const cycle = [...path.slice(path.indexOf(target.id)), target.id];
+                fail(item, anchor.range, `Placement cycle: ${cycle.join(' → ')}.`);
+            } else if (!state.has(target.id)) {
+                visit(target, [...path, target.id]);
+            }
+        });
+        state.set(item.id, 'done');
+    };
+    items.forEach(item => {
+        if (item.placement && !invalid.has(item.id) && !state.has(item.id)) visit(item, [item.id]);
+    });
+
+    // Containers are placed before layout, so their anchors must not wait for it
+    const floating = new Map<string, boolean>();
+    const isFloating = (item: PlacedItem): boolean => {
+        if (floating.has(item.id)) return floating.get(item.id)!;
+        floating.set(item.id, false);
+        const result = item.placement && !invalid.has(item.id)
+            ? anchorsOf(item.placement).some(anchor => byId.has(anchor.id) && isFloating(byId.get(anchor.id)!))
+            : item.x === undefined || item.y === undefined;
+        floating.set(item.id, result);
+        return result;
+    };
+    items.forEach(item => {
+        if (item.kind !== 'container' || !item.placement || invalid.has(item.id)) return;
+        const anchor = anchorsOf(item.placement).find(a => byId.has(a.id) && isFloating(byId.get(a.id)!));
+        if (anchor) {
+            fail(item, anchor.range, `Container "${item.id}" cannot be placed relative to "${anchor.id}", which is auto-laid out. Give "${anchor.id}" coordinates or a placement.`);
+        }
+    });
+
+    return invalid;
+}
+
+function anchorsOf(placement: Placement): Anchor[] {
+    return [placement.rightOf, placement.leftOf, placement.below, placement.above, placement.inside, ...placement.align]
+        .filter((anchor): anchor is Anchor => anchor !== undefined);
+}
+
+/**
+ * What sets one axis: explicit setters (at most one is allowed), or a fallback
+ */
+function axisSources(item: PlacedItem, axis: 'horizontal' | 'vertical'): { setters: string[]; fallback: boolean } {
+    const placement = item.placement!;
+    const horizontal = axis === 'horizontal';
+    const setters: string[] = [];
+
+    if ((horizontal ? item.x : item.y) !== undefined) setters.push(horizontal ? 'x=' : 'y=');
+    if (horizontal) {
+        if (placement.rightOf) setters.push('right-of=');
+        if (placement.leftOf) setters.push('left-of=');
+    } else {
+        if (placement.below) setters.push('below=');
+        if (placement.above) setters.push('above=');
+    }
+    const axisEdges: AlignEdge[] = horizontal ? ['center', 'left', 'right'] : ['middle', 'top', 'bottom'];
+    placement.align.filter(a => axisEdges.includes(a.edge)).forEach(a => setters.push(`align=${a.edge}-of:`));
+
+    const centeredBy = horizontal ? placement.below ?? placement.above : placement.rightOf ?? placement.leftOf;
+    return { setters, fallback: !!placement.inside || !!centeredBy };
+}
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+/**
+ * Place every item whose anchors have boxes, repeating until nothing more can be placed.
+ * Returns `known` extended with the boxes of the newly placed items.
+ */
+export function resolvePlacements(items: PlacedItem[], known: Map<string, Box>): Map<string, Box> {
+    const boxes = new Map(known);
+    let pending = items.filter(item => item.placement && !boxes.has(item.id));
+
+    let progress = true;
+    while (progress && pending.length > 0) {
+        progress = false;
+        pending = pending.filter(item => {
+            if (!anchorsOf(item.placement!).every(anchor => boxes.has(anchor.id))) return true;
+            boxes.set(item.id, place(item, boxes));
+            progress = true;
+            return false;
+        });
+    }
+
+    return boxes;
+}
+
+function place(item: PlacedItem, boxes: Map<string, Box>): Box {
+    const placement = item.placement!;
+    const { width, height } = item;
+    const gap = placement.gap ?? DEFAULT_GAP;
+    const box = (anchor: Anchor) => boxes.get(anchor.id)!;
+
+    const explicit = boxOf({ ...item, x: item.x ?? 0, y: item.y ?? 0 });
+    let left = item.x !== undefined ? explicit.left : undefined;
+    let top = item.y !== undefined ? explicit.top : undefined;
+
+    if (placement.rightOf) left = box(placement.rightOf).left + box(placement.rightOf).width + gap;
+    if (placement.leftOf) left = box(placement.leftOf).left - gap - width;
+    if (placement.below) top = box(placement.below).top + box(placement.below).height + gap;
+    if (placement.above) top = box(placement.above).top - gap - height;
+
+    placement.align.forEach(anchor => {
+        const target = box(anchor);
+        switch (anchor.edge) {
+            case 'center': left = target.left + (target.width - width) / 2; break;
+            case 'left': left = target.left; break;
+            case 'right': left = target.left + target.width - width; break;
+            case 'middle': top = target.top + (target.height - height) / 2; break;
+            case 'top': top = target.top; break;
+            case 'bottom': top = target.top + target.height - height; break;
+        }
+    });
+
+    if (placement.inside) {
+        const container = box(placement.inside);
+        const padding = placement.gap ?? INSIDE_PADDING;
+        const position = placement.at ?? 'center';
+        if (left === undefined) {
+            left = position.endsWith('left') ? container.left + padding
+                : position.endsWith('right') ? container.left + container.width - padding - width
+                    : container.left + (container.width - width) / 2;
+        }
+        if (top === undefined) {
+            top = position.startsWith('top') ? container.top + CONTAINER_LABEL_SPACE + padding
+                : position.startsWith('bottom') ? container.top + container.height - padding - height
+                    : container.top + (container.height - height) / 2;
+        }
+    }
+
+    // Centered on the side anchor along the other axis
+    const vertical = placement.below ?? placement.above;
+    if (left === undefined && vertical) left = box(vertical).left + (box(vertical).width - width) / 2;
+    const horizontal = placement.rightOf ?? placement.leftOf;
+    if (top === undefined && horizontal) top = box(horizontal).top + (box(horizontal).height - height) / 2;
+
+    return { left: Math.round(left ?? 0), top: Math.round(top ?? 0), width, height };
+}
+
+/**
+ * The box of an item at its coordinates
+ */
+export function boxOf(item: { kind: 'node' | 'container'; x: number; y: number; width: number; height: number }): Box {
+    return item.kind === 'node'
+        ? { left: item.x - item.width / 2, top: item.y - item.height / 2, width: item.width, height: item.height }
+        : { left: item.x, top: item.y, width: item.width, height: item.height };
+}
+
+/**
+ * The coordinates that put an item at a box
+ */
+export function positionOf(box: Box, kind: 'node' | 'container'): { x: number; y: number } {
+    return kind === 'node'
+        ? { x: Math.round(box.left + box.width / 2), y: Math.round(box.top + box.height / 2) }
+        : { x: box.left, y: box.top };
+}
@@ -0,0 +1,250 @@
+/**
+ * CubeGen DSL Serializer
+ * Turns DiagramData back into CubeGen DSL code, the inverse of parseCubeGenDSL
+ *
+ * Output order is stable so repeated syncs produce small diffs:
+ *   title, containers (nested, in declaration order) with their nodes,
+ *   root-level nodes, then connections. Attributes follow the schema order.
+ */
+
+import { DiagramData, ArchNode, Link, Container, IconType } from '../types';
+import {
+    AttributeSpec,
+    DEFAULT_NODE_WIDTH,
+    DEFAULT_NODE_HEIGHT,
+    getNodeAttributes,
+    getLinkAttributes,
+    getContainerAttributes,
+    isDslColor,
+} from './cubegenDSL';
+import { parseCubeGenAST, Statement } from './cubegenAST';
+
+const INDENT = '    ';
+
+// Ids the DSL can reference directly
+const VALID_ID = /^\w+(?:-\w+)*$/;
+
+// Ids that would be read as a keyword at the start of a connection line
+const RESERVED_IDS = new Set(['node', 'container']);
+
+// Fields written explicitly before the generic attribute list
+const NODE_GEOMETRY = ['icon', 'x', 'y', 'width', 'height'];
+const CONTAINER_GEOMETRY = ['type', 'x', 'y', 'width', 'height'];
+
+const ICON_VALUES = new Set<string>(Object.values(IconType));
+
+// CSS color names imports commonly carry; the DSL only reads hex, rgb()/hsl() and transparent
+const NAMED_COLORS: Record<string, string> = {
+    black: '#000000', white: '#FFFFFF', gray: '#808080', grey: '#808080', silver: '#C0C0C0',
+    lightgray: '#D3D3D3', lightgrey: '#D3D3D3', darkgray: '#A9A9A9', darkgrey: '#A9A9A9',
+    red: '#FF0000', darkred: '#8B0000', maroon: '#800000', crimson: '#DC143C', pink: '#FFC0CB',
+    orange: '#FFA500', darkorange: '#FF8C00', gold: '#FFD700', yellow: '#FFFF00',
+    green: '#008000', darkgreen: '#006400', lime: '#00FF00', lightgreen: '#90EE90', olive: '#808000', teal: '#008080',
+    blue: '#0000FF', darkblue: '#00008B', navy: '#000080', lightblue: '#ADD8E6', skyblue: '#87CEEB', steelblue: '#4682B4',
+    cyan: '#00FFFF', aqua: '#00FFFF', purple: '#800080', violet: '#EE82EE', magenta: '#FF00FF', fuchsia: '#FF00FF',
+    indigo: '#4B0082', brown: '#A52A2A', beige: '#F5F5DC', tan: '#D2B48C', coral: '#FF7F50', salmon: '#FA8072',
+};
+
+/**
+ * Serialize a diagram to CubeGen DSL code
+ */
+export function serializeToCubeGenDSL(data: DiagramData): string {
+    const ids = createIdMapper([...data.nodes.map(n => n.id), ...(data.containers || []).map(c => c.id)]);
+    const containers = data.containers || [];
+    const containersById = new Map(containers.map(c => [c.id, c]));
+
+    // Resolve each container's parent, from either side of the relationship
+    const parentOf = new Map<string, string>();
+    containers.forEach(c => {
+        if (c.parentContainerId && containersById.has(c.parentContainerId)) parentOf.set(c.id, c.parentContainerId);
+    });
+    containers.forEach(c => {
+        (c.childContainerIds || []).forEach(childId => {
+            if (containersById.has(childId) && !parentOf.has(childId)) parentOf.set(childId, c.id);
+        });
+    });
+    breakParentCycles(parentOf);
+
+    // A node listed by several containers belongs to the most deeply nested one
+    const depth = (id: string): number => parentOf.has(id) ? depth(parentOf.get(id)!) + 1 : 0;
+    const nodeOwner = new Map<string, string>();
+    containers.forEach(c => {
+        c.childNodeIds.forEach(nodeId => {
+            const owner = nodeOwner.get(nodeId);
+            if (!owner || depth(c.id) > depth(owner)) nodeOwner.set(nodeId, c.id);
+        });
+    });
+
+    const out: string[] = [];
+    out.push(`title ${quote(data.title || 'CubeGen Diagram')}`);
+
+    const writeContainer = (container: Container, level: number) => {
+        const pad = INDENT.repeat(level);
+        const childContainers = containers.filter(c => parentOf.get(c.id) === container.id);
+        const childNodes = data.nodes.filter(n => nodeOwner.get(n.id) === container.id);
+        const header = `${pad}container ${ids(container.id)}: ${quote(container.label || container.id)} ${containerAttributes(container)}`;
+
+        if (childContainers.length === 0 && childNodes.length === 0) {
+            out.push(header);
+            return;
+        }
+
+        out.push(`${header} {`);
+        childContainers.forEach(child => writeContainer(child, level + 1));
+        childNodes.forEach(node => out.push(`${INDENT.repeat(level + 1)}${nodeLine(node, ids)}`));
+        out.push(`${pad}}`);
+    };
+
+    const rootContainers = containers.filter(c => !parentOf.has(c.id));
+    if (rootContainers.length > 0) out.push('');
+    rootContainers.forEach(container => writeContainer(container, 0));
+
+    const rootNodes = data.nodes.filter(n => !nodeOwner.has(n.id));
+    if (rootNodes.length > 0) out.push('');
+    rootNodes.forEach(node => out.push(nodeLine(node, ids)));
+
+    if (data.links.length > 0) out.push('');
+    data.links.forEach(link => out.push(connectionLine(link, ids)));
+
+    return out.join('\n') + '\n';
+}
+
+/**
+ * What serializing would flatten in existing DSL code: the keywords of its constants,
+ * styles, loops, components and imports, which only survive as the items they expand to
+ */
+export function findExpandedConstructs(code: string): string[] {
+    const found = new Set<string>();
+    const visit = (statements: Statement[]) => {
+        statements.forEach(statement => {
+            if (['let', 'style', 'for', 'component', 'use', 'import'].includes(statement.kind)) found.add(statement.kind);
+            if ((statement.kind === 'node' || statement.kind === 'container' || statement.kind === 'connection')
+                && statement.attributes.some(a => ['class', 'defaultclass'].includes(a.key.toLowerCase()))) {
+                found.add('class');
+            }
+            if ('body' in statement) visit(statement.body);
+        });
+    };
+    visit(parseCubeGenAST(code).statements);
+    return ['import', 'let', 'style', 'class', 'for', 'component', 'use'].filter(keyword => found.has(keyword));
+}
+
+// ─── Line writers ────────────────────────────────────────────────────
+
+function nodeLine(node: ArchNode, ids: (id: string) => string): string {
+    const parts = [`node ${ids(node.id)}: ${quote(node.label || node.id)}`];
+
+    if (ICON_VALUES.has(node.type) && node.type !== IconType.Generic) {
+        const iconName = Object.entries(IconType).find(([, value]) => value === node.type)![0];
+        parts.push(`icon=${iconName}`);
+    }
+    parts.push(`x=${Math.round(node.x)}`, `y=${Math.round(node.y)}`);
+    if (node.width && Math.round(node.width) !== DEFAULT_NODE_WIDTH) parts.push(`width=${Math.round(node.width)}`);
+    if (node.height && Math.round(node.height) !== DEFAULT_NODE_HEIGHT) parts.push(`height=${Math.round(node.height)}`);
+
+    parts.push(...styleAttributes(node, getNodeAttributes(), NODE_GEOMETRY));
+    return parts.join(' ');
+}
+
+function containerAttributes(container: Container): string {
+    const parts = [
+        `type=${container.type}`,
+        `x=${Math.round(container.x)}`,
+        `y=${Math.round(container.y)}`,
+        `width=${Math.round(container.width)}`,
+        `height=${Math.round(container.height)}`,
+    ];
+    parts.push(...styleAttributes(container, getContainerAttributes(), CONTAINER_GEOMETRY));
+    return parts.join(' ');
+}
+
+function connectionLine(link: Link, ids: (id: string) => string): string {
+    const source = ids(typeof link.source === 'string' ? link.source : link.source.id);
+    const target = ids(typeof link.target === 'string' ? link.target : link.target.id);
+    const arrow = link.bidirectional ? '<->' : '->';
+
+    const parts = [`${source} ${arrow} ${target}${link.label ? `: ${quote(link.label)}` : ''}`];
+    parts.push(...styleAttributes(link, getLinkAttributes(), []));
+    return parts.join(' ');
+}
+
+/**
+ * Emit every set attribute in schema order, skipping fields written elsewhere
+ */
+function styleAttributes(item: object, schema: Record<string, AttributeSpec>, skip: string[]): string[] {
+    const values = item as Record<string, unknown>;
+    return Object.entries(schema)
+        .filter(([key]) => !skip.includes(key))
+        .filter(([key]) => values[key] !== undefined && values[key] !== null && values[key] !== '')
+        .flatMap(([key, spec]) => {
+            const value = formatValue(values[key], spec);
+            return value === undefined ? [] : [`${key}=${value}`];
+        });
+}
+
+/**
+ * The value as DSL source, or undefined when the parser would reject it
+ */
+function formatValue(value: unknown, spec: AttributeSpec): string | undefined {
+    if (spec.kind === 'color') {
+        // Named colors (from draw.io, Mermaid or JSON imports) become hex; other CSS colors are left out
+        const text = String(value).trim();
+        const color = NAMED_COLORS[text.toLowerCase()] ?? text;
+        if (!isDslColor(color)) return undefined;
+        return /^[^\s"]+$/.test(color) ? color : quote(color);
+    }
+    if (spec.kind === 'number') {
+        const num = Number(value);
+        return String(spec.integer ? Math.round(num) : Math.round(num * 100) / 100);
+    }
+    const text = String(value);
+    if (spec.kind === 'string' && !spec.pattern) return quote(text);
+    return /^[^\s"]+$/.test(text) ? text : quote(text);
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function quote(text: string): string {
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, ' ')}"`;
+}
+
+/**
+ * Map diagram ids onto ids the DSL accepts, keeping valid ones unchanged
+ * and making rewritten ones unique.
+ */
+function createIdMapper(allIds: string[]): (id: string) => string {
+    const used = new Set(allIds.filter(id => VALID_ID.test(id) && !RESERVED_IDS.has(id)));
+    const mapping = new Map<string, string>();
+
+    return (id: string) => {
+        if (used.has(id) && !mapping.has(id)) return id;
+        if (mapping.has(id)) return mapping.get(id)!;
+
+        let base = id.replace(/[^\w-]+/g, '_').replace(/-{2,}/g, '-').replace(/^-+|-+$/g, '') || 'item';
+        if (RESERVED_IDS.has(base)) base = `${base}_id`;
+        let candidate = base;
+        for (let n = 2; used.has(candidate); n++) candidate = `${base}_${n}`;
+
+        used.add(candidate);
+        mapping.set(id, candidate);
+        return candidate;
+    };
+}
+
+/**
+ * Drop parent links that would make a container its own ancestor
+ */
+function breakParentCycles(parentOf: Map<string, string>): void {
+    parentOf.forEach((_, start) => {
+        const seen = new Set([start]);
+        let current = parentOf.get(start);
+        while (current) {
+            if (seen.has(current)) {
+                parentOf.delete(start);
+                return;
+            }
+            seen.add(current);
+            current = parentOf.get(current);
+        }
+    });
+}
@@ -0,0 +1,91 @@
+/**
+ * Diagram Import
+ * Turns the contents of an imported file into DiagramData, picking the importer
+ * from the file name and, when that is not conclusive, the contents.
+ */
+
+import { DiagramData } from '../types';
+import { importMermaid, isMermaidSource } from './mermaidImporter';
+import { importDrawio, isDrawioSource } from './drawioConverter';
+import { importTerraform, isTerraformSource } from './terraformImporter';
+import { importDockerCompose, isComposeSource } from './composeImporter';
+import { importKubernetes, isKubernetesSource } from './kubernetesImporter';
+import { importCloudFormation, isCloudFormationSource } from './cloudFormationImporter';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ImportResult {
+    success: boolean;
+    data?: DiagramData;
+    // Why nothing could be imported
+    errors: string[];
+    // Parts of the source that were skipped or approximated
+    warnings: string[];
+}
+
+export type ImportFormat = 'json' | 'mermaid' | 'drawio' | 'terraform' | 'cloudformation' | 'compose' | 'kubernetes';
+
+/** File types offered by the import file picker */
+export const IMPORT_FILE_TYPES = ['.json', '.mmd', '.mermaid', '.md', '.drawio', '.xml', '.tf', '.yml', '.yaml', '.template'];
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+export function detectImportFormat(fileName: string, text: string): ImportFormat | null {
+    const extension = fileName.toLowerCase().split('.').pop();
+    // CloudFormation templates are JSON too
+    if (isCloudFormationSource(text)) return 'cloudformation';
+    if (extension === 'json') return 'json';
+    if (extension === 'mmd' || extension === 'mermaid') return 'mermaid';
+    if (extension === 'drawio' || isDrawioSource(text)) return 'drawio';
+    if (extension === 'tf') return 'terraform';
+    if (isMermaidSource(text)) return 'mermaid';
+    if (isTerraformSource(text)) return 'terraform';
+    // YAML files are told apart by their contents
+    if (isComposeSource(text)) return 'compose';
+    if (isKubernetesSource(text)) return 'kubernetes';
+    if (text.trimStart().startsWith('{')) return 'json';
+    return null;
+}
+
+/**
+ * Import a file's contents as a diagram (asynchronous: draw.io pages may need decompressing)
+ */
+export async function importDiagram(fileName: string, text: string): Promise<ImportResult> {
+    switch (detectImportFormat(fileName, text)) {
+        case 'json':
+            return importJson(text);
+        case 'mermaid':
+            return importMermaid(text);
+        case 'drawio':
+            return importDrawio(text);
+        case 'terraform':
+            return importTerraform(text);
+        case 'cloudformation':
+            return importCloudFormation(text);
+        case 'compose':
+            return importDockerCompose(text);
+        case 'kubernetes':
+            return importKubernetes(text);
+        default:
+            return { success: false, errors: [`"${fileName}" is not a format that can be imported.`], warnings: [] };
+    }
+}
+
+/**
+ * A diagram previously exported as JSON
+ */
+function importJson(text: string): ImportResult {
+    try {
+        const data = JSON.parse(text);
+        if (!data.title || !Array.isArray(data.nodes) || !Array.isArray(data.links)) {
+            return { success: false, errors: ['Invalid diagram format'], warnings: [] };
+        }
+        return { success: true, data, errors: [], warnings: [] };
+    } catch {
+        return { success: false, errors: ['Invalid JSON file'], warnings: [] };
+    }
+}
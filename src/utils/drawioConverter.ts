@@ -0,0 +1,543 @@
+/**
+ * draw.io Converter
+ * Reads and writes draw.io (diagrams.net) files: mxGraph XML, as saved in `.drawio` files.
+ *
+ * - Vertices become ArchNodes: the style picks the NodeShape (AWS resource icons pick the
+ *   icon), fillColor/strokeColor become color/borderColor, dashed becomes the border style.
+ * - Edges become Links: dashed/dotted, orthogonal/elbow/curved routing, stroke color and
+ *   width, and the start/end arrows.
+ * - Groups, containers, swimlanes and AWS group shapes become Containers. Their children
+ *   are positioned relative to them in draw.io and absolutely here.
+ *
+ * Exported files keep the CubeGen icon, shape and container type in extra style keys
+ * (`cubegenType`, `cubegenShape`, `cubegenContainer`) that draw.io carries along, so a
+ * round trip through draw.io restores them.
+ */
+
+import { DiagramData, ArchNode, Link, Container, NodeShape, IconType } from '../types';
+import type { ImportResult } from './diagramImport';
+
+// ============================================
+// TYPES
+// ============================================
+
+type Style = Map<string, string>;
+
+interface Cell {
+    id: string;
+    value: string;
+    style: Style;
+    parent?: string;
+    vertex: boolean;
+    edge: boolean;
+    source?: string;
+    target?: string;
+    geometry: { x: number; y: number; width: number; height: number };
+}
+
+// draw.io shapes by style key (`shape=...`) or leading style name (`ellipse;...`)
+const SHAPES: Record<string, NodeShape> = {
+    ellipse: 'ellipse',
+    rhombus: 'diamond',
+    triangle: 'triangle',
+    hexagon: 'hexagon',
+    cylinder: 'cylinder',
+    cylinder3: 'cylinder',
+    datastore: 'cylinder',
+    cloud: 'cloud',
+    document: 'document',
+    folder: 'folder',
+    umlActor: 'actor',
+    component: 'component',
+    process: 'component',
+    parallelogram: 'parallelogram',
+    step: 'step',
+    tape: 'tape',
+    'mxgraph.basic.pentagon': 'pentagon',
+    'mxgraph.basic.octagon2': 'octagon',
+    'mxgraph.flowchart.database': 'cylinder',
+    'mxgraph.flowchart.stored_data': 'storage',
+    'mxgraph.flowchart.document': 'document',
+};
+
+// Style written for each NodeShape on export
+const SHAPE_STYLES: Record<NodeShape, string> = {
+    rectangle: 'rounded=0;',
+    'rounded-rectangle': 'rounded=1;',
+    ellipse: 'ellipse;',
+    circle: 'ellipse;aspect=fixed;',
+    diamond: 'rhombus;',
+    triangle: 'triangle;',
+    hexagon: 'shape=hexagon;perimeter=hexagonPerimeter2;',
+    cylinder: 'shape=cylinder3;boundedLbl=1;backgroundOutline=1;size=15;',
+    cloud: 'ellipse;shape=cloud;',
+    document: 'shape=document;boundedLbl=1;',
+    folder: 'shape=folder;tabWidth=40;tabHeight=14;tabPosition=left;',
+    actor: 'shape=umlActor;verticalLabelPosition=bottom;verticalAlign=top;',
+    component: 'shape=component;align=left;spacingLeft=36;',
+    storage: 'shape=mxgraph.flowchart.stored_data;',
+    queue: 'shape=cylinder3;direction=south;boundedLbl=1;size=15;',
+    pentagon: 'shape=mxgraph.basic.pentagon;',
+    octagon: 'shape=mxgraph.basic.octagon2;',
+    parallelogram: 'shape=parallelogram;perimeter=parallelogramPerimeter;fixedSize=1;',
+    step: 'shape=step;perimeter=stepPerimeter;fixedSize=1;',
+    tape: 'shape=tape;',
+};
+
+const SHAPE_NAMES = Object.keys(SHAPE_STYLES) as NodeShape[];
+
+// AWS resource icons (resIcon=mxgraph.aws4.<name>) with a CubeGen equivalent
+const AWS_ICONS: Record<string, IconType> = {
+    ec2: IconType.AwsEc2,
+    instance2: IconType.AwsEc2,
+    s3: IconType.AwsS3,
+    simple_storage_service: IconType.AwsS3,
+    rds: IconType.AwsRds,
+    lambda: IconType.AwsLambda,
+    lambda_function: IconType.AwsLambda,
+    api_gateway: IconType.AwsApiGateway,
+    elastic_load_balancing: IconType.AwsLoadBalancer,
+    application_load_balancer: IconType.AwsLoadBalancer,
+    cloudfront: IconType.AwsCloudfront,
+    ecs: IconType.AwsEcs,
+    dynamodb: IconType.AwsDynamoDb,
+    sns: IconType.AwsSns,
+    simple_notification_service: IconType.AwsSns,
+    sqs: IconType.AwsSqs,
+    simple_queue_service: IconType.AwsSqs,
+    eventbridge: IconType.AwsEventbridge,
+    cloudwatch: IconType.AwsCloudwatch,
+    cloudwatch_2: IconType.AwsCloudwatch,
+};
+
+// AWS group shapes (grIcon=mxgraph.aws4.<name>) and the container types they stand for
+const AWS_GROUPS: Record<string, Container['type']> = {
+    group_region: 'region',
+    group_availability_zone: 'availability-zone',
+    group_vpc: 'vpc',
+    group_vpc2: 'vpc',
+    group_security_group: 'security-group',
+    group_subnet: 'subnet',
+    group_public_subnet: 'subnet',
+    group_private_subnet: 'subnet',
+};
+
+const CONTAINER_TYPES: Container['type'][] = [
+    'region', 'availability-zone', 'tier', 'vpc', 'subnet', 'security-group', 'group', 'rectangle', 'circle', 'triangle',
+];
+
+const DEFAULT_EDGE_STROKE = 1;
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Import the first page of a draw.io file
+ */
+export async function importDrawio(xml: string): Promise<ImportResult> {
+    const warnings: string[] = [];
+    const fail = (message: string): ImportResult => ({ success: false, errors: [message], warnings });
+
+    const document = new DOMParser().parseFromString(xml, 'text/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) return fail('The file is not valid XML.');
+
+    const pages = Array.from(document.getElementsByTagName('diagram'));
+    if (pages.length > 1) warnings.push(`The file has ${pages.length} pages; imported "${pages[0].getAttribute('name') ?? 'the first one'}".`);
+
+    let model = document.getElementsByTagName('mxGraphModel')[0];
+    if (pages.length > 0 && !pages[0].getElementsByTagName('mxGraphModel')[0]) {
+        // Compressed page: deflated, base64-encoded, URI-encoded XML
+        try {
+            const inflated = await inflatePage(pages[0].textContent?.trim() ?? '');
+            model = new DOMParser().parseFromString(inflated, 'text/xml').getElementsByTagName('mxGraphModel')[0];
+        } catch (err) {
+            console.warn('[drawio] Failed to decompress page:', err);
+            return fail('The draw.io page could not be decompressed.');
+        }
+    } else if (pages.length > 0) {
+        model = pages[0].getElementsByTagName('mxGraphModel')[0];
+    }
+    if (!model) return fail('No draw.io diagram found in the file.');
+
+    const cells = Array.from(model.getElementsByTagName('mxCell')).map(readCell);
+    const byId = new Map(cells.map(c => [c.id, c]));
+
+    // Cells with vertex children are groups, whatever their style
+    const parents = new Set(cells.filter(c => c.vertex && c.parent && !byId.get(c.parent)?.edge).map(c => c.parent!));
+    const isContainer = (cell: Cell) => cell.vertex && (
+        parents.has(cell.id) || cell.style.has('group') || cell.style.get('container') === '1' ||
+        cell.style.has('swimlane') || cell.style.has('cubegenContainer') || (cell.style.get('grIcon') ?? '') in awsGroupNames()
+    );
+
+    // draw.io positions children relative to their parent vertex
+    const origin = (cell: Cell): { x: number; y: number } => {
+        const parent = cell.parent ? byId.get(cell.parent) : undefined;
+        if (!parent?.vertex) return { x: 0, y: 0 };
+        const base = origin(parent);
+        return { x: base.x + parent.geometry.x, y: base.y + parent.geometry.y };
+    };
+    const containerOf = (cell: Cell): string | undefined => {
+        for (let parent = cell.parent ? byId.get(cell.parent) : undefined; parent; parent = parent.parent ? byId.get(parent.parent) : undefined) {
+            if (isContainer(parent)) return parent.id;
+        }
+        return undefined;
+    };
+
+    const containers: Container[] = [];
+    const nodes: ArchNode[] = [];
+    cells.filter(c => c.vertex).forEach(cell => {
+        const parent = cell.parent ? byId.get(cell.parent) : undefined;
+        // Labels placed on an edge are read with the edge
+        if (parent?.edge || cell.style.has('edgeLabel')) return;
+
+        const { x, y } = origin(cell);
+        const left = x + cell.geometry.x;
+        const top = y + cell.geometry.y;
+        const label = plainText(cell.value);
+
+        if (isContainer(cell)) {
+            containers.push({
+                ...borderStyle(cell.style),
+                id: cell.id,
+                label: label || 'Group',
+                type: containerType(cell.style),
+                x: Math.round(left),
+                y: Math.round(top),
+                width: Math.round(cell.geometry.width),
+                height: Math.round(cell.geometry.height),
+                childNodeIds: [],
+                ...(colorOf(cell.style, 'fillColor') && { color: colorOf(cell.style, 'fillColor') }),
+                ...(containerOf(cell) && { parentContainerId: containerOf(cell) }),
+            });
+            return;
+        }
+
+        nodes.push({
+            ...borderStyle(cell.style),
+            id: cell.id,
+            label,
+            type: nodeType(cell.style),
+            x: Math.round(left + cell.geometry.width / 2),
+            y: Math.round(top + cell.geometry.height / 2),
+            width: Math.round(cell.geometry.width) || 120,
+            height: Math.round(cell.geometry.height) || 80,
+            ...(nodeShape(cell.style) && { shape: nodeShape(cell.style) }),
+            ...(colorOf(cell.style, 'fillColor') && { color: colorOf(cell.style, 'fillColor') }),
+        });
+    });
+
+    // Nesting, from the cell tree
+    const containersById = new Map(containers.map(c => [c.id, c]));
+    nodes.forEach(node => {
+        const owner = containerOf(byId.get(node.id)!);
+        if (owner) containersById.get(owner)?.childNodeIds.push(node.id);
+    });
+    containers.forEach(container => {
+        const parent = container.parentContainerId ? containersById.get(container.parentContainerId) : undefined;
+        if (parent) parent.childContainerIds = [...(parent.childContainerIds ?? []), container.id];
+        let level = 0;
+        for (let p = parent; p?.parentContainerId; p = containersById.get(p.parentContainerId)) level++;
+        container.nestingLevel = parent ? level + 1 : 0;
+    });
+
+    const nodeIds = new Set(nodes.map(n => n.id));
+    const links: Link[] = [];
+    cells.filter(c => c.edge).forEach(cell => {
+        if (!cell.source || !cell.target) {
+            warnings.push(`Edge "${plainText(cell.value) || cell.id}" was skipped: it is not connected at both ends.`);
+            return;
+        }
+        const loose = [cell.source, cell.target].find(id => !nodeIds.has(id));
+        if (loose) {
+            warnings.push(`Edge "${plainText(cell.value) || cell.id}" was skipped: links connect nodes, and "${plainText(byId.get(loose)?.value ?? '') || loose}" is a group or missing.`);
+            return;
+        }
+        const attached = cells.find(c => c.parent === cell.id && c.vertex && c.value);
+        const label = plainText(cell.value) || (attached && plainText(attached.value));
+        links.push({
+            ...linkStyle(cell.style),
+            id: cell.id,
+            source: cell.source,
+            target: cell.target,
+            ...(label && { label }),
+        });
+    });
+
+    if (nodes.length === 0 && containers.length === 0) return fail('The draw.io diagram is empty.');
+
+    const title = pages[0]?.getAttribute('name');
+    return {
+        success: true,
+        data: {
+            title: title && !/^Page-\d+$/.test(title) ? title : 'Imported draw.io Diagram',
+            architectureType: 'drawio-import',
+            nodes,
+            links,
+            containers: containers.length > 0 ? containers : undefined,
+        },
+        errors: [],
+        warnings,
+    };
+}
+
+/**
+ * Whether text is mxGraph XML
+ */
+export function isDrawioSource(text: string): boolean {
+    return /<mxfile[\s>]|<mxGraphModel[\s>]/.test(text.substring(0, 2000));
+}
+
+async function inflatePage(text: string): Promise<string> {
+    const bytes = Uint8Array.from(atob(text), c => c.charCodeAt(0));
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return decodeURIComponent(await new Response(stream).text());
+}
+
+function readCell(element: Element): Cell {
+    const geometry = Array.from(element.getElementsByTagName('mxGeometry')).find(g => g.getAttribute('as') === 'geometry');
+    const number = (name: string) => Number(geometry?.getAttribute(name) ?? 0) || 0;
+    // A wrapping <object>/<UserObject> holds the id and label of a cell that has extra data
+    const parent = element.parentNode as Element | null;
+    const wrapper = parent?.tagName === 'object' || parent?.tagName === 'UserObject' ? parent : null;
+
+    return {
+        id: element.getAttribute('id') ?? wrapper?.getAttribute('id') ?? '',
+        value: element.getAttribute('value') ?? wrapper?.getAttribute('label') ?? '',
+        style: parseStyle(element.getAttribute('style') ?? ''),
+        parent: element.getAttribute('parent') ?? undefined,
+        vertex: element.getAttribute('vertex') === '1',
+        edge: element.getAttribute('edge') === '1',
+        source: element.getAttribute('source') ?? undefined,
+        target: element.getAttribute('target') ?? undefined,
+        geometry: { x: number('x'), y: number('y'), width: number('width'), height: number('height') },
+    };
+}
+
+/**
+ * `rounded=1;ellipse;fillColor=#fff` → { rounded: '1', ellipse: '', fillColor: '#fff' }
+ */
+function parseStyle(style: string): Style {
+    const entries = style.split(';').filter(Boolean).map(part => {
+        const at = part.indexOf('=');
+        return at < 0 ? [part.trim(), ''] as const : [part.substring(0, at).trim(), part.substring(at + 1).trim()] as const;
+    });
+    return new Map(entries);
+}
+
+/**
+ * Text of an HTML label
+ */
+function plainText(value: string): string {
+    return value
+        .replace(/<br\s*\/?>/gi, ' ')
+        .replace(/<\/(div|p)>/gi, ' ')
+        .replace(/<[^>]*>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+        .replace(/&amp;/g, '&')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function awsGroupNames(): Record<string, Container['type']> {
+    return Object.fromEntries(Object.entries(AWS_GROUPS).map(([name, type]) => [`mxgraph.aws4.${name}`, type]));
+}
+
+function containerType(style: Style): Container['type'] {
+    const own = style.get('cubegenContainer') as Container['type'] | undefined;
+    if (own && CONTAINER_TYPES.includes(own)) return own;
+    const aws = awsGroupNames()[style.get('grIcon') ?? ''];
+    if (aws) return aws;
+    if (style.has('swimlane')) return 'tier';
+    if (style.has('ellipse')) return 'circle';
+    return 'group';
+}
+
+function nodeType(style: Style): string {
+    const own = style.get('cubegenType');
+    if (own) return own;
+    const icon = (style.get('resIcon') ?? style.get('shape') ?? '').replace(/^mxgraph\.aws4\./, '');
+    if (AWS_ICONS[icon]) return AWS_ICONS[icon];
+    if (style.has('text')) return IconType.LayerLabel;
+    return IconType.Generic;
+}
+
+function nodeShape(style: Style): NodeShape | undefined {
+    // Written by exportDrawio, which draws nodes without a shape as rounded rectangles
+    if (style.has('cubegenType')) return SHAPE_NAMES.find(name => name === style.get('cubegenShape'));
+    const shape = style.get('shape');
+    if (shape && SHAPES[shape]) return SHAPES[shape];
+    if (style.has('ellipse')) return style.get('aspect') === 'fixed' ? 'circle' : 'ellipse';
+    const named = Object.keys(SHAPES).find(name => style.has(name));
+    if (named) return SHAPES[named];
+    if (style.get('rounded') === '1') return 'rounded-rectangle';
+    return undefined;
+}
+
+function colorOf(style: Style, key: string): string | undefined {
+    const color = style.get(key);
+    return color && color !== 'none' && color !== 'default' ? color : undefined;
+}
+
+function borderStyle(style: Style): Pick<ArchNode, 'borderColor' | 'borderStyle' | 'borderWidth'> {
+    const width = Number(style.get('strokeWidth') ?? 0);
+    return {
+        ...(colorOf(style, 'strokeColor') && { borderColor: colorOf(style, 'strokeColor') }),
+        ...(style.get('strokeColor') === 'none' && { borderStyle: 'none' as const }),
+        ...(style.get('dashed') === '1' && { borderStyle: style.get('dashPattern')?.startsWith('1 ') ? 'dotted' as const : 'dashed' as const }),
+        ...(width > 0 && { borderWidth: width <= 1 ? 'thin' as const : width >= 3 ? 'thick' as const : 'medium' as const }),
+    };
+}
+
+function linkStyle(style: Style): Partial<Link> {
+    const width = Number(style.get('strokeWidth') ?? 0);
+    const edgeStyle = style.get('edgeStyle') ?? '';
+    const startArrow = style.get('startArrow') ?? 'none';
+    const endArrow = style.get('endArrow') ?? 'classic';
+    const lineStyle: Link['lineStyle'] = edgeStyle.startsWith('orthogonal') || edgeStyle === 'entityRelationEdgeStyle' ? 'orthogonal'
+        : edgeStyle.startsWith('elbow') ? 'elbow'
+            : style.get('curved') === '1' ? 'curved'
+                : undefined;
+
+    return {
+        ...(style.get('dashed') === '1' && { style: style.get('dashPattern')?.startsWith('1 ') ? 'dotted' as const : 'dashed' as const }),
+        ...(lineStyle && { lineStyle }),
+        ...(colorOf(style, 'strokeColor') && { color: colorOf(style, 'strokeColor') }),
+        ...(width > 0 && width !== DEFAULT_EDGE_STROKE && { strokeWidth: Math.min(10, Math.round(width)) }),
+        ...(endArrow === 'none' && startArrow === 'none' && { arrowheadStyle: 'none' as const }),
+        ...(endArrow !== 'none' && style.get('endFill') === '0' && { arrowheadStyle: 'outlined' as const }),
+        ...(endArrow !== 'none' && startArrow !== 'none' && { bidirectional: true }),
+    };
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * An uncompressed single-page draw.io file
+ */
+export function exportDrawio(data: DiagramData): string {
+    const containers = data.containers ?? [];
+    const containerIds = new Set(containers.map(c => c.id));
+    const byId = new Map(containers.map(c => [c.id, c]));
+    const depth = (c: Container): number => {
+        let level = 0;
+        for (let p = c.parentContainerId; p && byId.has(p) && level < containers.length; p = byId.get(p)!.parentContainerId) level++;
+        return level;
+    };
+
+    // Ids are kept, except where they collide with the two root cells
+    const cellId = (id: string) => (id === '0' || id === '1' ? `cg-${id}` : id);
+    const parentOf = (id: string, isNode: boolean): Container | undefined => isNode
+        ? containers.filter(c => c.childNodeIds.includes(id)).sort((a, b) => depth(b) - depth(a))[0]
+        : (byId.get(id)?.parentContainerId && containerIds.has(byId.get(id)!.parentContainerId!) ? byId.get(byId.get(id)!.parentContainerId!) : undefined);
+
+    const cells: string[] = ['<mxCell id="0" />', '<mxCell id="1" parent="0" />'];
+
+    // Parents are written before their children, as draw.io expects
+    [...containers].sort((a, b) => depth(a) - depth(b)).forEach(container => {
+        const parent = parentOf(container.id, false);
+        const style = [
+            'rounded=0;whiteSpace=wrap;html=1;container=1;collapsible=0;verticalAlign=top;align=left;spacingLeft=8;',
+            `fillColor=${container.color ?? 'none'};`,
+            borderStyleText(container),
+            `cubegenContainer=${container.type};`,
+        ].join('');
+        cells.push(vertexXml(cellId(container.id), container.label, style, parent ? cellId(parent.id) : '1', {
+            x: container.x - (parent?.x ?? 0),
+            y: container.y - (parent?.y ?? 0),
+            width: container.width,
+            height: container.height,
+        }));
+    });
+
+    data.nodes.forEach(node => {
+        const parent = parentOf(node.id, true);
+        const awsIcon = Object.keys(AWS_ICONS).find(name => AWS_ICONS[name] === node.type);
+        const shapeStyle = awsIcon && !node.shape
+            ? `shape=mxgraph.aws4.resourceIcon;resIcon=mxgraph.aws4.${awsIcon};verticalLabelPosition=bottom;verticalAlign=top;aspect=fixed;`
+            : SHAPE_STYLES[node.shape ?? 'rounded-rectangle'];
+        const style = [
+            shapeStyle,
+            'whiteSpace=wrap;html=1;',
+            node.color ? `fillColor=${node.color};` : '',
+            borderStyleText(node),
+            `cubegenType=${node.type};`,
+            node.shape ? `cubegenShape=${node.shape};` : '',
+        ].join('');
+        cells.push(vertexXml(cellId(node.id), node.label, style, parent ? cellId(parent.id) : '1', {
+            x: node.x - node.width / 2 - (parent?.x ?? 0),
+            y: node.y - node.height / 2 - (parent?.y ?? 0),
+            width: node.width,
+            height: node.height,
+        }));
+    });
+
+    const nodeIds = new Set(data.nodes.map(n => n.id));
+    data.links.forEach(link => {
+        const source = endpointId(link.source);
+        const target = endpointId(link.target);
+        if (!nodeIds.has(source) || !nodeIds.has(target)) return;
+
+        const style = [
+            link.lineStyle === 'orthogonal' ? 'edgeStyle=orthogonalEdgeStyle;' : link.lineStyle === 'elbow' ? 'edgeStyle=elbowEdgeStyle;' : '',
+            link.lineStyle === 'curved' ? 'curved=1;' : '',
+            'rounded=0;html=1;',
+            link.style === 'dashed' ? 'dashed=1;' : link.style === 'dotted' ? 'dashed=1;dashPattern=1 4;' : '',
+            link.color ? `strokeColor=${link.color};` : '',
+            link.strokeWidth ? `strokeWidth=${link.strokeWidth};` : link.thickness === 'thick' ? 'strokeWidth=3;' : '',
+            link.arrowheadStyle === 'none' ? 'endArrow=none;' : link.arrowheadStyle === 'outlined' ? 'endArrow=classic;endFill=0;' : 'endArrow=classic;',
+            link.bidirectional ? 'startArrow=classic;' : '',
+        ].join('');
+        cells.push(
+            `<mxCell id="${xmlAttribute(cellId(link.id))}" value="${xmlAttribute(htmlText(link.label ?? ''))}" style="${xmlAttribute(style)}" edge="1" parent="1" ` +
+            `source="${xmlAttribute(cellId(source))}" target="${xmlAttribute(cellId(target))}">` +
+            '<mxGeometry relative="1" as="geometry" /></mxCell>'
+        );
+    });
+
+    return [
+        '<mxfile host="CubeGen" type="device">',
+        `  <diagram id="cubegen" name="${xmlAttribute(data.title)}">`,
+        '    <mxGraphModel grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" fold="1" page="0" pageScale="1" math="0" shadow="0">',
+        '      <root>',
+        ...cells.map(cell => `        ${cell}`),
+        '      </root>',
+        '    </mxGraphModel>',
+        '  </diagram>',
+        '</mxfile>',
+    ].join('\n') + '\n';
+}
+
+function vertexXml(id: string, label: string, style: string, parent: string, box: { x: number; y: number; width: number; height: number }): string {
+    return `<mxCell id="${xmlAttribute(id)}" value="${xmlAttribute(htmlText(label))}" style="${xmlAttribute(style)}" vertex="1" parent="${xmlAttribute(parent)}">` +
+        `<mxGeometry x="${Math.round(box.x)}" y="${Math.round(box.y)}" width="${Math.round(box.width)}" height="${Math.round(box.height)}" as="geometry" /></mxCell>`;
+}
+
+function borderStyleText(item: Pick<ArchNode, 'borderColor' | 'borderStyle' | 'borderWidth'>): string {
+    return [
+        item.borderStyle === 'none' ? 'strokeColor=none;' : item.borderColor ? `strokeColor=${item.borderColor};` : '',
+        item.borderStyle === 'dashed' ? 'dashed=1;' : item.borderStyle === 'dotted' ? 'dashed=1;dashPattern=1 4;' : '',
+        item.borderWidth === 'thin' ? 'strokeWidth=1;' : item.borderWidth === 'thick' ? 'strokeWidth=3;' : item.borderWidth === 'medium' ? 'strokeWidth=2;' : '',
+    ].join('');
+}
+
+/**
+ * Labels are HTML (`html=1`), so text is escaped once for HTML and once more for the attribute
+ */
+function htmlText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br>');
+}
+
+function xmlAttribute(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function endpointId(endpoint: string | ArchNode): string {
+    return typeof endpoint === 'string' ? endpoint : endpoint.id;
+}
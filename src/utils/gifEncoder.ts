@@ -0,0 +1,365 @@
+/**
+ * GIF Encoder
+ * Writes looping animated GIFs from RGBA frames, in plain TypeScript (no canvas or GPU
+ * encoding involved):
+ *
+ * - one global palette of up to 256 colors, built by median cut (see buildGifPalette);
+ *   frames are mapped to its nearest colors
+ * - LZW compression with variable code sizes, clearing the table when it fills up
+ * - with a transparent palette, pixels less than half opaque become transparent
+ *
+ * Every frame covers the whole image, so frames need no diffing against the previous one.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface GifPalette {
+    /** RGB triples, padded to a power of two */
+    colors: Uint8Array;
+    /** Index drawn as transparent, or -1 */
+    transparentIndex: number;
+}
+
+const MAX_COLORS = 256;
+const MAX_CODES = 4096;
+const HASH_SIZE = 5003;
+
+// Colors are bucketed at 5 bits per channel for the histogram and the nearest-color lookup
+const BUCKET_BITS = 5;
+const BUCKETS = 1 << (BUCKET_BITS * 3);
+
+// ============================================
+// PALETTE
+// ============================================
+
+interface ColorBox {
+    buckets: number[];
+    count: number;
+}
+
+/**
+ * A palette for the given RGBA pixels, by median cut: the color space is split at the
+ * median of its widest channel until there are enough boxes, and each box becomes the
+ * mean of the colors in it.
+ */
+export function buildGifPalette(pixels: Uint8ClampedArray, transparent = false): GifPalette {
+    const counts = new Uint32Array(BUCKETS);
+    const sums = new Float64Array(BUCKETS * 3);
+    for (let i = 0; i < pixels.length; i += 4) {
+        if (transparent && pixels[i + 3] < 128) continue;
+        const bucket = bucketOf(pixels[i], pixels[i + 1], pixels[i + 2]);
+        counts[bucket]++;
+        sums[bucket * 3] += pixels[i];
+        sums[bucket * 3 + 1] += pixels[i + 1];
+        sums[bucket * 3 + 2] += pixels[i + 2];
+    }
+
+    const used: number[] = [];
+    let total = 0;
+    counts.forEach((count, bucket) => {
+        if (count === 0) return;
+        used.push(bucket);
+        total += count;
+    });
+
+    const maxBoxes = transparent ? MAX_COLORS - 1 : MAX_COLORS;
+    const boxes: ColorBox[] = used.length > 0 ? [{ buckets: used, count: total }] : [];
+    while (boxes.length < maxBoxes) {
+        // Split the box with the most pixels among those holding more than one color
+        let widest = -1;
+        boxes.forEach((box, i) => {
+            if (box.buckets.length > 1 && (widest < 0 || box.count > boxes[widest].count)) widest = i;
+        });
+        if (widest < 0) break;
+        boxes.splice(widest, 1, ...splitBox(boxes[widest], counts));
+    }
+
+    const colorCount = boxes.length + (transparent ? 1 : 0);
+    const size = Math.max(2, 1 << Math.ceil(Math.log2(Math.max(2, colorCount))));
+    const colors = new Uint8Array(size * 3);
+    boxes.forEach((box, i) => {
+        let r = 0, g = 0, b = 0;
+        box.buckets.forEach(bucket => {
+            r += sums[bucket * 3];
+            g += sums[bucket * 3 + 1];
+            b += sums[bucket * 3 + 2];
+        });
+        colors[i * 3] = Math.round(r / box.count);
+        colors[i * 3 + 1] = Math.round(g / box.count);
+        colors[i * 3 + 2] = Math.round(b / box.count);
+    });
+
+    return { colors, transparentIndex: transparent ? boxes.length : -1 };
+}
+
+function splitBox(box: ColorBox, counts: Uint32Array): ColorBox[] {
+    const channels = [0, 1, 2].map(channel => {
+        const values = box.buckets.map(bucket => channelOf(bucket, channel));
+        return { channel, range: Math.max(...values) - Math.min(...values) };
+    });
+    const { channel } = channels.reduce((a, b) => (b.range > a.range ? b : a));
+
+    const sorted = [...box.buckets].sort((a, b) => channelOf(a, channel) - channelOf(b, channel));
+    let seen = 0;
+    let cut = 1;
+    for (; cut < sorted.length; cut++) {
+        seen += counts[sorted[cut - 1]];
+        if (seen >= box.count / 2) break;
+    }
+    cut = Math.min(cut, sorted.length - 1);
+
+    const low = sorted.slice(0, cut);
+    const high = sorted.slice(cut);
+    const countOf = (buckets: number[]) => buckets.reduce((sum, bucket) => sum + counts[bucket], 0);
+    return [{ buckets: low, count: countOf(low) }, { buckets: high, count: countOf(high) }];
+}
+
+function bucketOf(r: number, g: number, b: number): number {
+    const shift = 8 - BUCKET_BITS;
+    return ((r >> shift) << (BUCKET_BITS * 2)) | ((g >> shift) << BUCKET_BITS) | (b >> shift);
+}
+
+function channelOf(bucket: number, channel: number): number {
+    return (bucket >> (BUCKET_BITS * (2 - channel))) & ((1 << BUCKET_BITS) - 1);
+}
+
+// ============================================
+// ENCODER
+// ============================================
+
+/**
+ * Encodes frames as they are added; `finish` returns the file
+ */
+export class GifEncoder {
+    private bytes = new ByteWriter();
+    private nearest = new Int16Array(BUCKETS).fill(-1);
+    private indices: Uint8Array;
+    private paletteBits: number;
+
+    constructor(private width: number, private height: number, private palette: GifPalette) {
+        this.indices = new Uint8Array(width * height);
+        this.paletteBits = Math.log2(palette.colors.length / 3);
+
+        this.bytes.writeString('GIF89a');
+        this.bytes.writeShort(width);
+        this.bytes.writeShort(height);
+        // Global color table, its size, and 8 bits of color resolution
+        this.bytes.writeByte(0x80 | 0x70 | (this.paletteBits - 1));
+        this.bytes.writeByte(0); // Background color index
+        this.bytes.writeByte(0); // Pixel aspect ratio
+        this.bytes.writeBytes(palette.colors);
+
+        // NETSCAPE2.0 application extension: loop forever
+        this.bytes.writeBytes([0x21, 0xff, 0x0b]);
+        this.bytes.writeString('NETSCAPE2.0');
+        this.bytes.writeBytes([0x03, 0x01]);
+        this.bytes.writeShort(0);
+        this.bytes.writeByte(0);
+    }
+
+    /**
+     * Add a frame of RGBA pixels (width × height × 4), shown for `delay` centiseconds
+     */
+    addFrame(pixels: Uint8ClampedArray, delay: number) {
+        const { transparentIndex } = this.palette;
+        for (let i = 0, p = 0; p < this.indices.length; i += 4, p++) {
+            this.indices[p] = transparentIndex >= 0 && pixels[i + 3] < 128
+                ? transparentIndex
+                : this.nearestIndex(bucketOf(pixels[i], pixels[i + 1], pixels[i + 2]));
+        }
+
+        // Graphic control extension: with transparency, clear each frame before drawing the next
+        const transparent = transparentIndex >= 0;
+        this.bytes.writeBytes([0x21, 0xf9, 0x04, ((transparent ? 2 : 1) << 2) | (transparent ? 1 : 0)]);
+        this.bytes.writeShort(Math.max(2, Math.round(delay)));
+        this.bytes.writeByte(transparent ? transparentIndex : 0);
+        this.bytes.writeByte(0);
+
+        // Image descriptor: the whole image, no local color table, not interlaced
+        this.bytes.writeByte(0x2c);
+        this.bytes.writeShort(0);
+        this.bytes.writeShort(0);
+        this.bytes.writeShort(this.width);
+        this.bytes.writeShort(this.height);
+        this.bytes.writeByte(0);
+
+        lzwEncode(this.indices, Math.max(2, this.paletteBits), this.bytes);
+    }
+
+    finish(): Blob {
+        this.bytes.writeByte(0x3b);
+        return new Blob([this.bytes.toArray()], { type: 'image/gif' });
+    }
+
+    /**
+     * The palette index closest to a color bucket, found once per bucket
+     */
+    private nearestIndex(bucket: number): number {
+        const cached = this.nearest[bucket];
+        if (cached >= 0) return cached;
+
+        const half = 1 << (7 - BUCKET_BITS);
+        const r = (channelOf(bucket, 0) << (8 - BUCKET_BITS)) + half;
+        const g = (channelOf(bucket, 1) << (8 - BUCKET_BITS)) + half;
+        const b = (channelOf(bucket, 2) << (8 - BUCKET_BITS)) + half;
+        const { colors, transparentIndex } = this.palette;
+        let best = 0;
+        let bestDistance = Infinity;
+        for (let i = 0; i < colors.length / 3; i++) {
+            if (i === transparentIndex) continue;
+            const dr = colors[i * 3] - r;
+            const dg = colors[i * 3 + 1] - g;
+            const db = colors[i * 3 + 2] - b;
+            const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                best = i;
+            }
+        }
+        this.nearest[bucket] = best;
+        return best;
+    }
+}
+
+// ============================================
+// LZW
+// ============================================
+
+/**
+ * Compress palette indices as GIF image data: the minimum code size, then the codes
+ * packed least significant bit first in sub-blocks of up to 255 bytes
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number, out: ByteWriter) {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    // Dictionary entries (prefix code, next index) in an open-addressing hash table
+    const keys = new Int32Array(HASH_SIZE);
+    const codes = new Int32Array(HASH_SIZE);
+
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let clearing = false;
+
+    const block = new Uint8Array(255);
+    let blockLength = 0;
+    let bits = 0;
+    let bitCount = 0;
+
+    const flushBlock = () => {
+        if (blockLength === 0) return;
+        out.writeByte(blockLength);
+        out.writeBytes(block.subarray(0, blockLength));
+        blockLength = 0;
+    };
+    const emit = (code: number) => {
+        bits |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            block[blockLength++] = bits & 0xff;
+            if (blockLength === 255) flushBlock();
+            bits >>>= 8;
+            bitCount -= 8;
+        }
+        // The decoder widens its codes one code later than the table grows
+        if (clearing) {
+            codeSize = minCodeSize + 1;
+            clearing = false;
+        } else if (nextCode > (1 << codeSize) - 1 && codeSize < 12) {
+            codeSize++;
+        }
+    };
+    const clearTable = () => {
+        keys.fill(-1);
+        nextCode = endCode + 1;
+        clearing = true;
+        emit(clearCode);
+    };
+
+    out.writeByte(minCodeSize);
+    keys.fill(-1);
+    emit(clearCode);
+
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const index = indices[i];
+        const key = (index << 12) | prefix;
+        let slot = ((index << 4) ^ prefix) % HASH_SIZE;
+        const step = slot === 0 ? 1 : HASH_SIZE - slot;
+        let found = false;
+        while (keys[slot] >= 0) {
+            if (keys[slot] === key) {
+                prefix = codes[slot];
+                found = true;
+                break;
+            }
+            slot -= step;
+            if (slot < 0) slot += HASH_SIZE;
+        }
+        if (found) continue;
+
+        emit(prefix);
+        if (nextCode < MAX_CODES) {
+            keys[slot] = key;
+            codes[slot] = nextCode++;
+        } else {
+            clearTable();
+        }
+        prefix = index;
+    }
+    emit(prefix);
+    emit(endCode);
+
+    if (bitCount > 0) {
+        block[blockLength++] = bits & 0xff;
+        if (blockLength === 255) flushBlock();
+    }
+    flushBlock();
+    out.writeByte(0);
+}
+
+// ============================================
+// BYTES
+// ============================================
+
+/**
+ * A growable byte buffer
+ */
+class ByteWriter {
+    private buffer: Uint8Array<ArrayBuffer> = new Uint8Array(1 << 16);
+    private length = 0;
+
+    writeByte(value: number) {
+        this.reserve(1);
+        this.buffer[this.length++] = value;
+    }
+
+    writeShort(value: number) {
+        this.writeByte(value & 0xff);
+        this.writeByte((value >> 8) & 0xff);
+    }
+
+    writeBytes(values: ArrayLike<number>) {
+        this.reserve(values.length);
+        this.buffer.set(values, this.length);
+        this.length += values.length;
+    }
+
+    writeString(text: string) {
+        for (let i = 0; i < text.length; i++) this.writeByte(text.charCodeAt(i));
+    }
+
+    toArray(): Uint8Array<ArrayBuffer> {
+        return this.buffer.slice(0, this.length);
+    }
+
+    private reserve(count: number) {
+        if (this.length + count <= this.buffer.length) return;
+        let size = this.buffer.length * 2;
+        while (size < this.length + count) size *= 2;
+        const grown = new Uint8Array(size);
+        grown.set(this.buffer.subarray(0, this.length));
+        this.buffer = grown;
+    }
+}
@@ -0,0 +1,394 @@
+/**
+ * HTML Viewer Export
+ * A single offline .html file for exploring a diagram without the app: the standalone
+ * SVG (see svgExport) plus a small viewer script and the diagram's metadata.
+ *
+ * - pan by dragging, zoom with the wheel or the +/- buttons, fit with 0
+ * - click a node to inspect its type, description and connections
+ * - search nodes by label, type or description; Enter jumps through the matches
+ * - hovering a node highlights its links and dims the rest
+ * - nodes with an animationOrder can be presented step by step (P, arrow keys)
+ *
+ * The viewer finds the diagram's items through the data-node-id and data-link-id
+ * attributes the canvas puts on them, which survive into the standalone SVG.
+ */
+
+import type { ArchNode, DiagramData } from '../types';
+import type { StandaloneSvg } from './svgExport';
+
+// ============================================
+// TYPES
+// ============================================
+
+// What the viewer script reads from the page, beside the SVG
+interface ViewerModel {
+    title: string;
+    nodes: { id: string; label: string; type: string; description?: string; order?: number }[];
+    links: { id: string; source: string; target: string; label?: string }[];
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+export function buildHtmlViewer(svg: StandaloneSvg, data: DiagramData): string {
+    const model: ViewerModel = {
+        title: data.title,
+        nodes: data.nodes.map(n => ({ id: n.id, label: n.label, type: n.type, description: n.description, order: n.animationOrder })),
+        links: data.links.map(l => ({ id: l.id, source: endpointId(l.source), target: endpointId(l.target), label: l.label })),
+    };
+    const hasSteps = data.nodes.some(n => n.animationOrder !== undefined);
+    const background = svg.text.match(/<rect width="100%" height="100%" fill="([^"]+)"/)?.[1] ?? '#FDFDFD';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(data.title)}</title>
+<style>
+${VIEWER_STYLE.replace('CANVAS_BACKGROUND', background)}
+</style>
+</head>
+<body>
+<header>
+    <h1>${escapeHtml(data.title)}</h1>
+    <input id="search" type="search" placeholder="Search nodes" autocomplete="off">
+    <span id="matches"></span>
+    <div class="buttons">
+        <button id="zoom-out" title="Zoom out (-)">&minus;</button>
+        <button id="fit" title="Fit (0)">Fit</button>
+        <button id="zoom-in" title="Zoom in (+)">+</button>
+        ${hasSteps ? '<button id="present" title="Present step by step (P)">Present</button>' : ''}
+    </div>
+</header>
+<main id="stage">
+${svg.text.replace(/^<\?xml[^>]*\?>\s*/, '')}
+</main>
+<aside id="inspector" hidden>
+    <button id="close-inspector" title="Close">&times;</button>
+    <h2 id="inspector-label"></h2>
+    <div id="inspector-type"></div>
+    <p id="inspector-description"></p>
+    <h3>Connections</h3>
+    <ul id="inspector-links"></ul>
+</aside>
+<nav id="steps" hidden>
+    <button id="step-prev" title="Previous (&larr;)">&larr;</button>
+    <span id="step-label"></span>
+    <button id="step-next" title="Next (&rarr;)">&rarr;</button>
+    <button id="step-play" title="Play">Play</button>
+    <button id="step-exit" title="Exit (Esc)">Exit</button>
+</nav>
+<script type="application/json" id="diagram-model">${JSON.stringify(model).replace(/</g, '\\u003c')}</script>
+<script>
+${VIEWER_SCRIPT}
+</script>
+</body>
+</html>`;
+}
+
+// ============================================
+// VIEWER
+// ============================================
+
+const VIEWER_STYLE = `
+html, body { margin: 0; height: 100%; overflow: hidden; font-family: 'Inter', system-ui, sans-serif; color: #1f2937; background: CANVAS_BACKGROUND; }
+header { position: fixed; top: 0; left: 0; right: 0; z-index: 2; display: flex; align-items: center; gap: 12px; padding: 8px 16px; background: rgba(255, 255, 255, 0.9); border-bottom: 1px solid #e5e7eb; }
+h1 { margin: 0; font-size: 16px; flex: 1; overflow: hidden; white-space: nowrap; text-overflow: ellipsis; }
+#search { width: 220px; padding: 6px 10px; border: 1px solid #d1d5db; border-radius: 8px; font: inherit; font-size: 13px; }
+#matches { font-size: 12px; color: #6b7280; min-width: 60px; }
+button { padding: 6px 10px; border: 1px solid #e5e7eb; border-radius: 8px; background: #fff; font: inherit; font-size: 13px; cursor: pointer; }
+button:hover { background: #f3f4f6; }
+button.active { background: #f43f5e; border-color: #f43f5e; color: #fff; }
+.buttons { display: flex; gap: 4px; }
+#stage { position: absolute; inset: 0; cursor: grab; touch-action: none; }
+#stage.panning { cursor: grabbing; }
+#stage svg { width: 100%; height: 100%; display: block; }
+[data-node-id] { cursor: pointer; }
+[data-node-id], [data-link-id] { transition: opacity 0.25s; }
+.dimmed { opacity: 0.15; }
+.step-hidden { opacity: 0; pointer-events: none; }
+.highlighted { filter: drop-shadow(0 0 4px #f43f5e); }
+#inspector { position: fixed; top: 64px; right: 16px; z-index: 2; width: 280px; max-height: calc(100% - 96px); overflow: auto; padding: 16px; background: #fff; border: 1px solid #e5e7eb; border-radius: 12px; box-shadow: 0 10px 30px rgba(0, 0, 0, 0.1); }
+#inspector h2 { margin: 0 24px 4px 0; font-size: 16px; }
+#inspector h3 { margin: 16px 0 6px; font-size: 12px; text-transform: uppercase; letter-spacing: 0.05em; color: #6b7280; }
+#inspector-type { font-size: 12px; color: #6b7280; }
+#inspector-description { font-size: 13px; line-height: 1.5; white-space: pre-wrap; }
+#inspector ul { margin: 0; padding: 0; list-style: none; font-size: 13px; }
+#inspector li { padding: 4px 0; cursor: pointer; }
+#inspector li:hover { color: #e11d48; }
+#close-inspector { position: absolute; top: 8px; right: 8px; padding: 2px 8px; border: none; }
+#steps { position: fixed; bottom: 16px; left: 50%; transform: translateX(-50%); z-index: 2; display: flex; align-items: center; gap: 8px; padding: 8px 12px; background: #fff; border: 1px solid #e5e7eb; border-radius: 12px; box-shadow: 0 10px 30px rgba(0, 0, 0, 0.1); font-size: 13px; }
+[hidden] { display: none !important; }
+`;
+
+const VIEWER_SCRIPT = `
+(function () {
+    var model = JSON.parse(document.getElementById('diagram-model').textContent);
+    var stage = document.getElementById('stage');
+    var svg = stage.querySelector('svg');
+    var box = svg.viewBox.baseVal;
+    var full = { x: box.x, y: box.y, w: box.width, h: box.height };
+    var view = { x: full.x, y: full.y, w: full.w, h: full.h };
+    svg.removeAttribute('width');
+    svg.removeAttribute('height');
+
+    var nodesById = {};
+    model.nodes.forEach(function (n) { nodesById[n.id] = n; });
+    var nodeElements = {};
+    svg.querySelectorAll('[data-node-id]').forEach(function (el) { nodeElements[el.getAttribute('data-node-id')] = el; });
+    var linkElements = {};
+    svg.querySelectorAll('[data-link-id]').forEach(function (el) {
+        var id = el.getAttribute('data-link-id');
+        (linkElements[id] = linkElements[id] || []).push(el);
+    });
+    function eachLinkElement(link, fn) { (linkElements[link.id] || []).forEach(fn); }
+    function linksOf(id) { return model.links.filter(function (l) { return l.source === id || l.target === id; }); }
+
+    // ─── Pan and zoom ───
+
+    function apply() { svg.setAttribute('viewBox', view.x + ' ' + view.y + ' ' + view.w + ' ' + view.h); }
+    function toSvg(clientX, clientY) {
+        var point = new DOMPoint(clientX, clientY).matrixTransform(svg.getScreenCTM().inverse());
+        return { x: point.x, y: point.y };
+    }
+    function zoomAt(factor, center) {
+        var w = Math.min(Math.max(view.w * factor, full.w / 20), full.w * 20);
+        factor = w / view.w;
+        view.x = center.x - (center.x - view.x) * factor;
+        view.y = center.y - (center.y - view.y) * factor;
+        view.w *= factor;
+        view.h *= factor;
+        apply();
+    }
+    function zoomCenter(factor) { zoomAt(factor, { x: view.x + view.w / 2, y: view.y + view.h / 2 }); }
+    function fit() {
+        view = { x: full.x, y: full.y, w: full.w, h: full.h };
+        apply();
+    }
+    // Frame an element with some room around it, never zooming in past 100%
+    function focus(el) {
+        var rect = el.getBoundingClientRect();
+        var a = toSvg(rect.left, rect.top), b = toSvg(rect.right, rect.bottom);
+        var w = Math.max((b.x - a.x) * 3, full.w / 4), h = Math.max((b.y - a.y) * 3, full.h / 4);
+        var ratio = view.w / view.h;
+        if (w / h > ratio) h = w / ratio; else w = h * ratio;
+        view = { x: (a.x + b.x) / 2 - w / 2, y: (a.y + b.y) / 2 - h / 2, w: w, h: h };
+        apply();
+    }
+
+    stage.addEventListener('wheel', function (e) {
+        e.preventDefault();
+        zoomAt(Math.exp(e.deltaY * 0.0015), toSvg(e.clientX, e.clientY));
+    }, { passive: false });
+
+    var drag = null;
+    stage.addEventListener('pointerdown', function (e) {
+        drag = { start: toSvg(e.clientX, e.clientY), clientX: e.clientX, clientY: e.clientY, moved: false };
+        stage.setPointerCapture(e.pointerId);
+    });
+    stage.addEventListener('pointermove', function (e) {
+        if (!drag) return;
+        if (Math.abs(e.clientX - drag.clientX) + Math.abs(e.clientY - drag.clientY) > 4) drag.moved = true;
+        if (!drag.moved) return;
+        stage.classList.add('panning');
+        var point = toSvg(e.clientX, e.clientY);
+        view.x += drag.start.x - point.x;
+        view.y += drag.start.y - point.y;
+        apply();
+    });
+    stage.addEventListener('pointerup', function (e) {
+        var wasClick = drag && !drag.moved;
+        drag = null;
+        stage.classList.remove('panning');
+        if (!wasClick) return;
+        // Pointer capture retargets the event, so find what is under the pointer
+        var hit = document.elementFromPoint(e.clientX, e.clientY);
+        var nodeEl = hit && hit.closest('[data-node-id]');
+        if (nodeEl) inspect(nodeEl.getAttribute('data-node-id'));
+        else closeInspector();
+    });
+
+    document.getElementById('zoom-in').onclick = function () { zoomCenter(1 / 1.25); };
+    document.getElementById('zoom-out').onclick = function () { zoomCenter(1.25); };
+    document.getElementById('fit').onclick = fit;
+
+    // ─── Highlighting ───
+
+    // Dims everything but the given nodes and links; null clears
+    function dimExcept(nodeIds, linkIds) {
+        Object.keys(nodeElements).forEach(function (id) {
+            nodeElements[id].classList.toggle('dimmed', !!nodeIds && nodeIds.indexOf(id) < 0);
+        });
+        model.links.forEach(function (link) {
+            eachLinkElement(link, function (el) {
+                el.classList.toggle('dimmed', !!linkIds && linkIds.indexOf(link.id) < 0);
+                el.classList.toggle('highlighted', !!linkIds && linkIds.indexOf(link.id) >= 0);
+            });
+        });
+    }
+    function restoreHighlight() {
+        if (matches.length > 0) dimExcept(matches, []);
+        else dimExcept(null, null);
+    }
+
+    Object.keys(nodeElements).forEach(function (id) {
+        nodeElements[id].addEventListener('pointerenter', function () {
+            if (drag) return;
+            var links = linksOf(id);
+            var neighbours = [id];
+            links.forEach(function (l) { neighbours.push(l.source, l.target); });
+            dimExcept(neighbours, links.map(function (l) { return l.id; }));
+        });
+        nodeElements[id].addEventListener('pointerleave', restoreHighlight);
+    });
+
+    // ─── Inspector ───
+
+    var inspector = document.getElementById('inspector');
+    function inspect(id) {
+        var node = nodesById[id];
+        if (!node) return;
+        document.getElementById('inspector-label').textContent = node.label;
+        document.getElementById('inspector-type').textContent = node.type;
+        document.getElementById('inspector-description').textContent = node.description || 'No description.';
+        var list = document.getElementById('inspector-links');
+        list.innerHTML = '';
+        linksOf(id).forEach(function (link) {
+            var outgoing = link.source === id;
+            var other = nodesById[outgoing ? link.target : link.source];
+            if (!other) return;
+            var item = document.createElement('li');
+            item.textContent = (outgoing ? '\\u2192 ' : '\\u2190 ') + other.label + (link.label ? ' (' + link.label + ')' : '');
+            item.onclick = function () {
+                inspect(other.id);
+                focus(nodeElements[other.id]);
+            };
+            list.appendChild(item);
+        });
+        if (!list.children.length) list.innerHTML = '<li>None</li>';
+        inspector.hidden = false;
+    }
+    function closeInspector() { inspector.hidden = true; }
+    document.getElementById('close-inspector').onclick = closeInspector;
+
+    // ─── Search ───
+
+    var search = document.getElementById('search');
+    var matchCount = document.getElementById('matches');
+    var matches = [];
+    var current = -1;
+    search.addEventListener('input', function () {
+        var query = search.value.trim().toLowerCase();
+        matches = !query ? [] : model.nodes.filter(function (n) {
+            return [n.label, n.type, n.description || ''].some(function (text) { return text.toLowerCase().indexOf(query) >= 0; });
+        }).map(function (n) { return n.id; }).filter(function (id) { return nodeElements[id]; });
+        current = -1;
+        matchCount.textContent = query ? matches.length + (matches.length === 1 ? ' match' : ' matches') : '';
+        restoreHighlight();
+    });
+    search.addEventListener('keydown', function (e) {
+        if (e.key !== 'Enter' || matches.length === 0) return;
+        current = (current + 1) % matches.length;
+        matchCount.textContent = (current + 1) + ' of ' + matches.length;
+        focus(nodeElements[matches[current]]);
+        inspect(matches[current]);
+    });
+
+    // ─── Step-through presentation ───
+
+    var orders = [];
+    model.nodes.forEach(function (n) {
+        if (typeof n.order === 'number' && orders.indexOf(n.order) < 0) orders.push(n.order);
+    });
+    orders.sort(function (a, b) { return a - b; });
+    var stepBar = document.getElementById('steps');
+    var step = -1;
+    var timer = null;
+
+    // Nodes without an order are context and stay visible throughout
+    function showStep(index) {
+        step = Math.max(0, Math.min(index, orders.length - 1));
+        var upTo = orders[step];
+        var visible = {};
+        model.nodes.forEach(function (n) {
+            var shown = typeof n.order !== 'number' || n.order <= upTo;
+            visible[n.id] = shown;
+            var el = nodeElements[n.id];
+            if (!el) return;
+            el.classList.toggle('step-hidden', !shown);
+            el.classList.toggle('highlighted', n.order === upTo);
+        });
+        model.links.forEach(function (link) {
+            eachLinkElement(link, function (el) { el.classList.toggle('step-hidden', !(visible[link.source] && visible[link.target])); });
+        });
+        document.getElementById('step-label').textContent = 'Step ' + (step + 1) + ' of ' + orders.length;
+    }
+    function stopPlaying() {
+        clearInterval(timer);
+        timer = null;
+        document.getElementById('step-play').textContent = 'Play';
+    }
+    function present() {
+        stepBar.hidden = false;
+        document.getElementById('present').classList.add('active');
+        showStep(0);
+    }
+    function endPresentation() {
+        stopPlaying();
+        step = -1;
+        stepBar.hidden = true;
+        document.getElementById('present').classList.remove('active');
+        svg.querySelectorAll('.step-hidden, .highlighted').forEach(function (el) { el.classList.remove('step-hidden', 'highlighted'); });
+        restoreHighlight();
+    }
+
+    if (orders.length > 0) {
+        document.getElementById('present').onclick = function () { if (step < 0) present(); else endPresentation(); };
+        document.getElementById('step-prev').onclick = function () { stopPlaying(); showStep(step - 1); };
+        document.getElementById('step-next').onclick = function () { stopPlaying(); showStep(step + 1); };
+        document.getElementById('step-exit').onclick = endPresentation;
+        document.getElementById('step-play').onclick = function () {
+            if (timer) { stopPlaying(); return; }
+            if (step === orders.length - 1) showStep(0);
+            this.textContent = 'Pause';
+            timer = setInterval(function () {
+                if (step >= orders.length - 1) stopPlaying();
+                else showStep(step + 1);
+            }, 1500);
+        };
+    }
+
+    // ─── Keyboard ───
+
+    document.addEventListener('keydown', function (e) {
+        if (e.target === search) {
+            if (e.key === 'Escape') search.blur();
+            return;
+        }
+        if (e.key === '+' || e.key === '=') zoomCenter(1 / 1.25);
+        else if (e.key === '-') zoomCenter(1.25);
+        else if (e.key === '0') fit();
+        else if (e.key === '/') { e.preventDefault(); search.focus(); }
+        else if (orders.length > 0 && (e.key === 'p' || e.key === 'P')) { if (step < 0) present(); else endPresentation(); }
+        else if (step >= 0 && (e.key === 'ArrowRight' || e.key === ' ')) { e.preventDefault(); stopPlaying(); showStep(step + 1); }
+        else if (step >= 0 && e.key === 'ArrowLeft') { stopPlaying(); showStep(step - 1); }
+        else if (e.key === 'Escape') { if (step >= 0) endPresentation(); else closeInspector(); }
+    });
+
+    apply();
+})();
+`;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function endpointId(endpoint: string | ArchNode): string {
+    return typeof endpoint === 'string' ? endpoint : endpoint.id;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
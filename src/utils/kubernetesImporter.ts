@@ -0,0 +1,329 @@
+/**
+ * Kubernetes Importer
+ * Converts Kubernetes manifests (`---` separated documents, or a `kind: List`) into DiagramData:
+ *
+ *   apiVersion: apps/v1
+ *   kind: Deployment
+ *   metadata: { name: api, namespace: shop }
+ *   spec:
+ *     selector: { matchLabels: { app: api } }
+ *     template:
+ *       metadata: { labels: { app: api } }
+ *       spec: { containers: [{ name: api, image: node:20, envFrom: [{ configMapRef: { name: api-config } }] }] }
+ *   ---
+ *   kind: Service
+ *   metadata: { name: api, namespace: shop }
+ *   spec: { selector: { app: api } }
+ *
+ * Workloads (Deployments, StatefulSets, DaemonSets, Jobs, CronJobs), Services, Ingresses,
+ * ConfigMaps, Secrets and PersistentVolumeClaims become nodes, and Namespaces become
+ * containers. Links run from Ingresses to the Services they route to, from Services to the
+ * workloads their selector matches, and from workloads to the ConfigMaps, Secrets and claims
+ * they use. Other kinds are left out. Manifests have no coordinates, so the whole diagram is
+ * auto-laid out.
+ */
+
+import { ArchNode, Link, Container, IconType } from '../types';
+import { layoutWholeDiagram } from './autoLayout';
+import { DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from './cubegenDSL';
+import { readYamlDocuments, isYamlMap, yamlString, yamlList, YamlMap } from './yamlDocuments';
+import { iconForImage } from './composeImporter';
+import type { ImportResult } from './diagramImport';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface Manifest {
+    kind: string;
+    name: string;
+    namespace: string;
+    // Whether the namespace was written, rather than defaulted
+    namespaced: boolean;
+    spec: YamlMap;
+    raw: YamlMap;
+}
+
+interface Reference {
+    kind: string;
+    name: string;
+    label?: string;
+}
+
+const WORKLOAD_KINDS = ['Deployment', 'StatefulSet', 'DaemonSet', 'ReplicaSet', 'Job', 'CronJob', 'Pod'];
+const DIAGRAM_KINDS = [...WORKLOAD_KINDS, 'Service', 'Ingress', 'ConfigMap', 'Secret', 'PersistentVolumeClaim'];
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+export function importKubernetes(source: string): ImportResult {
+    const read = readYamlDocuments(source);
+    if ('error' in read) return { success: false, errors: [read.error], warnings: [] };
+
+    const warnings: string[] = [];
+    const manifests: Manifest[] = [];
+    const namespaces = new Set<string>();
+    const skipped = new Map<string, number>();
+
+    // `kind: List` wraps other manifests in items:
+    const documents = read.documents.flatMap(doc => (isYamlMap(doc) && doc.kind === 'List' ? yamlList(doc.items) : [doc]));
+    documents.forEach(doc => {
+        if (!isYamlMap(doc)) return;
+        const kind = yamlString(doc.kind);
+        const metadata = isYamlMap(doc.metadata) ? doc.metadata : {};
+        const name = yamlString(metadata.name);
+        if (!kind || !name) {
+            warnings.push('Skipped a document without kind and metadata.name.');
+            return;
+        }
+        if (kind === 'Namespace') {
+            namespaces.add(name);
+            return;
+        }
+        if (!DIAGRAM_KINDS.includes(kind)) {
+            skipped.set(kind, (skipped.get(kind) ?? 0) + 1);
+            return;
+        }
+        const namespace = yamlString(metadata.namespace);
+        manifests.push({
+            kind,
+            name,
+            namespace: namespace ?? 'default',
+            namespaced: !!namespace,
+            spec: isYamlMap(doc.spec) ? doc.spec : {},
+            raw: doc,
+        });
+    });
+
+    if (manifests.length === 0) {
+        return { success: false, errors: ['No Deployments, Services, Ingresses or other supported manifests found.'], warnings };
+    }
+    if (skipped.size > 0) {
+        warnings.push(`Left out ${[...skipped].map(([kind, count]) => (count > 1 ? `${count} ${kind}s` : kind)).join(', ')}.`);
+    }
+
+    // Namespaces frame the diagram once there is more than the default one
+    manifests.forEach(m => {
+        if (m.namespaced) namespaces.add(m.namespace);
+    });
+    if (namespaces.size > 0 && manifests.some(m => !m.namespaced)) namespaces.add('default');
+
+    const data = toDiagram(manifests, namespaces, warnings);
+    const layout = layoutWholeDiagram(data.nodes, data.links, data.containers, { strategy: 'tiered' });
+
+    return {
+        success: true,
+        data: {
+            title: 'Kubernetes Workloads',
+            architectureType: 'kubernetes-import',
+            nodes: layout.nodes,
+            links: data.links,
+            containers: layout.containers.length > 0 ? layout.containers : undefined,
+        },
+        errors: [],
+        warnings,
+    };
+}
+
+/**
+ * Whether text looks like Kubernetes manifests
+ */
+export function isKubernetesSource(text: string): boolean {
+    return /^\s*apiVersion\s*:/m.test(text) && /^\s*kind\s*:/m.test(text);
+}
+
+// ============================================
+// CONVERSION
+// ============================================
+
+function toDiagram(
+    manifests: Manifest[],
+    namespaces: Set<string>,
+    warnings: string[]
+): { nodes: ArchNode[]; links: Link[]; containers: Container[] } {
+    // Ids are `<kind>-<name>`, qualified by namespace only where names repeat across namespaces
+    const baseId = (m: { kind: string; name: string }) => `${m.kind.toLowerCase()}-${m.name}`.replace(/[^\w-]/g, '-');
+    const repeated = new Set(manifests.map(baseId).filter((id, i, all) => all.indexOf(id) !== i));
+    const idOf = (m: Manifest) => (repeated.has(baseId(m)) ? `${m.namespace}-${baseId(m)}` : baseId(m));
+
+    const find = (namespace: string, kind: string, name: string) =>
+        manifests.find(m => m.namespace === namespace && m.kind === kind && m.name === name);
+
+    const nodes: ArchNode[] = manifests.map(m => ({
+        id: idOf(m),
+        label: m.name,
+        type: iconFor(m),
+        x: 0,
+        y: 0,
+        width: DEFAULT_NODE_WIDTH,
+        height: DEFAULT_NODE_HEIGHT,
+        description: descriptionOf(m),
+    }));
+
+    const links: Link[] = [];
+    const linked = new Set<string>();
+    const addLink = (from: Manifest, to: Manifest, label?: string) => {
+        const pair = `${idOf(from)}→${idOf(to)}`;
+        if (from === to || linked.has(pair)) return;
+        linked.add(pair);
+        links.push({ id: `link-${links.length + 1}`, source: idOf(from), target: idOf(to), ...(label && { label }) });
+    };
+
+    manifests.forEach(m => {
+        if (m.kind === 'Ingress') {
+            ingressBackends(m.spec).forEach(({ name, label }) => {
+                const service = find(m.namespace, 'Service', name);
+                if (service) addLink(m, service, label);
+                else warnings.push(`Ingress "${m.name}" routes to the Service "${name}", which is not in these manifests.`);
+            });
+        } else if (m.kind === 'Service') {
+            const selector = isYamlMap(m.spec.selector) ? m.spec.selector : undefined;
+            if (!selector || Object.keys(selector).length === 0) return;
+            const matches = manifests.filter(w => w.namespace === m.namespace && WORKLOAD_KINDS.includes(w.kind) && selects(selector, podLabels(w)));
+            if (matches.length === 0) warnings.push(`Service "${m.name}" selects no workload in these manifests.`);
+            matches.forEach(w => addLink(m, w));
+        } else if (WORKLOAD_KINDS.includes(m.kind)) {
+            podReferences(podSpec(m)).forEach(ref => {
+                const target = find(m.namespace, ref.kind, ref.name);
+                if (target) addLink(m, target, ref.label);
+            });
+        }
+    });
+
+    const containers: Container[] = [...namespaces].map(namespace => ({
+        id: `namespace-${namespace}`.replace(/[^\w-]/g, '-'),
+        label: namespace,
+        type: 'group' as const,
+        x: 0,
+        y: 0,
+        width: 0,
+        height: 0,
+        childNodeIds: manifests.filter(m => m.namespace === namespace).map(idOf),
+        description: `Namespace ${namespace}`,
+        nestingLevel: 0,
+    }));
+
+    return { nodes, links, containers };
+}
+
+function iconFor(m: Manifest): IconType {
+    switch (m.kind) {
+        case 'Service':
+            return m.spec.type === 'LoadBalancer' ? IconType.LoadBalancer : IconType.Api;
+        case 'Ingress':
+            return IconType.LoadBalancer;
+        case 'ConfigMap':
+            return IconType.Dotenv;
+        case 'Secret':
+            return IconType.SecretsManager;
+        case 'PersistentVolumeClaim':
+            return IconType.DataStore;
+        default: {
+            const image = yamlString(yamlList(podSpec(m).containers).filter(isYamlMap)[0]?.image);
+            return (image && iconForImage(image)) || IconType.Kubernetes;
+        }
+    }
+}
+
+function descriptionOf(m: Manifest): string {
+    const parts = [`${m.kind} ${m.namespaced ? `${m.namespace}/` : ''}${m.name}`];
+    if (WORKLOAD_KINDS.includes(m.kind)) {
+        const replicas = yamlString(m.spec.replicas);
+        const images = yamlList(podSpec(m).containers).filter(isYamlMap).map(c => yamlString(c.image)).filter(Boolean);
+        if (replicas) parts.push(`${replicas} replicas`);
+        if (images.length > 0) parts.push(`image ${images.join(', ')}`);
+    }
+    if (m.kind === 'Service') {
+        const ports = yamlList(m.spec.ports).filter(isYamlMap).map(p => yamlString(p.port)).filter(Boolean);
+        parts.push(yamlString(m.spec.type) ?? 'ClusterIP');
+        if (ports.length > 0) parts.push(`ports ${ports.join(', ')}`);
+    }
+    return parts.join('; ');
+}
+
+// ============================================
+// SPEC LOOKUPS
+// ============================================
+
+/**
+ * The pod template of a workload (CronJobs nest it one level deeper); a Pod is its own
+ */
+function podTemplate(m: Manifest): YamlMap {
+    if (m.kind === 'Pod') return m.raw;
+    const job = m.kind === 'CronJob' && isYamlMap(m.spec.jobTemplate) ? m.spec.jobTemplate.spec : m.spec;
+    return isYamlMap(job) && isYamlMap(job.template) ? job.template : {};
+}
+
+function podSpec(m: Manifest): YamlMap {
+    const spec = podTemplate(m).spec;
+    return isYamlMap(spec) ? spec : {};
+}
+
+function podLabels(m: Manifest): YamlMap {
+    const metadata = podTemplate(m).metadata;
+    return isYamlMap(metadata) && isYamlMap(metadata.labels) ? metadata.labels : {};
+}
+
+/**
+ * Whether every selector label is on the pod
+ */
+function selects(selector: YamlMap, labels: YamlMap): boolean {
+    return Object.entries(selector).every(([key, value]) => yamlString(labels[key]) === yamlString(value));
+}
+
+/**
+ * ConfigMaps, Secrets and claims a pod uses through env, envFrom and volumes
+ */
+function podReferences(spec: YamlMap): Reference[] {
+    const refs: Reference[] = [];
+    const add = (kind: string, name: unknown, label?: string) => {
+        const value = yamlString(name);
+        if (value) refs.push({ kind, name: value, label });
+    };
+
+    const containers = [...yamlList(spec.initContainers), ...yamlList(spec.containers)].filter(isYamlMap);
+    containers.forEach(container => {
+        yamlList(container.envFrom).filter(isYamlMap).forEach(source => {
+            if (isYamlMap(source.configMapRef)) add('ConfigMap', source.configMapRef.name, 'env');
+            if (isYamlMap(source.secretRef)) add('Secret', source.secretRef.name, 'env');
+        });
+        yamlList(container.env).filter(isYamlMap).forEach(variable => {
+            const from = isYamlMap(variable.valueFrom) ? variable.valueFrom : {};
+            if (isYamlMap(from.configMapKeyRef)) add('ConfigMap', from.configMapKeyRef.name, 'env');
+            if (isYamlMap(from.secretKeyRef)) add('Secret', from.secretKeyRef.name, 'env');
+        });
+    });
+
+    yamlList(spec.volumes).filter(isYamlMap).forEach(volume => {
+        if (isYamlMap(volume.configMap)) add('ConfigMap', volume.configMap.name, 'volume');
+        if (isYamlMap(volume.secret)) add('Secret', volume.secret.secretName, 'volume');
+        if (isYamlMap(volume.persistentVolumeClaim)) add('PersistentVolumeClaim', volume.persistentVolumeClaim.claimName, 'volume');
+    });
+    return refs;
+}
+
+/**
+ * Services an Ingress routes to, labelled with host and path (networking.k8s.io/v1 and v1beta1)
+ */
+function ingressBackends(spec: YamlMap): { name: string; label?: string }[] {
+    const serviceOf = (backend: unknown): string | undefined => {
+        if (!isYamlMap(backend)) return undefined;
+        return isYamlMap(backend.service) ? yamlString(backend.service.name) : yamlString(backend.serviceName);
+    };
+
+    const backends: { name: string; label?: string }[] = [];
+    const fallback = serviceOf(spec.defaultBackend ?? spec.backend);
+    if (fallback) backends.push({ name: fallback });
+
+    yamlList(spec.rules).filter(isYamlMap).forEach(rule => {
+        const host = yamlString(rule.host);
+        const paths = isYamlMap(rule.http) ? yamlList(rule.http.paths).filter(isYamlMap) : [];
+        paths.forEach(path => {
+            const name = serviceOf(path.backend);
+            const label = `${host ?? ''}${yamlString(path.path) ?? ''}`;
+            if (name) backends.push({ name, label: label || undefined });
+        });
+    });
+    return backends;
+}
@@ -270,6 +270,54 @@ export class LayoutDecisionEngine {
         };
     }
 
+    /**
+     * Analyzes an already-known graph (e.g. parsed from code) instead of a prompt.
+     * Keyword detection runs over labels and icon types, then the graph shape
+     * (hubs, linear chains) can override the detected pattern.
+     */
+    analyzeGraph(
+        nodes: { id: string; label: string; type: string }[],
+        links: { source: string; target: string }[]
+    ): ArchitectureAnalysis {
+        const text = nodes.map(n => `${n.label} ${n.type.replace(/-/g, ' ')}`).join(' ').toLowerCase();
+
+        const detected = this.detectPattern(text);
+        const pattern = this.detectStructuralPattern(nodes, links) || detected.pattern;
+        const confidence = pattern === detected.pattern ? detected.confidence : 1;
+
+        const components: ComponentInfo[] = nodes.map(n => {
+            const name = n.label.toLowerCase();
+            const match = Object.entries(COMPONENT_CATEGORIES).find(([keyword]) => name.includes(keyword) || n.type.includes(keyword));
+            const category = match ? match[1] : 'processing';
+            return {
+                id: n.id,
+                name: n.label,
+                type: n.type,
+                category,
+                importance: category === 'processing' ? 'critical' : 'important'
+            };
+        });
+
+        const relationships: RelationshipInfo[] = links.map(l => ({
+            source: l.source,
+            target: l.target,
+            type: 'data-flow',
+            strength: 'medium'
+        }));
+
+        return {
+            pattern,
+            confidence,
+            components,
+            relationships,
+            suggestedLayout: this.mapPatternToLayout(pattern),
+            containerHint: this.determineContainerHint(pattern),
+            flowDirection: this.determineFlowDirection(pattern),
+            layerCount: this.estimateLayerCount(components, pattern),
+            metadata: this.extractMetadata(text)
+        };
+    }
+
     /**
      * Determines the optimal layout configuration based on analysis
      */
@@ -380,6 +428,30 @@ export class LayoutDecisionEngine {
         return { pattern: bestPattern, confidence };
     }
 
+    private detectStructuralPattern(
+        nodes: { id: string }[],
+        links: { source: string; target: string }[]
+    ): ArchitecturePattern | null {
+        if (nodes.length < 3 || links.length === 0) return null;
+
+        const inDegree = new Map<string, number>();
+        const outDegree = new Map<string, number>();
+        links.forEach(l => {
+            outDegree.set(l.source, (outDegree.get(l.source) || 0) + 1);
+            inDegree.set(l.target, (inDegree.get(l.target) || 0) + 1);
+        });
+
+        // One node touching most of the graph is a hub
+        const maxDegree = Math.max(...nodes.map(n => (inDegree.get(n.id) || 0) + (outDegree.get(n.id) || 0)));
+        if (maxDegree >= 3 && maxDegree >= (nodes.length - 1) * 0.6) return 'hub-spoke';
+
+        // Every node has at most one way in and one way out: a straight chain
+        const isChain = nodes.every(n => (inDegree.get(n.id) || 0) <= 1 && (outDegree.get(n.id) || 0) <= 1);
+        if (isChain && links.length === nodes.length - 1) return 'pipeline';
+
+        return null;
+    }
+
     private extractComponents(prompt: string): ComponentInfo[] {
         const components: ComponentInfo[] = [];
         const words = prompt.split(/\s+/);
@@ -0,0 +1,596 @@
+/**
+ * Mermaid Flowchart Importer
+ * Converts a Mermaid `flowchart`/`graph` (on its own or in the ```mermaid blocks of a
+ * Markdown file) into DiagramData:
+ *
+ *   flowchart LR
+ *       client([Browser]) -->|HTTPS| lb{{Load Balancer}}
+ *       subgraph backend [Backend]
+ *           api[API] -.-> db[(Postgres)]
+ *       end
+ *       lb ==> api
+ *
+ * Nodes become ArchNodes (the bracket form picks the shape), edges become Links
+ * (`-->` solid, `-.->` dotted, `==>` thick, `<-->` bidirectional, `---` without arrowhead)
+ * and subgraphs become Containers, nested as written. Mermaid has no coordinates, so the
+ * whole diagram is auto-laid out along the flowchart's direction.
+ *
+ * Styling statements (`style`, `classDef`/`class`/`:::`, `linkStyle`) carry over fill,
+ * stroke and dash; the rest (`click`, accessibility text) is skipped with a warning.
+ */
+
+import { ArchNode, Link, Container, NodeShape, IconType } from '../types';
+import { layoutWholeDiagram } from './autoLayout';
+import { LayoutStrategy } from './layoutDecisionEngine';
+import type { ImportResult } from './diagramImport';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface MermaidNode {
+    id: string;
+    label: string;
+    shape?: NodeShape;
+    classes: string[];
+    // Innermost subgraph the node was first written in
+    subgraphId?: string;
+}
+
+interface MermaidEdge {
+    source: string;
+    target: string;
+    label?: string;
+    kind: 'solid' | 'dotted' | 'thick' | 'invisible';
+    arrow: boolean;
+    bidirectional: boolean;
+    line: number;
+}
+
+interface MermaidSubgraph {
+    id: string;
+    label: string;
+    parentId?: string;
+    direction?: 'horizontal' | 'vertical';
+    classes: string[];
+}
+
+/** Fill/stroke declarations of `style`, `classDef` and `linkStyle` */
+type StyleDeclarations = Record<string, string>;
+
+// Shape brackets, longest opener first so `((` is not read as `(`
+const SHAPES: { open: string; close: string[]; shape?: NodeShape }[] = [
+    { open: '(((', close: [')))'], shape: 'circle' },
+    { open: '((', close: ['))'], shape: 'circle' },
+    { open: '([', close: ['])'], shape: 'rounded-rectangle' },
+    { open: '[[', close: [']]'], shape: 'component' },
+    { open: '[(', close: [')]'], shape: 'cylinder' },
+    { open: '{{', close: ['}}'], shape: 'hexagon' },
+    { open: '[/', close: ['/]', '\\]'], shape: 'parallelogram' },
+    { open: '[\\', close: ['\\]', '/]'], shape: 'parallelogram' },
+    { open: '[', close: [']'] },
+    { open: '(', close: [')'], shape: 'rounded-rectangle' },
+    { open: '{', close: ['}'], shape: 'diamond' },
+    { open: '>', close: [']'], shape: 'step' },
+];
+
+const NODE_ID = /^[\w]+(?:-(?=\w)\w+)*/;
+// Arrows with the label between the dashes: `-- text -->`, `-. text .->`, `== text ==>`
+// (an `o`/`x` head must not be the start of the next node's id)
+const TEXT_EDGE = /^(<)?(--|-\.|==)\s+(.+?)\s*(-{2,}(?:>|[ox](?!\w))?|\.-+(?:>|[ox](?!\w))?|={2,}(?:>|[ox](?!\w))?)/;
+const EDGE = /^(<)?(-{2,}|-\.+-|={2,}|~{3,})(>|[ox](?!\w))?/;
+const DIRECTIONS: Record<string, 'horizontal' | 'vertical'> = { LR: 'horizontal', RL: 'horizontal', TB: 'vertical', TD: 'vertical', BT: 'vertical' };
+
+const NODE_SIZE = { width: 140, height: 80 };
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Import the first flowchart in Mermaid source or Markdown
+ */
+export function importMermaid(source: string): ImportResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const block = findFlowchart(source, warnings);
+    if (!block) {
+        return { success: false, errors: ['No Mermaid flowchart found. Only `flowchart` and `graph` diagrams can be imported.'], warnings };
+    }
+
+    const parser = new FlowchartParser(warnings);
+    block.lines.forEach((text, index) => parser.parseLine(text, block.firstLine + index));
+    const { nodes, edges, subgraphs, title } = parser.finish();
+
+    if (nodes.size === 0) {
+        return { success: false, errors: ['The flowchart has no nodes.'], warnings };
+    }
+
+    const data = toDiagram(parser, nodes, edges, subgraphs, warnings);
+    const strategy: LayoutStrategy = block.direction === 'horizontal' ? 'tiered' : 'layered';
+    const layout = layoutWholeDiagram(data.nodes, data.links, data.containers, { strategy });
+
+    return {
+        success: errors.length === 0,
+        data: {
+            title: title || block.title || 'Imported Mermaid Flowchart',
+            architectureType: 'mermaid-import',
+            nodes: layout.nodes,
+            links: data.links,
+            containers: layout.containers.length > 0 ? layout.containers : undefined,
+        },
+        errors,
+        warnings,
+    };
+}
+
+/**
+ * Whether text looks like Mermaid source or Markdown with a Mermaid block
+ */
+export function isMermaidSource(text: string): boolean {
+    return /```mermaid/.test(text) || /^\s*(%%.*\n\s*)*(---[\s\S]*?---\s*)?(flowchart|graph)\b/.test(text);
+}
+
+// ============================================
+// SOURCE
+// ============================================
+
+interface FlowchartBlock {
+    lines: string[];
+    // Line number of lines[0] in the whole file
+    firstLine: number;
+    direction: 'horizontal' | 'vertical';
+    // From the front matter
+    title?: string;
+}
+
+/**
+ * The first flowchart: the whole text, or one of the ```mermaid fences of a Markdown file
+ */
+function findFlowchart(source: string, warnings: string[]): FlowchartBlock | null {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+
+    const blocks: { start: number; end: number }[] = [];
+    let open = -1;
+    lines.forEach((line, i) => {
+        if (open < 0 && /^\s*(```|~~~)\s*mermaid\b/.test(line)) open = i + 1;
+        else if (open >= 0 && /^\s*(```|~~~)\s*$/.test(line)) {
+            blocks.push({ start: open, end: i });
+            open = -1;
+        }
+    });
+    if (blocks.length === 0 && !/```/.test(source)) blocks.push({ start: 0, end: lines.length });
+
+    const flowcharts = blocks.flatMap(({ start, end }) => {
+        // Skip front matter and comments before the diagram type
+        let i = start;
+        let title: string | undefined;
+        if (lines[i]?.trim() === '---') {
+            i++;
+            while (i < end && lines[i].trim() !== '---') {
+                title = lines[i].match(/^title:\s*(.*)$/)?.[1].replace(/^["']|["']$/g, '') ?? title;
+                i++;
+            }
+            i++;
+        }
+        while (i < end && (lines[i].trim() === '' || lines[i].trim().startsWith('%%'))) i++;
+        const header = lines[i]?.trim().match(/^(flowchart|graph)(?:\s+(TB|TD|BT|LR|RL)\b)?\s*;?\s*(.*)$/i);
+        if (!header || i >= end) return [];
+
+        const direction = DIRECTIONS[(header[2] ?? 'TB').toUpperCase()] ?? 'vertical';
+        // `graph LR; A --> B` keeps statements on the header line
+        return [{ lines: [header[3], ...lines.slice(i + 1, end)], firstLine: i + 1, direction, title }];
+    });
+
+    if (flowcharts.length > 1) warnings.push(`Found ${flowcharts.length} flowcharts; imported the first one.`);
+    return flowcharts[0] ?? null;
+}
+
+// ============================================
+// PARSER
+// ============================================
+
+class FlowchartParser {
+    private nodes = new Map<string, MermaidNode>();
+    private edges: MermaidEdge[] = [];
+    private subgraphs = new Map<string, MermaidSubgraph>();
+    private stack: string[] = [];
+    private title = '';
+    nodeStyles = new Map<string, StyleDeclarations>();
+    classDefs = new Map<string, StyleDeclarations>();
+    linkStyles = new Map<number | 'default', StyleDeclarations>();
+
+    constructor(private warnings: string[]) { }
+
+    parseLine(text: string, line: number) {
+        splitStatements(stripComment(text)).forEach(statement => this.parseStatement(statement, line));
+    }
+
+    finish() {
+        this.stack.forEach(id => this.warnings.push(`Subgraph "${id}" is missing its "end".`));
+        return { nodes: this.nodes, edges: this.edges, subgraphs: this.subgraphs, title: this.title };
+    }
+
+    private warn(line: number, message: string) {
+        this.warnings.push(`Line ${line}: ${message}`);
+    }
+
+    private parseStatement(statement: string, line: number) {
+        const [keyword] = statement.split(/\s+/, 1);
+
+        switch (keyword) {
+            case 'subgraph':
+                return this.openSubgraph(statement.substring(keyword.length).trim(), line);
+            case 'end':
+                if (statement !== 'end') break;
+                if (!this.stack.pop()) this.warn(line, '"end" without a subgraph.');
+                return;
+            case 'direction': {
+                const direction = DIRECTIONS[statement.substring(keyword.length).trim().toUpperCase()];
+                const current = this.stack.length > 0 ? this.subgraphs.get(this.stack[this.stack.length - 1]) : undefined;
+                if (current && direction) current.direction = direction;
+                return;
+            }
+            case 'style': {
+                const [, id, declarations] = statement.match(/^style\s+(\S+)\s+(.*)$/) ?? [];
+                if (id) this.nodeStyles.set(id, { ...this.nodeStyles.get(id), ...parseDeclarations(declarations) });
+                return;
+            }
+            case 'classDef': {
+                const [, names, declarations] = statement.match(/^classDef\s+(\S+)\s+(.*)$/) ?? [];
+                names?.split(',').forEach(name => this.classDefs.set(name, parseDeclarations(declarations)));
+                return;
+            }
+            case 'class': {
+                const [, ids, name] = statement.match(/^class\s+(\S+)\s+(\S+)$/) ?? [];
+                ids?.split(',').forEach(id => this.addClass(id, name));
+                return;
+            }
+            case 'linkStyle': {
+                const [, indexes, declarations] = statement.match(/^linkStyle\s+(\S+)\s+(.*)$/) ?? [];
+                indexes?.split(',').forEach(index => {
+                    this.linkStyles.set(index === 'default' ? 'default' : Number(index), parseDeclarations(declarations));
+                });
+                return;
+            }
+            case 'title':
+                this.title = statement.substring(keyword.length).trim();
+                return;
+            case 'click':
+            case 'accTitle:':
+            case 'accDescr:':
+            case 'accDescr':
+                this.warn(line, `"${keyword.replace(':', '')}" statements are not imported.`);
+                return;
+        }
+
+        this.parseChain(statement, line);
+    }
+
+    private openSubgraph(rest: string, line: number) {
+        // subgraph id, subgraph id [Title], subgraph id["Title"], subgraph "Title", subgraph Title with spaces
+        const bracketed = rest.match(/^([\w-]+)\s*\[\s*(.*?)\s*\]$/);
+        const single = rest.match(/^[\w-]+$/);
+        const quoted = rest.match(/^"(.*)"$/);
+        const label = cleanLabel(bracketed ? bracketed[2] : quoted ? quoted[1] : rest) || 'Subgraph';
+        let id = bracketed ? bracketed[1] : single ? rest : slug(label);
+
+        if (this.subgraphs.has(id)) {
+            this.warn(line, `Subgraph "${id}" is declared twice; the second one was renamed.`);
+            let n = 2;
+            while (this.subgraphs.has(`${id}-${n}`)) n++;
+            id = `${id}-${n}`;
+        }
+
+        this.subgraphs.set(id, { id, label, parentId: this.stack[this.stack.length - 1], classes: [] });
+        this.stack.push(id);
+    }
+
+    /**
+     * `a & b --> c -->|label| d`: node groups joined by edges
+     */
+    private parseChain(statement: string, line: number) {
+        const scanner = { text: statement, pos: 0 };
+        let previous = this.parseGroup(scanner);
+        if (!previous) {
+            this.warn(line, `Could not read "${statement}".`);
+            return;
+        }
+
+        while (skipSpaces(scanner) < scanner.text.length) {
+            const edge = readEdge(scanner);
+            if (!edge) {
+                this.warn(line, `Unexpected "${scanner.text.substring(scanner.pos)}" after "${scanner.text.substring(0, scanner.pos).trim()}".`);
+                return;
+            }
+            const next = this.parseGroup(scanner);
+            if (!next) {
+                this.warn(line, `Edge "${edge.operator}" has no target.`);
+                return;
+            }
+            previous.forEach(source => next.forEach(target => {
+                this.edges.push({ ...edge, source, target, line });
+            }));
+            previous = next;
+        }
+    }
+
+    private parseGroup(scanner: Scanner): string[] | null {
+        const ids: string[] = [];
+        do {
+            skipSpaces(scanner);
+            const id = this.parseNode(scanner);
+            if (!id) return null;
+            ids.push(id);
+            skipSpaces(scanner);
+        } while (scanner.text[scanner.pos] === '&' && ++scanner.pos);
+        return ids;
+    }
+
+    private parseNode(scanner: Scanner): string | null {
+        const match = scanner.text.substring(scanner.pos).match(NODE_ID);
+        if (!match) return null;
+        const id = match[0];
+        scanner.pos += id.length;
+
+        let label: string | undefined;
+        let shape: NodeShape | undefined;
+        const rest = scanner.text.substring(scanner.pos);
+        const form = SHAPES.find(s => rest.startsWith(s.open));
+        if (form) {
+            const body = readShapeBody(rest.substring(form.open.length), form.close);
+            if (body) {
+                label = cleanLabel(body.text);
+                shape = form.shape;
+                scanner.pos += form.open.length + body.length;
+            }
+        }
+
+        const classMatch = scanner.text.substring(scanner.pos).match(/^:::([\w-]+)/);
+        if (classMatch) scanner.pos += classMatch[0].length;
+
+        const existing = this.nodes.get(id);
+        if (existing) {
+            if (label !== undefined) {
+                existing.label = label;
+                existing.shape = shape;
+            }
+            existing.subgraphId ??= this.stack[this.stack.length - 1];
+        } else {
+            this.nodes.set(id, { id, label: label ?? id, shape, classes: [], subgraphId: this.stack[this.stack.length - 1] });
+        }
+        if (classMatch) this.addClass(id, classMatch[1]);
+        return id;
+    }
+
+    private addClass(id: string, name: string) {
+        const target = this.nodes.get(id) ?? this.subgraphs.get(id);
+        if (target) target.classes.push(name);
+        else this.nodes.set(id, { id, label: id, classes: [name] });
+    }
+}
+
+interface Scanner {
+    text: string;
+    pos: number;
+}
+
+function skipSpaces(scanner: Scanner): number {
+    while (/\s/.test(scanner.text[scanner.pos] ?? '')) scanner.pos++;
+    return scanner.pos;
+}
+
+/**
+ * The label and closing bracket of a node shape; quoted labels may contain brackets
+ */
+function readShapeBody(text: string, closers: string[]): { text: string; length: number } | null {
+    const quoted = text.match(/^\s*"([^"]*)"\s*/);
+    const start = quoted ? quoted[0].length : 0;
+    let best = -1;
+    let closer = '';
+    closers.forEach(c => {
+        const at = text.indexOf(c, start);
+        if (at >= 0 && (best < 0 || at < best)) {
+            best = at;
+            closer = c;
+        }
+    });
+    if (best < 0) return null;
+    return { text: quoted ? quoted[1] : text.substring(0, best), length: best + closer.length };
+}
+
+function readEdge(scanner: Scanner): Omit<MermaidEdge, 'source' | 'target' | 'line'> & { operator: string } | null {
+    const rest = scanner.text.substring(scanner.pos);
+
+    const texted = rest.match(TEXT_EDGE);
+    const plain = texted ? null : rest.match(EDGE);
+    const match = texted ?? plain;
+    if (!match) return null;
+    scanner.pos += match[0].length;
+
+    const operator = texted ? `${texted[2]}${texted[4]}` : plain![2];
+    const head = texted ? texted[4].slice(-1) : plain![3] ?? '';
+    const kind = operator.startsWith('~') ? 'invisible'
+        : operator.includes('.') ? 'dotted'
+            : operator.startsWith('=') ? 'thick' : 'solid';
+    const arrow = /[>ox]/.test(head);
+
+    let label = texted ? cleanLabel(texted[3]) : undefined;
+    const piped = scanner.text.substring(scanner.pos).match(/^\s*\|([^|]*)\|/);
+    if (piped) {
+        label = cleanLabel(piped[1]);
+        scanner.pos += piped[0].length;
+    }
+
+    return { operator: match[0], label: label || undefined, kind, arrow, bidirectional: match[1] === '<' && arrow };
+}
+
+function stripComment(text: string): string {
+    const at = text.indexOf('%%');
+    return at >= 0 ? text.substring(0, at) : text;
+}
+
+/**
+ * Split a line on `;`, except inside quotes and brackets
+ */
+function splitStatements(text: string): string[] {
+    const statements: string[] = [];
+    let depth = 0;
+    let quoted = false;
+    let current = '';
+    for (const char of text) {
+        if (char === '"') quoted = !quoted;
+        else if (!quoted && '[({'.includes(char)) depth++;
+        else if (!quoted && '])}'.includes(char)) depth = Math.max(0, depth - 1);
+        if (char === ';' && !quoted && depth === 0) {
+            statements.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    statements.push(current);
+    return statements.map(s => s.trim()).filter(Boolean);
+}
+
+const ENTITIES: Record<string, string> = { quot: '"', amp: '&', lt: '<', gt: '>', nbsp: ' ' };
+
+/**
+ * Plain text of a Mermaid label: quotes, markdown backticks, line breaks and entity codes removed
+ */
+function cleanLabel(text: string): string {
+    return text.trim()
+        .replace(/^"(.*)"$/s, '$1')
+        .replace(/^`(.*)`$/s, '$1')
+        .replace(/<br\s*\/?>/gi, ' ')
+        .replace(/#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+        .replace(/#(\w+);/g, (entity: string, name: string) => ENTITIES[name] ?? entity)
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function parseDeclarations(text = ''): StyleDeclarations {
+    const declarations: StyleDeclarations = {};
+    text.split(',').forEach(part => {
+        const [key, ...value] = part.split(':');
+        if (key && value.length > 0) declarations[key.trim()] = value.join(':').trim();
+    });
+    return declarations;
+}
+
+function slug(text: string): string {
+    return text.toLowerCase().replace(/[^\w]+/g, '-').replace(/^-+|-+$/g, '') || 'subgraph';
+}
+
+// ============================================
+// CONVERSION
+// ============================================
+
+function toDiagram(
+    parser: FlowchartParser,
+    nodes: Map<string, MermaidNode>,
+    edges: MermaidEdge[],
+    subgraphs: Map<string, MermaidSubgraph>,
+    warnings: string[]
+): { nodes: ArchNode[]; links: Link[]; containers: Container[] } {
+    // Edges may name a subgraph, which is not a node here
+    const archNodes: ArchNode[] = [...nodes.values()]
+        .filter(n => !subgraphs.has(n.id))
+        .map(n => ({
+            ...nodeStyle(n.classes.map(c => parser.classDefs.get(c)), parser.nodeStyles.get(n.id)),
+            id: n.id,
+            label: n.label,
+            type: IconType.Generic,
+            x: 0,
+            y: 0,
+            width: NODE_SIZE.width,
+            height: NODE_SIZE.height,
+            ...(n.shape && { shape: n.shape }),
+        }));
+
+    const links: Link[] = [];
+    edges.forEach((edge, index) => {
+        // Link styles are numbered by edge, invisible ones included
+        if (edge.kind === 'invisible') return;
+        const endpoint = [edge.source, edge.target].find(id => subgraphs.has(id));
+        if (endpoint) {
+            warnings.push(`Line ${edge.line}: the edge ${edge.source} → ${edge.target} was skipped: links connect nodes, and "${endpoint}" is a subgraph.`);
+            return;
+        }
+        links.push({
+            ...linkStyle(parser.linkStyles.get('default'), parser.linkStyles.get(index)),
+            id: `link-${index + 1}`,
+            source: edge.source,
+            target: edge.target,
+            ...(edge.label && { label: edge.label }),
+            ...(edge.kind === 'dotted' && { style: 'dotted' as const }),
+            ...(edge.kind === 'thick' && { thickness: 'thick' as const }),
+            ...(!edge.arrow && { arrowheadStyle: 'none' as const }),
+            ...(edge.bidirectional && { bidirectional: true }),
+        });
+    });
+
+    const levelOf = (subgraph: MermaidSubgraph): number => subgraph.parentId ? levelOf(subgraphs.get(subgraph.parentId)!) + 1 : 0;
+    const containers: Container[] = [...subgraphs.values()].map(s => {
+        const childContainerIds = [...subgraphs.values()].filter(c => c.parentId === s.id).map(c => c.id);
+        return {
+            ...containerStyle(s.classes.map(c => parser.classDefs.get(c)), parser.nodeStyles.get(s.id)),
+            id: s.id,
+            label: s.label,
+            type: 'group' as const,
+            x: 0,
+            y: 0,
+            width: 0,
+            height: 0,
+            childNodeIds: archNodes.filter(n => nodes.get(n.id)!.subgraphId === s.id).map(n => n.id),
+            ...(childContainerIds.length > 0 && { childContainerIds }),
+            ...(s.parentId && { parentContainerId: s.parentId }),
+            ...(s.direction && { orientation: s.direction }),
+            nestingLevel: levelOf(s),
+        };
+    });
+
+    return { nodes: archNodes, links, containers };
+}
+
+/**
+ * Fill, stroke and dash from class definitions, then the element's own `style`
+ */
+function mergedStyle(classes: (StyleDeclarations | undefined)[], own: StyleDeclarations | undefined): StyleDeclarations {
+    return Object.assign({}, ...classes.filter(Boolean), own);
+}
+
+function nodeStyle(classes: (StyleDeclarations | undefined)[], own: StyleDeclarations | undefined): Partial<ArchNode> {
+    const style = mergedStyle(classes, own);
+    return {
+        ...(style.fill && { color: style.fill }),
+        ...(style.stroke && { borderColor: style.stroke }),
+        ...(style['stroke-dasharray'] && { borderStyle: 'dashed' as const }),
+        ...(style['stroke-width'] && { borderWidth: borderWidth(style['stroke-width']) }),
+    };
+}
+
+function containerStyle(classes: (StyleDeclarations | undefined)[], own: StyleDeclarations | undefined): Partial<Container> {
+    const style = mergedStyle(classes, own);
+    return {
+        ...(style.fill && { color: style.fill }),
+        ...(style.stroke && { borderColor: style.stroke }),
+        ...(style['stroke-dasharray'] && { borderStyle: 'dashed' as const }),
+    };
+}
+
+function linkStyle(fallback: StyleDeclarations | undefined, own: StyleDeclarations | undefined): Partial<Link> {
+    const style = { ...fallback, ...own };
+    const width = parseFloat(style['stroke-width'] ?? '');
+    return {
+        ...(style.stroke && { color: style.stroke }),
+        ...(width > 0 && { strokeWidth: Math.min(10, Math.round(width)) }),
+        ...(style['stroke-dasharray'] && { style: 'dashed' as const }),
+    };
+}
+
+function borderWidth(value: string): ArchNode['borderWidth'] {
+    const width = parseFloat(value);
+    return width <= 1 ? 'thin' : width >= 3 ? 'thick' : 'medium';
+}
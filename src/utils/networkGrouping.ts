@@ -0,0 +1,123 @@
+/**
+ * Network Grouping
+ * Places the resources of the infrastructure importers (Terraform, CloudFormation) in the
+ * networks they declare: VPCs, subnets and security groups become containers, nested by
+ * their references. Each importer reads references its own way and hands them over as
+ * callbacks.
+ */
+
+import { Container } from '../types';
+
+export type NetworkContainerType = 'vpc' | 'subnet' | 'security-group';
+
+const CONTAINER_NAMES: Record<NetworkContainerType, string> = {
+    vpc: 'VPC',
+    subnet: 'subnet',
+    'security-group': 'security group',
+};
+
+/**
+ * The ways a resource says which network it is in, most specific first; a subnet group
+ * lists its subnets in turn
+ */
+export type NetworkReference = 'subnet' | 'subnetGroup' | 'securityGroup' | 'vpc';
+
+export interface NetworkLookup {
+    // Container type of each network resource, by resource key
+    containerTypes: Map<string, NetworkContainerType>;
+    // Keys of the resources that become nodes
+    nodeKeys: string[];
+    // Keys a network resource refers to as the network around it
+    parentReferences: (key: string) => string[];
+    // Keys a resource refers to in the given way
+    references: (key: string, kind: NetworkReference) => string[];
+}
+
+export interface NetworkGrouping {
+    // The networks kept as containers; security groups only when something is in them
+    containerTypes: Map<string, NetworkContainerType>;
+    // Network key → the VPC around it
+    parents: Map<string, string>;
+    // Node key → the innermost network it sits in
+    membership: Map<string, string>;
+    // Security groups left out because their members are drawn in other networks
+    warnings: string[];
+}
+
+/**
+ * Nest the networks and put each node in the innermost one it references
+ */
+export function groupByNetwork({ containerTypes, nodeKeys, parentReferences, references }: NetworkLookup): NetworkGrouping {
+    const containerOf = (keys: string[], type: NetworkContainerType) => keys.find(key => containerTypes.get(key) === type);
+    const subnetsOf = (key: string) => references(key, 'subnet').filter(k => containerTypes.get(k) === 'subnet');
+
+    const parents = new Map<string, string>();
+    containerTypes.forEach((_, key) => {
+        const parent = containerOf(parentReferences(key), 'vpc');
+        if (parent && parent !== key) parents.set(key, parent);
+    });
+
+    const membership = new Map<string, string>();
+    nodeKeys.forEach(key => {
+        let subnets = subnetsOf(key);
+        // Databases and caches name a subnet group instead
+        if (subnets.length === 0) subnets = references(key, 'subnetGroup').flatMap(subnetsOf);
+        const vpcs = new Set(subnets.map(s => parents.get(s)));
+        const container = subnets.length === 1 ? subnets[0]
+            // A resource spread over subnets goes in the VPC they share
+            : subnets.length > 1 && vpcs.size === 1 && [...vpcs][0] ? [...vpcs][0]
+                : subnets[0]
+                ?? containerOf(references(key, 'securityGroup'), 'security-group')
+                ?? containerOf(references(key, 'vpc'), 'vpc');
+        if (container) membership.set(key, container);
+    });
+
+    const members = new Set(membership.values());
+    const warnings: string[] = [];
+    containerTypes.forEach((type, key) => {
+        if (type !== 'security-group' || members.has(key)) return;
+        const shownIn = [...new Set(nodeKeys
+            .filter(k => references(k, 'securityGroup').includes(key))
+            .map(k => membership.get(k))
+            .filter((container): container is string => container !== undefined))];
+        if (shownIn.length === 0) return;
+        const places = shownIn.map(container => `${CONTAINER_NAMES[containerTypes.get(container)!]} "${container}"`).join(', ');
+        warnings.push(`Security group "${key}" not drawn: its members are shown in ${places}.`);
+    });
+
+    return {
+        containerTypes: new Map([...containerTypes].filter(([key, type]) => type !== 'security-group' || members.has(key))),
+        parents,
+        membership,
+        warnings,
+    };
+}
+
+/**
+ * The grouping as diagram containers, to be sized by the auto-layout
+ */
+export function networkContainers(
+    { containerTypes, parents, membership }: NetworkGrouping,
+    nodeKeys: string[],
+    idOf: (key: string) => string,
+    describe: (key: string) => { label: string; description: string }
+): Container[] {
+    const levelOf = (key: string): number => parents.has(key) && containerTypes.has(parents.get(key)!) ? levelOf(parents.get(key)!) + 1 : 0;
+    return [...containerTypes].map(([key, type]) => {
+        const parent = parents.get(key);
+        const childContainerIds = [...containerTypes.keys()].filter(k => parents.get(k) === key).map(idOf);
+        return {
+            id: idOf(key),
+            ...describe(key),
+            type,
+            x: 0,
+            y: 0,
+            width: 0,
+            height: 0,
+            childNodeIds: nodeKeys.filter(k => membership.get(k) === key).map(idOf),
+            ...(childContainerIds.length > 0 && { childContainerIds }),
+            ...(parent && containerTypes.has(parent) && { parentContainerId: idOf(parent) }),
+            nestingLevel: levelOf(key),
+        };
+    });
+}
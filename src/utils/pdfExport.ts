@@ -0,0 +1,164 @@
+/**
+ * PDF Export
+ * Lays a standalone diagram SVG (see svgExport) out on printable pages. The result is an
+ * HTML document with one element per page and an @page rule, which Chromium prints to a
+ * vector PDF: through Electron's printToPDF in the desktop app, the print dialog otherwise.
+ *
+ * - "fit" scales the whole diagram onto one page
+ * - "tile" prints it at 100% (one diagram unit per CSS pixel) across as many pages as it
+ *   needs, left to right then top to bottom
+ *
+ * The optional title block along the bottom of each page shows the title, architecture
+ * type, date and page number.
+ */
+
+import type { DiagramData } from '../types';
+import type { StandaloneSvg } from './svgExport';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PdfPageSize = 'A4' | 'A3' | 'Letter' | 'Legal' | 'Tabloid';
+export type PdfOrientation = 'portrait' | 'landscape';
+export type PdfLayout = 'fit' | 'tile';
+
+export interface PdfExportOptions {
+    pageSize: PdfPageSize;
+    orientation: PdfOrientation;
+    layout: PdfLayout;
+    titleBlock: boolean;
+}
+
+export interface PdfDocument {
+    html: string;
+    pageCount: number;
+}
+
+// Portrait width and height in millimetres
+export const PDF_PAGE_SIZES: Record<PdfPageSize, { label: string; width: number; height: number }> = {
+    A4: { label: 'A4', width: 210, height: 297 },
+    A3: { label: 'A3', width: 297, height: 420 },
+    Letter: { label: 'US Letter', width: 215.9, height: 279.4 },
+    Legal: { label: 'US Legal', width: 215.9, height: 355.6 },
+    Tabloid: { label: 'Tabloid', width: 279.4, height: 431.8 },
+};
+
+export const DEFAULT_PDF_OPTIONS: PdfExportOptions = {
+    pageSize: 'A4',
+    orientation: 'landscape',
+    layout: 'fit',
+    titleBlock: true,
+};
+
+const MM_PER_PX = 25.4 / 96;
+const PAGE_MARGIN = 10;
+const TITLE_BLOCK_HEIGHT = 12;
+const TITLE_BLOCK_GAP = 4;
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * The page dimensions in millimetres, after orientation
+ */
+export function pdfPageDimensions(options: PdfExportOptions): { width: number; height: number } {
+    const { width, height } = PDF_PAGE_SIZES[options.pageSize];
+    return options.orientation === 'landscape' ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Lay the diagram out on pages; `svg` must come from buildStandaloneSvg
+ */
+export function buildPdfDocument(svg: StandaloneSvg, data: DiagramData, options: PdfExportOptions): PdfDocument {
+    const page = pdfPageDimensions(options);
+    const drawingWidth = page.width - PAGE_MARGIN * 2;
+    const drawingHeight = page.height - PAGE_MARGIN * 2 - (options.titleBlock ? TITLE_BLOCK_HEIGHT + TITLE_BLOCK_GAP : 0);
+
+    const source = new DOMParser().parseFromString(svg.text, 'image/svg+xml').documentElement;
+    if (source.nodeName !== 'svg') throw new Error('The diagram SVG could not be read.');
+
+    // Embedded fonts apply to the whole document, so they go in the head once rather than on every page
+    const fontCss = Array.from(source.getElementsByTagName('style')).map(style => {
+        style.remove();
+        return style.textContent ?? '';
+    }).join('\n');
+
+    const tiles = options.layout === 'tile'
+        ? tileViewBoxes(svg, drawingWidth / MM_PER_PX, drawingHeight / MM_PER_PX)
+        : [{ x: 0, y: 0, width: svg.width, height: svg.height }];
+
+    const date = new Date().toLocaleDateString();
+    const pages = tiles.map((tile, index) => {
+        const drawing = source.cloneNode(true) as Element;
+        drawing.setAttribute('viewBox', `${tile.x} ${tile.y} ${tile.width} ${tile.height}`);
+        drawing.setAttribute('width', '100%');
+        drawing.setAttribute('height', '100%');
+        drawing.setAttribute('preserveAspectRatio', options.layout === 'tile' ? 'xMinYMin meet' : 'xMidYMid meet');
+        const titleBlock = options.titleBlock ? renderTitleBlock(data, date, index + 1, tiles.length) : '';
+        return `<section class="page"><div class="drawing">${new XMLSerializer().serializeToString(drawing)}</div>${titleBlock}</section>`;
+    });
+
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(data.title)}</title>
+<style>
+@page { size: ${page.width}mm ${page.height}mm; margin: 0; }
+html, body { margin: 0; padding: 0; }
+body { font-family: 'Inter', system-ui, sans-serif; color: #1f2937; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+.page { width: ${page.width}mm; height: ${page.height}mm; padding: ${PAGE_MARGIN}mm; box-sizing: border-box; overflow: hidden; break-after: page; }
+.page:last-child { break-after: auto; }
+.drawing { width: ${drawingWidth}mm; height: ${drawingHeight}mm; }
+.drawing svg { display: block; }
+.title-block { display: flex; justify-content: space-between; align-items: center; height: ${TITLE_BLOCK_HEIGHT}mm; margin-top: ${TITLE_BLOCK_GAP}mm; padding: 0 4mm; box-sizing: border-box; border: 0.3mm solid #d1d5db; font-size: 9pt; }
+.title-block strong { font-size: 11pt; }
+.title-block span { color: #6b7280; margin-left: 3mm; }
+${fontCss}
+</style>
+</head>
+<body>
+${pages.join('\n')}
+</body>
+</html>`;
+
+    return { html, pageCount: pages.length };
+}
+
+// ============================================
+// LAYOUT
+// ============================================
+
+interface ViewBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Page-sized windows onto the diagram, in diagram units, row by row
+ */
+function tileViewBoxes(svg: StandaloneSvg, tileWidth: number, tileHeight: number): ViewBox[] {
+    const columns = Math.max(1, Math.ceil(svg.width / tileWidth));
+    const rows = Math.max(1, Math.ceil(svg.height / tileHeight));
+    const tiles: ViewBox[] = [];
+    for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+            tiles.push({ x: column * tileWidth, y: row * tileHeight, width: tileWidth, height: tileHeight });
+        }
+    }
+    return tiles;
+}
+
+function renderTitleBlock(data: DiagramData, date: string, page: number, pageCount: number): string {
+    const type = data.architectureType ? `<span>${escapeHtml(data.architectureType)}</span>` : '';
+    const pages = pageCount > 1 ? `<span>Page ${page} of ${pageCount}</span>` : '';
+    return `<footer class="title-block"><div><strong>${escapeHtml(data.title)}</strong>${type}</div><div>${escapeHtml(date)}${pages}</div></footer>`;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,451 @@
+/**
+ * Standalone SVG Export
+ * Turns the live diagram <svg> into a self-contained vector file that renders the same
+ * outside the app (browsers, Inkscape, Confluence):
+ *
+ * - theme CSS variables and `currentColor` are resolved to concrete colors
+ * - icons drawn inside <foreignObject> become <image>s with SVG data URIs, container
+ *   titles become <text>; custom images are inlined as data URIs
+ * - CSS transforms (from animations) become transform attributes
+ * - the web fonts the text uses are embedded as @font-face data URIs
+ * - the result is cropped to the content bounds plus padding
+ *
+ * Must run against the mounted canvas: layout and styles are read from the live DOM, all
+ * before buildStandaloneSvg first yields, so the canvas may change once it has been called.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SvgExportOptions {
+    // Space around the content, in diagram units (default 20)
+    padding?: number;
+    // Leave out the canvas background
+    transparent?: boolean;
+    // Ids of the nodes, links and containers to keep; the rest is left out and the crop fits what is kept
+    only?: string[];
+}
+
+export interface StandaloneSvg {
+    text: string;
+    width: number;
+    height: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const DEFAULT_PADDING = 20;
+const FALLBACK_BACKGROUND = '#FDFDFD';
+
+// Presentation properties that may come from inherited CSS rather than attributes
+const TEXT_PROPERTIES = ['font-family', 'font-size', 'font-weight', 'font-style', 'letter-spacing'];
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Build a standalone SVG from the diagram canvas (the <svg> holding `.diagram-content`)
+ */
+export async function buildStandaloneSvg(svg: SVGSVGElement, options: SvgExportOptions = {}): Promise<StandaloneSvg> {
+    const content = svg.querySelector<SVGGraphicsElement>('.diagram-content');
+    if (!content) throw new Error('Diagram content not found.');
+
+    const padding = options.padding ?? DEFAULT_PADDING;
+    const kept = options.only && new Set(options.only);
+    const bbox = kept ? keptBounds(svg, content, kept) : content.getBBox();
+    const width = Math.ceil(bbox.width + padding * 2);
+    const height = Math.ceil(bbox.height + padding * 2);
+    const rootStyle = getComputedStyle(document.documentElement);
+
+    // The clone mirrors the live tree element for element until it is rewritten below
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    const sources = [svg, ...Array.from(svg.querySelectorAll('*'))];
+    const targets = [clone, ...Array.from(clone.querySelectorAll('*'))];
+
+    const foreignObjects: [SVGForeignObjectElement, Element][] = [];
+    const handles: Element[] = [];
+    const leftOut: Element[] = [];
+    sources.forEach((source, i) => {
+        const target = targets[i];
+        const id = itemId(source);
+        if (kept && id && !kept.has(id)) leftOut.push(target);
+        if (source instanceof SVGForeignObjectElement) foreignObjects.push([source, target]);
+        if (source.matches('.connection-handle, rect[data-handle]')) handles.push(source.matches('.connection-handle') ? target.parentElement! : target);
+        if (source instanceof SVGElement) inlineStyles(source, target, rootStyle);
+    });
+
+    foreignObjects.forEach(([source, target]) => {
+        const replacement = flattenForeignObject(source, target, rootStyle);
+        if (replacement) target.replaceWith(replacement);
+        else target.remove();
+    });
+    // Connection and resize handles only exist for editing
+    handles.forEach(handle => handle.remove());
+    leftOut.forEach(item => item.remove());
+
+    // Keep the definitions and the content; drop the grid and editing overlays
+    const defs = clone.querySelector(':scope > defs') ?? document.createElementNS(SVG_NS, 'defs');
+    const clonedContent = clone.querySelector(':scope > .diagram-content')!;
+    clonedContent.setAttribute('transform', `translate(${round(padding - bbox.x)}, ${round(padding - bbox.y)})`);
+    clonedContent.removeAttribute('class');
+    Array.from(clone.childNodes).forEach(child => child.remove());
+    clone.append(defs);
+
+    if (!options.transparent) {
+        const background = document.createElementNS(SVG_NS, 'rect');
+        background.setAttribute('width', '100%');
+        background.setAttribute('height', '100%');
+        background.setAttribute('fill', rootStyle.getPropertyValue('--color-canvas-bg').trim() || FALLBACK_BACKGROUND);
+        clone.append(background);
+    }
+    clone.append(clonedContent);
+
+    clone.setAttribute('width', String(width));
+    clone.setAttribute('height', String(height));
+    clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+    clone.setAttribute('font-family', getComputedStyle(svg).fontFamily);
+    clone.removeAttribute('class');
+    clone.removeAttribute('style');
+
+    await inlineImages(clone);
+    const fonts = await embedFonts(clone);
+    if (fonts) {
+        const style = document.createElementNS(SVG_NS, 'style');
+        style.textContent = fonts;
+        defs.prepend(style);
+    }
+
+    const text = `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+    return { text, width, height };
+}
+
+/**
+ * Draw a standalone SVG onto a canvas and encode it as PNG
+ */
+export async function rasterizeSvg(svg: StandaloneSvg, scale = 2): Promise<Blob> {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(svg.width * scale);
+    canvas.height = Math.round(svg.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create canvas context.');
+
+    const img = await loadSvgImage(svg.text);
+    ctx.scale(scale, scale);
+    ctx.drawImage(img, 0, 0, svg.width, svg.height);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The canvas produced no image.'))), 'image/png');
+    });
+}
+
+/**
+ * Load SVG markup as an image, ready to draw onto a canvas
+ */
+export function loadSvgImage(svgText: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml' }));
+        const img = new Image();
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(img);
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('The SVG could not be loaded as an image.'));
+        };
+        img.src = url;
+    });
+}
+
+// ============================================
+// SELECTION
+// ============================================
+
+/**
+ * The diagram item an element draws, from the data-*-id attribute the canvas gives it
+ */
+function itemId(element: Element): string | null {
+    return element.getAttribute('data-node-id') ?? element.getAttribute('data-link-id') ?? element.getAttribute('data-container-id');
+}
+
+/**
+ * The bounds of the kept items, in diagram coordinates (those of `content`'s children)
+ */
+function keptBounds(svg: SVGSVGElement, content: SVGGraphicsElement, kept: Set<string>): DOMRect {
+    const toDiagram = content.getScreenCTM()?.inverse();
+    if (!toDiagram) throw new Error('The diagram canvas is not visible.');
+
+    let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+    svg.querySelectorAll('[data-node-id], [data-link-id], [data-container-id]').forEach(element => {
+        if (!kept.has(itemId(element)!)) return;
+        const rect = element.getBoundingClientRect();
+        [new DOMPoint(rect.left, rect.top), new DOMPoint(rect.right, rect.bottom)].forEach(corner => {
+            const point = corner.matrixTransform(toDiagram);
+            minX = Math.min(minX, point.x);
+            minY = Math.min(minY, point.y);
+            maxX = Math.max(maxX, point.x);
+            maxY = Math.max(maxY, point.y);
+        });
+    });
+    if (minX === Infinity) throw new Error('None of the selected items are on the canvas.');
+    return new DOMRect(minX, minY, maxX - minX, maxY - minY);
+}
+
+// ============================================
+// STYLES
+// ============================================
+
+/**
+ * Resolve `var(--name)` and `var(--name, fallback)` against the theme
+ */
+function resolveVariables(value: string, rootStyle: CSSStyleDeclaration): string {
+    let result = value;
+    // Innermost first, so fallbacks that are themselves variables resolve too
+    for (let i = 0; i < 10 && result.includes('var('); i++) {
+        result = result.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*(?:\([^()]*\)[^()]*)*))?\)/g, (_, name: string, fallback?: string) =>
+            rootStyle.getPropertyValue(name).trim() || fallback?.trim() || 'none');
+    }
+    return result;
+}
+
+/**
+ * Make an element's look independent of the page's stylesheets
+ */
+function inlineStyles(source: SVGElement, target: Element, rootStyle: CSSStyleDeclaration) {
+    const computed = getComputedStyle(source);
+
+    Array.from(target.attributes).forEach(attribute => {
+        let value = attribute.value;
+        if (value.includes('var(')) value = resolveVariables(value, rootStyle);
+        if (/currentColor/i.test(value)) value = value.replace(/currentColor/gi, computed.color);
+        if (value !== attribute.value) target.setAttribute(attribute.name, value);
+    });
+
+    // Animated elements are positioned with a CSS transform, which not every renderer reads
+    const style = (target as SVGElement).style;
+    if (source.style.transform) {
+        if (computed.transform && computed.transform !== 'none') target.setAttribute('transform', computed.transform);
+        ['transform', 'transform-origin', 'transform-box'].forEach(p => style.removeProperty(p));
+    }
+    ['cursor', 'pointer-events', 'user-select', 'transition'].forEach(p => style.removeProperty(p));
+    if (!target.getAttribute('style')) target.removeAttribute('style');
+
+    if (source instanceof SVGTextContentElement) {
+        TEXT_PROPERTIES.forEach(p => target.setAttribute(p, computed.getPropertyValue(p)));
+    }
+    // Editor-only styling (selection glow, hover) comes from classes
+    target.removeAttribute('class');
+}
+
+// ============================================
+// FOREIGN OBJECTS
+// ============================================
+
+/**
+ * SVG equivalent of a <foreignObject>: an icon becomes an <image>, a label a <text>.
+ * `target` is its clone, whose SVG content already has its styles inlined.
+ */
+function flattenForeignObject(source: SVGForeignObjectElement, target: Element, rootStyle: CSSStyleDeclaration): Element | null {
+    const x = source.x.baseVal.value;
+    const y = source.y.baseVal.value;
+    const frame = source.getBoundingClientRect();
+    // Screen pixels per diagram unit (the canvas may be zoomed)
+    const zoom = frame.width / (source.width.baseVal.value || 1) || 1;
+    const offset = (rect: DOMRect) => ({
+        x: round(x + (rect.left - frame.left) / zoom),
+        y: round(y + (rect.top - frame.top) / zoom),
+        width: round(rect.width / zoom),
+        height: round(rect.height / zoom),
+    });
+
+    const icon = source.querySelector('svg');
+    const iconClone = target.querySelector('svg');
+    if (icon && iconClone) {
+        const box = offset(icon.getBoundingClientRect());
+        iconClone.setAttribute('width', String(box.width));
+        iconClone.setAttribute('height', String(box.height));
+
+        const image = document.createElementNS(SVG_NS, 'image');
+        image.setAttribute('x', String(box.x));
+        image.setAttribute('y', String(box.y));
+        image.setAttribute('width', String(box.width));
+        image.setAttribute('height', String(box.height));
+        image.setAttribute('href', svgDataUri(new XMLSerializer().serializeToString(iconClone)));
+        return image;
+    }
+
+    const element = source.querySelector<HTMLElement>('*');
+    const label = element?.textContent?.trim();
+    if (!element || !label) return null;
+
+    const style = getComputedStyle(element);
+    const range = document.createRange();
+    range.selectNodeContents(element);
+    const box = offset(range.getBoundingClientRect());
+    // Labels are truncated with an ellipsis on the canvas
+    const visible = element.scrollWidth > element.clientWidth && element.clientWidth > 0
+        ? `${label.slice(0, Math.max(1, Math.floor(label.length * element.clientWidth / element.scrollWidth) - 1))}…`
+        : label;
+
+    const text = document.createElementNS(SVG_NS, 'text');
+    text.setAttribute('x', String(box.x));
+    text.setAttribute('y', String(round(box.y + box.height / 2)));
+    text.setAttribute('dominant-baseline', 'central');
+    text.setAttribute('fill', resolveVariables(style.color, rootStyle));
+    TEXT_PROPERTIES.forEach(p => text.setAttribute(p, style.getPropertyValue(p)));
+    text.textContent = visible;
+    return text;
+}
+
+// ============================================
+// IMAGES AND FONTS
+// ============================================
+
+/**
+ * Replace image URLs with data URIs; images that cannot be fetched keep their URL
+ */
+async function inlineImages(root: Element) {
+    const images = Array.from(root.querySelectorAll('image')).filter(image => {
+        const href = image.getAttribute('href') ?? image.getAttribute('xlink:href');
+        return href && !href.startsWith('data:');
+    });
+    await Promise.all(images.map(async image => {
+        const href = image.getAttribute('href') ?? image.getAttribute('xlink:href')!;
+        try {
+            const response = await fetch(href);
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            image.setAttribute('href', await blobToDataUri(await response.blob()));
+            image.removeAttribute('xlink:href');
+        } catch (error) {
+            console.warn(`[Export] Could not inline image ${href}:`, error);
+        }
+    }));
+}
+
+/**
+ * @font-face rules, with data URI sources, for the fonts the text uses and the characters it needs
+ */
+async function embedFonts(root: Element): Promise<string> {
+    const families = new Set<string>();
+    let characters = '';
+    [root, ...Array.from(root.querySelectorAll('text, [font-family]'))].forEach(el => {
+        const family = el.getAttribute('font-family');
+        if (family) family.split(',').forEach(f => families.add(unquoteFamily(f)));
+        if (el.tagName === 'text') characters += el.textContent ?? '';
+    });
+    if (families.size === 0) return '';
+
+    const faces = (await fontFaceRules()).filter(face =>
+        families.has(face.family) && (!face.unicodeRange || coversAny(face.unicodeRange, characters || 'a')));
+
+    const embedded = await Promise.all(faces.map(async face => {
+        try {
+            const response = await fetch(face.url);
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            const data = await blobToDataUri(await response.blob());
+            return face.cssText.replace(/src\s*:[^;}]*/, `src: url(${data})${face.format ? ` format('${face.format}')` : ''}`);
+        } catch (error) {
+            console.warn(`[Export] Could not embed the font ${face.family}:`, error);
+            return '';
+        }
+    }));
+    return embedded.filter(Boolean).join('\n');
+}
+
+interface FontFace {
+    family: string;
+    url: string;
+    format?: string;
+    unicodeRange?: string;
+    cssText: string;
+}
+
+/**
+ * Every @font-face of the page, including those of cross-origin stylesheets (read over fetch)
+ */
+async function fontFaceRules(): Promise<FontFace[]> {
+    const blocks: { cssText: string; base: string }[] = [];
+
+    const readSheet = async (sheet: CSSStyleSheet, base: string) => {
+        let rules: CSSRuleList;
+        try {
+            rules = sheet.cssRules;
+        } catch {
+            // Cross-origin: the rules are only readable as text
+            if (sheet.href) await readText(sheet.href);
+            return;
+        }
+        for (const rule of Array.from(rules)) {
+            if (rule instanceof CSSFontFaceRule) blocks.push({ cssText: rule.cssText, base: sheet.href ?? base });
+            else if (rule instanceof CSSImportRule) {
+                const href = new URL(rule.href, sheet.href ?? base).href;
+                if (rule.styleSheet) await readSheet(rule.styleSheet, href);
+                else await readText(href);
+            }
+        }
+    };
+    const readText = async (href: string) => {
+        try {
+            const response = await fetch(href);
+            if (!response.ok) return;
+            const css = await response.text();
+            css.match(/@font-face\s*\{[^}]*\}/g)?.forEach(cssText => blocks.push({ cssText, base: href }));
+        } catch (error) {
+            console.warn(`[Export] Could not read the stylesheet ${href}:`, error);
+        }
+    };
+
+    for (const sheet of Array.from(document.styleSheets)) await readSheet(sheet, document.baseURI);
+
+    return blocks.flatMap(({ cssText, base }) => {
+        const family = cssText.match(/font-family\s*:\s*([^;}]+)/)?.[1];
+        const sources = [...cssText.matchAll(/url\(\s*['"]?([^'")]+)['"]?\s*\)(?:\s*format\(\s*['"]?([\w-]+)['"]?\s*\))?/g)];
+        // Prefer the smallest widely supported format
+        const source = sources.find(s => s[2] === 'woff2') ?? sources.find(s => s[2] === 'woff') ?? sources[0];
+        if (!family || !source || source[1].startsWith('data:')) return [];
+        return [{
+            family: unquoteFamily(family),
+            url: new URL(source[1], base).href,
+            format: source[2],
+            unicodeRange: cssText.match(/unicode-range\s*:\s*([^;}]+)/)?.[1],
+            cssText,
+        }];
+    });
+}
+
+/**
+ * Whether a unicode-range (`U+0000-00FF, U+0131, U+4??`) covers any of the characters
+ */
+function coversAny(unicodeRange: string, characters: string): boolean {
+    const ranges = unicodeRange.split(',').map(part => {
+        const spec = part.trim().replace(/^U\+/i, '');
+        if (spec.includes('?')) return [parseInt(spec.replace(/\?/g, '0'), 16), parseInt(spec.replace(/\?/g, 'F'), 16)];
+        const [start, end] = spec.split('-').map(n => parseInt(n, 16));
+        return [start, end ?? start];
+    });
+    return Array.from(new Set(characters)).some(ch => {
+        const code = ch.codePointAt(0)!;
+        return ranges.some(([start, end]) => code >= start && code <= end);
+    });
+}
+
+function unquoteFamily(family: string): string {
+    return family.trim().replace(/^['"]|['"]$/g, '');
+}
+
+function svgDataUri(svgText: string): string {
+    return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svgText)))}`;
+}
+
+function blobToDataUri(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
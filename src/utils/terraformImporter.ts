@@ -0,0 +1,560 @@
+/**
+ * Terraform Importer
+ * Converts Terraform HCL (`.tf`) into DiagramData, offline and without running Terraform:
+ *
+ *   resource "aws_vpc" "main" { cidr_block = "10.0.0.0/16" }
+ *   resource "aws_subnet" "private" { vpc_id = aws_vpc.main.id }
+ *   resource "aws_instance" "web" {
+ *     subnet_id = aws_subnet.private.id
+ *     tags      = { Name = "Web Server" }
+ *   }
+ *   resource "aws_s3_bucket" "assets" {}
+ *   resource "aws_lambda_function" "resize" {
+ *     environment { variables = { BUCKET = aws_s3_bucket.assets.bucket } }
+ *     depends_on = [aws_instance.web]
+ *   }
+ *
+ * Networks become Containers (VPC → vpc, subnet → subnet, security group → security-group),
+ * nested by their references; other resources become nodes whose icon comes from the resource
+ * type, placed in the subnet, security group or VPC they reference. A reference from one
+ * resource to another becomes a link (`depends_on` ones dotted), and a few glue resources
+ * such as `aws_lambda_event_source_mapping` become the link between the resources they join.
+ *
+ * Supporting resources (IAM, routing, associations, listeners…) and data sources are left
+ * out. Terraform has no coordinates, so the whole diagram is auto-laid out.
+ */
+
+import { ArchNode, Link, Container, IconType } from '../types';
+import { layoutWholeDiagram } from './autoLayout';
+import { DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from './cubegenDSL';
+import type { ImportResult } from './diagramImport';
+import { groupByNetwork, networkContainers, NetworkContainerType, NetworkReference } from './networkGrouping';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface HclAttribute {
+    name: string;
+    // Expression source with comments removed
+    expression: string;
+}
+
+interface HclBlock {
+    type: string;
+    labels: string[];
+    attributes: HclAttribute[];
+    blocks: HclBlock[];
+    line: number;
+}
+
+interface Resource {
+    // `aws_instance.web`, or `module.network`
+    key: string;
+    type: string;
+    name: string;
+    block: HclBlock;
+}
+
+class HclSyntaxError extends Error {
+    constructor(message: string, public line: number) {
+        super(message);
+    }
+}
+
+// ============================================
+// RESOURCE TYPES
+// ============================================
+
+const NETWORK_CONTAINERS: Record<string, { type: NetworkContainerType; parentAttributes: string[] }> = {
+    aws_vpc: { type: 'vpc', parentAttributes: [] },
+    aws_subnet: { type: 'subnet', parentAttributes: ['vpc_id'] },
+    aws_security_group: { type: 'security-group', parentAttributes: ['vpc_id'] },
+    azurerm_virtual_network: { type: 'vpc', parentAttributes: [] },
+    azurerm_subnet: { type: 'subnet', parentAttributes: ['virtual_network_name'] },
+    azurerm_network_security_group: { type: 'security-group', parentAttributes: [] },
+    google_compute_network: { type: 'vpc', parentAttributes: [] },
+    google_compute_subnetwork: { type: 'subnet', parentAttributes: ['network'] },
+};
+
+// First match wins
+const RESOURCE_ICONS: [RegExp, IconType][] = [
+    [/^aws_(instance|launch_template|launch_configuration|autoscaling_group)$/, IconType.AwsEc2],
+    [/^aws_s3_bucket$/, IconType.AwsS3],
+    [/^aws_(db_instance|rds_cluster|rds_cluster_instance)$/, IconType.AwsRds],
+    [/^aws_lambda_function$/, IconType.AwsLambda],
+    [/^aws_(api_gateway_rest_api|apigatewayv2_api)$/, IconType.AwsApiGateway],
+    [/^aws_(lb|alb|elb)$/, IconType.AwsLoadBalancer],
+    [/^aws_cloudfront_distribution$/, IconType.AwsCloudfront],
+    [/^aws_ecs_(cluster|service)$/, IconType.AwsEcs],
+    [/^aws_eks_cluster$/, IconType.Kubernetes],
+    [/^aws_dynamodb_table$/, IconType.AwsDynamoDb],
+    [/^aws_sns_topic$/, IconType.AwsSns],
+    [/^aws_sqs_queue$/, IconType.AwsSqs],
+    [/^aws_(cloudwatch_event_bus|cloudwatch_event_rule|scheduler_schedule)$/, IconType.AwsEventbridge],
+    [/^aws_cloudwatch_(metric_alarm|log_group|dashboard)$/, IconType.AwsCloudwatch],
+    [/^aws_elasticache_(cluster|replication_group)$/, IconType.Cache],
+    [/^aws_secretsmanager_secret$/, IconType.SecretsManager],
+    [/^aws_cognito_user_pool$/, IconType.AuthService],
+    [/^aws_msk_cluster$/, IconType.Kafka],
+    [/^aws_kinesis_stream$/, IconType.MessageQueue],
+    [/^aws_(wafv2_web_acl|waf_web_acl|networkfirewall_firewall)$/, IconType.Firewall],
+    [/^aws_internet_gateway$/, IconType.Cloud],
+    [/^azurerm_(linux_|windows_)?virtual_machine(_scale_set)?$/, IconType.AzureVm],
+    [/^azurerm_storage_(account|container)$/, IconType.AzureBlobStorage],
+    [/^azurerm_(mssql_server|mssql_database|sql_server|sql_database|(postgresql|mysql)(_flexible)?_server)$/, IconType.AzureSqlDatabase],
+    [/^azurerm_((linux_|windows_)?web_app|app_service)$/, IconType.AzureAppService],
+    [/^azurerm_(linux_|windows_)?function_app$/, IconType.AzureFunctionApp],
+    [/^azurerm_servicebus_(namespace|queue|topic)$/, IconType.AzureServiceBus],
+    [/^azurerm_kubernetes_cluster$/, IconType.Kubernetes],
+    [/^azurerm_(lb|application_gateway)$/, IconType.LoadBalancer],
+    [/^azurerm_redis_cache$/, IconType.Cache],
+    [/^azurerm_key_vault$/, IconType.SecretsManager],
+    [/^google_compute_(instance|instance_template|instance_group_manager)$/, IconType.GcpComputeEngine],
+    [/^google_storage_bucket$/, IconType.GcpCloudStorage],
+    [/^google_sql_database_instance$/, IconType.GcpCloudSql],
+    [/^google_bigquery_(dataset|table)$/, IconType.GcpBigquery],
+    [/^google_pubsub_(topic|subscription)$/, IconType.GcpPubsub],
+    [/^google_container_cluster$/, IconType.Kubernetes],
+    [/^google_compute_(global_)?forwarding_rule$/, IconType.LoadBalancer],
+    [/^google_redis_instance$/, IconType.Cache],
+    [/^(kubernetes_|helm_release$)/, IconType.Kubernetes],
+    [/^docker_container$/, IconType.Docker],
+];
+
+// Resources that configure others rather than standing on their own
+const SUPPORTING_RESOURCES = [
+    /^aws_iam_/,
+    /_(policy|policy_attachment|attachment|association|permission|subscription|mapping|notification|target)$/,
+    /^aws_(route|route_table|security_group_rule|vpc_security_group_(ingress|egress)_rule|network_acl(_rule)?|eip|key_pair)$/,
+    /^aws_lb_(listener(_rule)?|target_group)$/,
+    /^aws_api_gateway_(resource|method|integration|deployment|stage|method_response|integration_response)$/,
+    /^aws_apigatewayv2_(route|integration|stage|deployment)$/,
+    /^aws_s3_bucket_/,
+    /^aws_(db|elasticache)_subnet_group$/,
+    /^aws_ecs_task_definition$/,
+    /^azurerm_(resource_group|network_interface|public_ip|role_assignment)$/,
+    /^google_(project_iam_|service_account|compute_firewall$)/,
+    /^(random|null|time|tls|local)_/,
+];
+
+// Glue resources drawn as links from the resource in the first attribute to those in the others
+const LINKING_RESOURCES: Record<string, [string, string[]]> = {
+    aws_lambda_event_source_mapping: ['event_source_arn', ['function_name']],
+    aws_sns_topic_subscription: ['topic_arn', ['endpoint']],
+    aws_cloudwatch_event_target: ['rule', ['arn']],
+    aws_lambda_permission: ['source_arn', ['function_name']],
+    aws_s3_bucket_notification: ['bucket', ['lambda_function', 'queue', 'topic']],
+};
+
+// Attributes that reference a network, by what they reference
+const NETWORK_ATTRIBUTES: Record<NetworkReference, string[]> = {
+    subnet: ['subnet_id', 'subnet_ids', 'subnets', 'subnetwork'],
+    subnetGroup: ['db_subnet_group_name', 'subnet_group_name'],
+    securityGroup: ['vpc_security_group_ids', 'security_groups', 'security_group_ids', 'network_security_group_id'],
+    vpc: ['vpc_id', 'network', 'virtual_network_name'],
+};
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+export function importTerraform(source: string): ImportResult {
+    let file: HclBlock;
+    try {
+        file = parseHcl(source);
+    } catch (error) {
+        if (error instanceof HclSyntaxError) {
+            return { success: false, errors: [`Line ${error.line}: ${error.message}`], warnings: [] };
+        }
+        throw error;
+    }
+
+    const warnings: string[] = [];
+    const resources = new Map<string, Resource>();
+    file.blocks.forEach(block => {
+        const resource: Resource | null = block.type === 'resource' && block.labels.length === 2
+            ? { key: `${block.labels[0]}.${block.labels[1]}`, type: block.labels[0], name: block.labels[1], block }
+            : block.type === 'module' && block.labels.length === 1
+                ? { key: `module.${block.labels[0]}`, type: 'module', name: block.labels[0], block }
+                : null;
+        if (!resource) return;
+        if (resources.has(resource.key)) warnings.push(`Line ${block.line}: "${resource.key}" is declared twice; kept the first.`);
+        else resources.set(resource.key, resource);
+    });
+
+    if (resources.size === 0) {
+        return { success: false, errors: ['No resources or modules found.'], warnings };
+    }
+
+    const data = toDiagram(resources, warnings);
+    const layout = layoutWholeDiagram(data.nodes, data.links, data.containers, { strategy: 'tiered' });
+
+    return {
+        success: true,
+        data: {
+            title: 'Terraform Infrastructure',
+            architectureType: 'terraform-import',
+            nodes: layout.nodes,
+            links: data.links,
+            containers: layout.containers.length > 0 ? layout.containers : undefined,
+        },
+        errors: [],
+        warnings,
+    };
+}
+
+/**
+ * Whether text looks like Terraform configuration
+ */
+export function isTerraformSource(text: string): boolean {
+    return /^\s*(resource|module|provider|terraform|variable|data)\s+("[^"]*"\s*)*\{/m.test(text);
+}
+
+// ============================================
+// HCL PARSER
+// ============================================
+
+/**
+ * Parse HCL into blocks and attributes. Expressions are kept as source text:
+ * references are all the diagram needs from them.
+ */
+function parseHcl(source: string): HclBlock {
+    const text = source.replace(/\r\n?/g, '\n');
+    let pos = 0;
+
+    const lineAt = (offset: number) => text.slice(0, offset).split('\n').length;
+    const fail = (message: string, offset = pos): never => {
+        throw new HclSyntaxError(message, lineAt(offset));
+    };
+
+    // Skip a comment starting at pos; returns false when there is none
+    const skipComment = (): boolean => {
+        if (text[pos] === '#' || text.startsWith('//', pos)) {
+            while (pos < text.length && text[pos] !== '\n') pos++;
+            return true;
+        }
+        if (text.startsWith('/*', pos)) {
+            const end = text.indexOf('*/', pos + 2);
+            if (end < 0) fail('Unclosed /* comment.');
+            pos = end + 2;
+            return true;
+        }
+        return false;
+    };
+
+    const skipSpace = (newlines: boolean) => {
+        while (pos < text.length) {
+            if (text[pos] === ' ' || text[pos] === '\t' || (newlines && text[pos] === '\n')) pos++;
+            else if (!skipComment()) break;
+        }
+    };
+
+    const readIdentifier = (): string | null => {
+        const match = /^[A-Za-z_][\w-]*/.exec(text.slice(pos, pos + 256));
+        if (!match) return null;
+        pos += match[0].length;
+        return match[0];
+    };
+
+    // A quoted string, interpolations included; returns its source text
+    const readString = (): string => {
+        const start = pos++;
+        while (pos < text.length && text[pos] !== '"') {
+            if (text[pos] === '\n') fail('Unterminated string.', start);
+            if (text[pos] === '\\') pos += 2;
+            else if (text.startsWith('${', pos) || text.startsWith('%{', pos)) {
+                pos += 2;
+                readExpression('}');
+                if (text[pos] !== '}') fail('Unterminated interpolation.', start);
+                pos++;
+            } else pos++;
+        }
+        if (pos >= text.length) fail('Unterminated string.', start);
+        pos++;
+        return text.slice(start, pos);
+    };
+
+    const readHeredoc = (): string => {
+        const start = pos;
+        const header = /^<<-?([A-Za-z_]\w*)[ \t]*\n/.exec(text.slice(pos));
+        if (!header) fail('Expected a heredoc marker after <<.');
+        const end = new RegExp(`^[ \\t]*${header![1]}[ \\t]*$`, 'm');
+        const match = end.exec(text.slice(pos + header![0].length));
+        if (!match) fail(`Heredoc ${header![1]} is never closed.`, start);
+        pos += header![0].length + match!.index + match![0].length;
+        return text.slice(start, pos);
+    };
+
+    /**
+     * An expression up to the end of its line, or up to `closer` when reading an interpolation.
+     * Newlines inside brackets do not end it.
+     */
+    const readExpression = (closer?: string): string => {
+        const start = pos;
+        const stack: string[] = [];
+        let out = '';
+        while (pos < text.length) {
+            const ch = text[pos];
+            if (stack.length === 0 && (ch === '\n' || ch === '}' || (closer && ch === closer))) break;
+            if (ch === '"') out += readString();
+            else if (text.startsWith('<<', pos) && /^<<-?[A-Za-z_]/.test(text.slice(pos, pos + 4))) out += readHeredoc();
+            else if (skipComment()) out += ' ';
+            else {
+                if (ch === '(' || ch === '[' || ch === '{') stack.push(ch === '(' ? ')' : ch === '[' ? ']' : '}');
+                else if (ch === ')' || ch === ']' || ch === '}') {
+                    if (stack.pop() !== ch) fail(`Unexpected "${ch}".`);
+                }
+                out += ch;
+                pos++;
+            }
+        }
+        if (stack.length > 0) fail(`Missing "${stack[stack.length - 1]}".`, start);
+        return out.trim();
+    };
+
+    const readBody = (block: HclBlock, closed: boolean) => {
+        for (;;) {
+            skipSpace(true);
+            if (pos >= text.length) {
+                if (closed) fail(`Block "${[block.type, ...block.labels].join(' ')}" is never closed.`, offsetOfLine(text, block.line));
+                return;
+            }
+            if (text[pos] === '}') {
+                if (!closed) fail('Unexpected "}".');
+                pos++;
+                return;
+            }
+
+            const itemStart = pos;
+            const name = readIdentifier();
+            if (!name) fail(`Unexpected "${text[pos]}".`);
+            skipSpace(false);
+
+            if (text[pos] === '=' && text[pos + 1] !== '=') {
+                pos++;
+                skipSpace(false);
+                const expression = readExpression();
+                if (!expression) fail(`"${name}" has no value.`, itemStart);
+                block.attributes.push({ name: name!, expression });
+                continue;
+            }
+
+            const child: HclBlock = { type: name!, labels: [], attributes: [], blocks: [], line: lineAt(itemStart) };
+            while (text[pos] !== '{') {
+                if (text[pos] === '"') child.labels.push(unquote(readString()));
+                else {
+                    const label = readIdentifier();
+                    if (!label) fail(`Expected "=" or "{" after "${name}".`);
+                    child.labels.push(label!);
+                }
+                skipSpace(false);
+            }
+            pos++;
+            readBody(child, true);
+            block.blocks.push(child);
+        }
+    };
+
+    const file: HclBlock = { type: '', labels: [], attributes: [], blocks: [], line: 1 };
+    readBody(file, false);
+    return file;
+}
+
+function offsetOfLine(text: string, line: number): number {
+    let offset = 0;
+    for (let i = 1; i < line; i++) offset = text.indexOf('\n', offset) + 1;
+    return offset;
+}
+
+/**
+ * The value of a string literal without interpolations, else undefined
+ */
+function unquote(expression: string): string {
+    return expression.slice(1, -1).replace(/\\(.)/g, (_, ch: string) => (ch === 'n' ? '\n' : ch === 't' ? '\t' : ch));
+}
+
+function stringValue(expression: string | undefined): string | undefined {
+    if (!expression || !/^"([^"\\$]|\\.|\$(?!\{))*"$/.test(expression)) return undefined;
+    return unquote(expression);
+}
+
+// ============================================
+// REFERENCES
+// ============================================
+
+// `aws_vpc.main.id`, `aws_instance.web[0]`, `module.network.vpc_id`, `data.aws_ami.ubuntu.id`
+const REFERENCE = /(?<![\w.])(data\.|module\.)?([A-Za-z_][\w-]*)\.([A-Za-z_][\w-]*)/g;
+
+/**
+ * Keys of the declared resources an expression refers to, in order
+ */
+function referencesIn(expression: string, resources: Map<string, Resource>): string[] {
+    const keys: string[] = [];
+    for (const match of expression.matchAll(REFERENCE)) {
+        if (match[1] === 'data.') continue;
+        const key = match[1] === 'module.' ? `module.${match[2]}` : `${match[2]}.${match[3]}`;
+        if (resources.has(key) && !keys.includes(key)) keys.push(key);
+    }
+    return keys;
+}
+
+/**
+ * References made by the named attributes, and by the whole of nested blocks with those names
+ */
+function referencesOf(block: HclBlock, names: string[], resources: Map<string, Resource>): string[] {
+    const expressions: string[] = [];
+    const collect = (b: HclBlock, all: boolean) => {
+        b.attributes.forEach(a => {
+            if (all || names.includes(a.name)) expressions.push(a.expression);
+        });
+        b.blocks.forEach(child => collect(child, all || names.includes(child.type)));
+    };
+    collect(block, false);
+    return [...new Set(expressions.flatMap(e => referencesIn(e, resources)))];
+}
+
+/**
+ * Every reference made anywhere in a block, except through depends_on
+ */
+function allReferences(block: HclBlock, resources: Map<string, Resource>): string[] {
+    const keys = new Set<string>();
+    const collect = (b: HclBlock) => {
+        b.attributes.forEach(a => {
+            if (a.name !== 'depends_on') referencesIn(a.expression, resources).forEach(key => keys.add(key));
+        });
+        b.blocks.forEach(collect);
+    };
+    collect(block);
+    return [...keys];
+}
+
+// ============================================
+// CONVERSION
+// ============================================
+
+function toDiagram(
+    resources: Map<string, Resource>,
+    warnings: string[]
+): { nodes: ArchNode[]; links: Link[]; containers: Container[] } {
+    const networks = new Map<string, NetworkContainerType>();
+    const nodeKeys: string[] = [];
+    const linking: Resource[] = [];
+    const supporting: string[] = [];
+    const untyped = new Set<string>();
+
+    resources.forEach(resource => {
+        if (NETWORK_CONTAINERS[resource.type]) networks.set(resource.key, NETWORK_CONTAINERS[resource.type].type);
+        else if (LINKING_RESOURCES[resource.type]) linking.push(resource);
+        else if (resource.type !== 'module' && !iconFor(resource.type) && SUPPORTING_RESOURCES.some(p => p.test(resource.type))) {
+            supporting.push(resource.key);
+        } else {
+            nodeKeys.push(resource.key);
+            if (resource.type !== 'module' && !iconFor(resource.type)) untyped.add(resource.type);
+        }
+    });
+
+    const ids = uniqueIds([...resources.keys()]);
+    const grouping = groupByNetwork({
+        containerTypes: networks,
+        nodeKeys,
+        parentReferences: key => referencesOf(resources.get(key)!.block, NETWORK_CONTAINERS[resources.get(key)!.type].parentAttributes, resources),
+        references: (key, kind) => referencesOf(resources.get(key)!.block, NETWORK_ATTRIBUTES[kind], resources),
+    });
+
+    const nodes: ArchNode[] = nodeKeys.map(key => {
+        const resource = resources.get(key)!;
+        return {
+            id: ids.get(key)!,
+            label: labelOf(resource),
+            type: resource.type === 'module' ? IconType.Generic : iconFor(resource.type) ?? IconType.Generic,
+            x: 0,
+            y: 0,
+            width: DEFAULT_NODE_WIDTH,
+            height: DEFAULT_NODE_HEIGHT,
+            description: descriptionOf(resource),
+        };
+    });
+
+    const links: Link[] = [];
+    const linked = new Set<string>();
+    const addLink = (from: string, to: string, dotted: boolean) => {
+        const pair = `${from}→${to}`;
+        if (from === to || linked.has(pair) || !nodeKeys.includes(from) || !nodeKeys.includes(to)) return;
+        linked.add(pair);
+        links.push({
+            id: `link-${links.length + 1}`,
+            source: ids.get(from)!,
+            target: ids.get(to)!,
+            ...(dotted && { style: 'dotted' as const }),
+        });
+    };
+    // References first, so a depends_on that repeats one stays solid
+    nodeKeys.forEach(key => allReferences(resources.get(key)!.block, resources).forEach(target => addLink(key, target, false)));
+    linking.forEach(resource => {
+        const [from, to] = LINKING_RESOURCES[resource.type];
+        referencesOf(resource.block, [from], resources).forEach(source =>
+            referencesOf(resource.block, to, resources).forEach(target => addLink(source, target, false)));
+    });
+    nodeKeys.forEach(key => {
+        const dependsOn = resources.get(key)!.block.attributes.find(a => a.name === 'depends_on');
+        if (dependsOn) referencesIn(dependsOn.expression, resources).forEach(target => addLink(key, target, true));
+    });
+
+    const containers = networkContainers(grouping, nodeKeys, key => ids.get(key)!, key => ({
+        label: labelOf(resources.get(key)!),
+        description: descriptionOf(resources.get(key)!),
+    }));
+    warnings.push(...grouping.warnings);
+
+    if (supporting.length > 0) {
+        warnings.push(`Left out ${supporting.length} supporting resource${supporting.length !== 1 ? 's' : ''}: ${supporting.join(', ')}.`);
+    }
+    if (untyped.size > 0) {
+        warnings.push(`No matching icon for ${[...untyped].join(', ')}; shown as generic nodes.`);
+    }
+
+    return { nodes, links, containers };
+}
+
+function iconFor(type: string): IconType | undefined {
+    return RESOURCE_ICONS.find(([pattern]) => pattern.test(type))?.[1];
+}
+
+/**
+ * The Name tag or a name argument when it is a plain string, else the resource name
+ */
+function labelOf(resource: Resource): string {
+    const attribute = (name: string) => resource.block.attributes.find(a => a.name === name)?.expression;
+    const tag = attribute('tags')?.match(/\bName\s*[=:]\s*("(?:[^"\\]|\\.)*")/)?.[1];
+    const named = ['name', 'function_name', 'bucket', 'identifier'].map(a => stringValue(attribute(a))).find(Boolean);
+    return stringValue(tag) ?? named ?? resource.name;
+}
+
+function descriptionOf(resource: Resource): string {
+    const attribute = (name: string) => resource.block.attributes.find(a => a.name === name)?.expression;
+    if (resource.type === 'module') {
+        const source = stringValue(attribute('source'));
+        return source ? `module.${resource.name} (${source})` : resource.key;
+    }
+    const count = attribute('count');
+    if (count) return `${resource.key} × ${/^\d+$/.test(count) ? count : 'count'}`;
+    if (attribute('for_each')) return `${resource.key}, one per for_each entry`;
+    return resource.key;
+}
+
+/**
+ * Diagram ids from resource keys: `aws_instance.web` → `aws_instance_web`
+ */
+function uniqueIds(keys: string[]): Map<string, string> {
+    const ids = new Map<string, string>();
+    const used = new Set<string>();
+    keys.forEach(key => {
+        const base = key.replace(/[^\w-]/g, '_');
+        let id = base;
+        for (let n = 2; used.has(id); n++) id = `${base}_${n}`;
+        used.add(id);
+        ids.set(key, id);
+    });
+    return ids;
+}
@@ -0,0 +1,389 @@
+/**
+ * Text Exporters
+ * Write DiagramData as Mermaid flowchart, PlantUML component diagram or Graphviz DOT source,
+ * so diagrams can live in READMEs and wikis that render those formats.
+ *
+ * Containers become subgraphs (Mermaid), packages/frames (PlantUML) or clusters (DOT), nested
+ * as on the canvas. Node shapes and link styles (dotted/dashed, thickness, color, direction,
+ * missing arrowhead) are mapped where the format has an equivalent and dropped otherwise.
+ * Positions are not exported: each format lays the diagram out itself, in the flow direction
+ * the canvas suggests. draw.io files (drawioConverter.ts), which keep positions, are offered
+ * alongside.
+ */
+
+import { DiagramData, ArchNode, Link, Container, NodeShape } from '../types';
+import { exportDrawio } from './drawioConverter';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type TextExportFormat = 'mermaid' | 'plantuml' | 'dot' | 'drawio';
+
+export interface TextExporter {
+    label: string;
+    extension: string;
+    mimeType: string;
+    write: (data: DiagramData) => string;
+}
+
+export const TEXT_EXPORTERS: Record<TextExportFormat, TextExporter> = {
+    mermaid: { label: 'Mermaid', extension: 'mmd', mimeType: 'text/plain', write: exportMermaid },
+    plantuml: { label: 'PlantUML', extension: 'puml', mimeType: 'text/plain', write: exportPlantUml },
+    dot: { label: 'Graphviz DOT', extension: 'dot', mimeType: 'text/vnd.graphviz', write: exportDot },
+    drawio: { label: 'draw.io', extension: 'drawio', mimeType: 'application/xml', write: exportDrawio },
+};
+
+export function isTextExportFormat(format: string): format is TextExportFormat {
+    return format in TEXT_EXPORTERS;
+}
+
+/** Containers with what is directly inside each, as on the canvas */
+interface Structure {
+    roots: Container[];
+    childContainers: Map<string, Container[]>;
+    childNodes: Map<string, ArchNode[]>;
+    rootNodes: ArchNode[];
+    // Node ids as the target format can write them
+    ids: Map<string, string>;
+    horizontal: boolean;
+}
+
+const INDENT = '    ';
+
+// ============================================
+// MERMAID
+// ============================================
+
+const MERMAID_SHAPES: Partial<Record<NodeShape, [string, string]>> = {
+    'rounded-rectangle': ['(', ')'],
+    ellipse: ['([', '])'],
+    circle: ['((', '))'],
+    cylinder: ['[(', ')]'],
+    storage: ['[(', ')]'],
+    diamond: ['{', '}'],
+    hexagon: ['{{', '}}'],
+    parallelogram: ['[/', '/]'],
+    component: ['[[', ']]'],
+    step: ['>', ']'],
+};
+
+// Words Mermaid reads as keywords when used as a node id
+const MERMAID_RESERVED = new Set(['end', 'graph', 'flowchart', 'subgraph', 'direction', 'style', 'class', 'classDef', 'click', 'linkStyle']);
+
+/**
+ * Mermaid flowchart source
+ */
+export function exportMermaid(data: DiagramData): string {
+    const structure = analyze(data, id => {
+        const safe = id.replace(/[^\w]/g, '_');
+        return MERMAID_RESERVED.has(safe) ? `${safe}_` : safe;
+    });
+    const { ids } = structure;
+    const label = (text: string) => `"${text.replace(/"/g, '#quot;').replace(/\n/g, '<br>')}"`;
+    const lines: string[] = ['---', `title: ${data.title.replace(/\n/g, ' ')}`, '---', `flowchart ${structure.horizontal ? 'LR' : 'TB'}`];
+    const styles: string[] = [];
+
+    const writeNode = (node: ArchNode, depth: number) => {
+        const [open, close] = (node.shape && MERMAID_SHAPES[node.shape]) || ['[', ']'];
+        lines.push(`${INDENT.repeat(depth)}${ids.get(node.id)}${open}${label(node.label)}${close}`);
+        const declarations = [
+            cssColor(node.color) && `fill:${node.color}`,
+            cssColor(node.borderColor) && `stroke:${node.borderColor}`,
+            (node.borderStyle === 'dashed' || node.borderStyle === 'dotted') && 'stroke-dasharray:5 5',
+        ].filter(Boolean);
+        if (declarations.length > 0) styles.push(`${INDENT}style ${ids.get(node.id)} ${declarations.join(',')}`);
+    };
+
+    const writeContainer = (container: Container, depth: number) => {
+        const indent = INDENT.repeat(depth);
+        lines.push(`${indent}subgraph ${ids.get(container.id)}[${label(container.label)}]`);
+        if (container.orientation) lines.push(`${indent}${INDENT}direction ${container.orientation === 'horizontal' ? 'LR' : 'TB'}`);
+        structure.childContainers.get(container.id)?.forEach(c => writeContainer(c, depth + 1));
+        structure.childNodes.get(container.id)?.forEach(n => writeNode(n, depth + 1));
+        lines.push(`${indent}end`);
+        if (cssColor(container.color)) styles.push(`${INDENT}style ${ids.get(container.id)} fill:${container.color}`);
+    };
+
+    structure.roots.forEach(c => writeContainer(c, 1));
+    structure.rootNodes.forEach(n => writeNode(n, 1));
+
+    validLinks(data).forEach((link, index) => {
+        const dotted = link.style === 'dotted' || link.style === 'dashed';
+        const thick = link.thickness === 'thick';
+        const line = dotted ? '-.-' : thick ? '===' : '---';
+        const arrow = link.arrowheadStyle === 'none'
+            ? line
+            : `${link.bidirectional ? '<' : ''}${dotted ? '-.->' : thick ? '==>' : '-->'}`;
+        const text = link.label ? `|${label(link.label)}|` : '';
+        lines.push(`${INDENT}${ids.get(endpointId(link.source))} ${arrow}${text} ${ids.get(endpointId(link.target))}`);
+        if (cssColor(link.color)) styles.push(`${INDENT}linkStyle ${index} stroke:${link.color}`);
+    });
+
+    return [...lines, ...styles].join('\n') + '\n';
+}
+
+// ============================================
+// PLANTUML
+// ============================================
+
+const PLANTUML_ELEMENTS: Partial<Record<NodeShape, string>> = {
+    cylinder: 'database',
+    storage: 'database',
+    actor: 'actor',
+    cloud: 'cloud',
+    queue: 'queue',
+    folder: 'folder',
+    document: 'file',
+    ellipse: 'usecase',
+    circle: 'circle',
+    hexagon: 'hexagon',
+};
+
+// Words PlantUML reads as keywords when used as an alias
+const PLANTUML_RESERVED = new Set(['end', 'as', 'title', 'note', 'left', 'right', 'up', 'down', 'package', 'node', 'component', 'database']);
+
+const PLANTUML_GROUPS: Record<Container['type'], string> = {
+    region: 'cloud',
+    'availability-zone': 'frame',
+    vpc: 'frame',
+    subnet: 'frame',
+    'security-group': 'frame',
+    tier: 'package',
+    group: 'package',
+    rectangle: 'rectangle',
+    circle: 'rectangle',
+    triangle: 'rectangle',
+};
+
+/**
+ * PlantUML component diagram source
+ */
+export function exportPlantUml(data: DiagramData): string {
+    const structure = analyze(data, id => {
+        const safe = id.replace(/[^\w]/g, '_');
+        return PLANTUML_RESERVED.has(safe) ? `${safe}_` : safe;
+    });
+    const { ids } = structure;
+    const text = (value: string) => value.replace(/"/g, "'").replace(/\n/g, '\\n');
+    const lines: string[] = ['@startuml', `title ${text(data.title)}`];
+    if (structure.horizontal) lines.push('left to right direction');
+
+    const writeNode = (node: ArchNode, depth: number) => {
+        const element = (node.shape && PLANTUML_ELEMENTS[node.shape]) || 'component';
+        const color = plantUmlColor(node.color);
+        lines.push(`${INDENT.repeat(depth)}${element} "${text(node.label)}" as ${ids.get(node.id)}${color ? ` ${color}` : ''}`);
+    };
+
+    const writeContainer = (container: Container, depth: number) => {
+        const indent = INDENT.repeat(depth);
+        const color = plantUmlColor(container.color);
+        lines.push(`${indent}${PLANTUML_GROUPS[container.type] ?? 'package'} "${text(container.label)}" as ${ids.get(container.id)}${color ? ` ${color}` : ''} {`);
+        structure.childContainers.get(container.id)?.forEach(c => writeContainer(c, depth + 1));
+        structure.childNodes.get(container.id)?.forEach(n => writeNode(n, depth + 1));
+        lines.push(`${indent}}`);
+    };
+
+    structure.roots.forEach(c => writeContainer(c, 0));
+    structure.rootNodes.forEach(n => writeNode(n, 0));
+
+    validLinks(data).forEach(link => {
+        const dotted = link.style === 'dotted' || link.style === 'dashed';
+        const options = [
+            plantUmlColor(link.color),
+            dotted ? link.style : undefined,
+            link.thickness === 'thick' && 'bold',
+        ].filter(Boolean);
+        const body = `${dotted ? '.' : '-'}${options.length > 0 ? `[${options.join(',')}]` : ''}${dotted ? '.' : '-'}`;
+        const arrow = link.arrowheadStyle === 'none' ? body : `${link.bidirectional ? '<' : ''}${body}>`;
+        const label = link.label ? ` : ${text(link.label)}` : '';
+        lines.push(`${ids.get(endpointId(link.source))} ${arrow} ${ids.get(endpointId(link.target))}${label}`);
+    });
+
+    lines.push('@enduml');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * PlantUML takes hex colors and color names after a `#`; CSS variables have no equivalent
+ */
+function plantUmlColor(color: string | undefined): string | undefined {
+    if (!color) return undefined;
+    if (color.startsWith('#')) return color;
+    return /^[a-z]+$/i.test(color) ? `#${color}` : undefined;
+}
+
+// ============================================
+// GRAPHVIZ DOT
+// ============================================
+
+const DOT_SHAPES: Partial<Record<NodeShape, string>> = {
+    ellipse: 'ellipse',
+    circle: 'circle',
+    diamond: 'diamond',
+    triangle: 'triangle',
+    hexagon: 'hexagon',
+    cylinder: 'cylinder',
+    storage: 'cylinder',
+    document: 'note',
+    folder: 'folder',
+    component: 'component',
+    pentagon: 'pentagon',
+    octagon: 'octagon',
+    parallelogram: 'parallelogram',
+    cloud: 'egg',
+    step: 'cds',
+    tape: 'tab',
+};
+
+const DOT_THICKNESS: Record<NonNullable<Link['thickness']>, number> = { thin: 1, medium: 1.5, thick: 3 };
+
+/**
+ * Graphviz DOT source
+ */
+export function exportDot(data: DiagramData): string {
+    const structure = analyze(data, id => id);
+    const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+    const attributes = (values: Record<string, string | number | undefined>) => {
+        const list = Object.entries(values).filter(([, v]) => v !== undefined).map(([k, v]) => `${k}=${typeof v === 'number' ? v : quote(v!)}`);
+        return list.length > 0 ? ` [${list.join(', ')}]` : '';
+    };
+    const lines: string[] = [
+        `digraph ${quote(data.title)} {`,
+        `${INDENT}graph${attributes({ label: data.title, labelloc: 't', rankdir: structure.horizontal ? 'LR' : 'TB' })};`,
+        `${INDENT}node [shape=box, style="rounded"];`,
+    ];
+
+    const writeNode = (node: ArchNode, depth: number) => {
+        const fill = cssColor(node.color);
+        const dashed = node.borderStyle === 'dashed' || node.borderStyle === 'dotted' ? node.borderStyle : undefined;
+        lines.push(`${INDENT.repeat(depth)}${quote(node.id)}${attributes({
+            label: node.label,
+            shape: node.shape && node.shape !== 'rectangle' && node.shape !== 'rounded-rectangle' ? DOT_SHAPES[node.shape] : undefined,
+            style: dotNodeStyle([node.shape === 'rectangle' ? undefined : 'rounded', fill && 'filled', dashed]),
+            fillcolor: fill,
+            color: cssColor(node.borderColor),
+        })};`);
+    };
+
+    const writeContainer = (container: Container, depth: number) => {
+        const indent = INDENT.repeat(depth);
+        const fill = cssColor(container.color);
+        const dashed = container.borderStyle === 'dashed' || container.borderStyle === 'dotted' ? container.borderStyle : undefined;
+        lines.push(`${indent}subgraph ${quote(`cluster_${container.id}`)} {`);
+        lines.push(`${indent}${INDENT}graph${attributes({
+            label: container.label,
+            style: [fill && 'filled', dashed].filter(Boolean).join(',') || undefined,
+            fillcolor: fill,
+            color: cssColor(container.borderColor),
+        })};`);
+        structure.childContainers.get(container.id)?.forEach(c => writeContainer(c, depth + 1));
+        structure.childNodes.get(container.id)?.forEach(n => writeNode(n, depth + 1));
+        lines.push(`${indent}}`);
+    };
+
+    structure.roots.forEach(c => writeContainer(c, 1));
+    structure.rootNodes.forEach(n => writeNode(n, 1));
+
+    validLinks(data).forEach(link => {
+        const width = link.strokeWidth ?? (link.thickness && DOT_THICKNESS[link.thickness]);
+        lines.push(`${INDENT}${quote(endpointId(link.source))} -> ${quote(endpointId(link.target))}${attributes({
+            label: link.label,
+            style: link.style === 'dotted' || link.style === 'dashed' ? link.style : undefined,
+            color: cssColor(link.color),
+            penwidth: width,
+            dir: link.bidirectional ? 'both' : link.arrowheadStyle === 'none' ? 'none' : undefined,
+        })};`);
+    });
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * The node style when it differs from the default `rounded`
+ */
+function dotNodeStyle(parts: (string | undefined)[]): string | undefined {
+    const style = parts.filter(Boolean).join(',');
+    return style === 'rounded' ? undefined : style;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Nest containers and nodes as on the canvas and give every element an id the format accepts
+ */
+function analyze(data: DiagramData, toId: (id: string) => string): Structure {
+    const containers = data.containers ?? [];
+    const containerIds = new Set(containers.map(c => c.id));
+    const byId = new Map(containers.map(c => [c.id, c]));
+
+    // Containers and nodes share one namespace in Mermaid and PlantUML
+    const ids = new Map<string, string>();
+    const used = new Set<string>();
+    [...containers, ...data.nodes].forEach(item => {
+        let id = toId(item.id) || 'item';
+        if (/^\d/.test(id) && id !== item.id) id = `n${id}`;
+        let unique = id;
+        for (let n = 2; used.has(unique); n++) unique = `${id}_${n}`;
+        used.add(unique);
+        ids.set(item.id, unique);
+    });
+
+    const parentOf = (c: Container) => {
+        const parent = c.parentContainerId ?? containers.find(p => p.childContainerIds?.includes(c.id))?.id;
+        return parent && containerIds.has(parent) && parent !== c.id ? parent : undefined;
+    };
+    const depth = (c: Container): number => {
+        let level = 0;
+        for (let parent = parentOf(c); parent && level < containers.length; parent = parentOf(byId.get(parent)!)) level++;
+        return level;
+    };
+
+    const childContainers = new Map<string, Container[]>();
+    const roots: Container[] = [];
+    containers.forEach(c => {
+        const parent = parentOf(c);
+        if (parent) childContainers.set(parent, [...(childContainers.get(parent) ?? []), c]);
+        else roots.push(c);
+    });
+
+    // A node listed by several containers goes into the innermost one
+    const childNodes = new Map<string, ArchNode[]>();
+    const rootNodes: ArchNode[] = [];
+    data.nodes.forEach(node => {
+        const owner = containers
+            .filter(c => c.childNodeIds.includes(node.id))
+            .sort((a, b) => depth(b) - depth(a))[0];
+        if (owner) childNodes.set(owner.id, [...(childNodes.get(owner.id) ?? []), node]);
+        else rootNodes.push(node);
+    });
+
+    const xs = data.nodes.map(n => n.x);
+    const ys = data.nodes.map(n => n.y);
+    const horizontal = data.nodes.length === 0 || Math.max(...xs) - Math.min(...xs) >= Math.max(...ys) - Math.min(...ys);
+
+    return { roots, childContainers, childNodes, rootNodes, ids, horizontal };
+}
+
+/**
+ * Links whose both ends are nodes of the diagram
+ */
+function validLinks(data: DiagramData): Link[] {
+    const nodeIds = new Set(data.nodes.map(n => n.id));
+    return data.links.filter(l => nodeIds.has(endpointId(l.source)) && nodeIds.has(endpointId(l.target)));
+}
+
+/**
+ * Hex colors and color names, which Mermaid and DOT both read; CSS variables and color
+ * functions (whose commas break Mermaid style lists) are dropped
+ */
+function cssColor(color: string | undefined): string | undefined {
+    return color?.startsWith('#') || /^[a-z]+$/i.test(color ?? '') ? color : undefined;
+}
+
+function endpointId(endpoint: string | ArchNode): string {
+    return typeof endpoint === 'string' ? endpoint : endpoint.id;
+}
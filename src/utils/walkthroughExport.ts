@@ -0,0 +1,241 @@
+/**
+ * Walkthrough Export
+ * Turns a standalone diagram SVG (see svgExport) into a short looping clip that builds
+ * the diagram up step by step, for explaining a request flow in docs and slides:
+ *
+ * - nodes fade in grouped by `animationOrder`, lowest first; nodes without one are there
+ *   from the start (when no node has an order, they appear one by one, left to right)
+ * - a link appears once both of its ends are shown
+ * - dashes flow along animated links throughout, as on the canvas
+ * - the finished diagram is held for a moment before the clip loops
+ *
+ * Frames are rasterized on a 2D canvas and encoded in-process: GIF by gifEncoder, WebM
+ * from the canvas's WebP frames by webmEncoder. Neither uses the GPU or a media encoder.
+ */
+
+import type { ArchNode, DiagramData } from '../types';
+import { loadSvgImage, StandaloneSvg } from './svgExport';
+import { buildGifPalette, GifEncoder } from './gifEncoder';
+import { WebmEncoder } from './webmEncoder';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type WalkthroughFormat = 'gif' | 'webm';
+
+export interface WalkthroughOptions {
+    // Pixel ratio, lowered if the clip would exceed MAX_PIXELS
+    scale: number;
+    // Called with the share of frames rendered so far
+    onProgress?: (fraction: number) => void;
+}
+
+/**
+ * One frame of the clip: how visible each node is and how far the flow has moved
+ */
+export interface WalkthroughFrame {
+    nodeOpacity: Map<string, number>;
+    flowOffset: number;
+}
+
+const FRAME_MS = 80;
+const FADE_FRAMES = 4;
+const HOLD_FRAMES = 8;
+const INTRO_FRAMES = 6;
+const OUTRO_FRAMES = 25;
+// Diagram units the flow dashes move per frame (the canvas animation moves 24 per second)
+const FLOW_STEP = 2;
+// About 1080p; larger clips take long to encode and are rarely wanted
+const MAX_PIXELS = 1920 * 1080;
+const WEBP_QUALITY = 0.9;
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * The steps of the walkthrough: node IDs revealed together, in order, after the nodes
+ * shown from the start
+ */
+export function walkthroughSteps(nodes: ArchNode[]): { initial: string[]; steps: string[][] } {
+    const ordered = nodes.filter(n => typeof n.animationOrder === 'number');
+    if (ordered.length === 0) {
+        const byPosition = [...nodes].sort((a, b) => a.x - b.x || a.y - b.y);
+        return { initial: [], steps: byPosition.map(n => [n.id]) };
+    }
+
+    const orders = [...new Set(ordered.map(n => n.animationOrder!))].sort((a, b) => a - b);
+    return {
+        initial: nodes.filter(n => typeof n.animationOrder !== 'number').map(n => n.id),
+        steps: orders.map(order => ordered.filter(n => n.animationOrder === order).map(n => n.id)),
+    };
+}
+
+/**
+ * Every frame of the walkthrough, each lasting FRAME_MS
+ */
+export function walkthroughFrames(data: DiagramData): WalkthroughFrame[] {
+    const { initial, steps } = walkthroughSteps(data.nodes);
+    const opacity = new Map<string, number>(data.nodes.map(n => [n.id, 0]));
+    initial.forEach(id => opacity.set(id, 1));
+
+    const frames: WalkthroughFrame[] = [];
+    const addFrames = (count: number) => {
+        for (let i = 0; i < count; i++) {
+            frames.push({ nodeOpacity: new Map(opacity), flowOffset: frames.length * FLOW_STEP });
+        }
+    };
+
+    addFrames(INTRO_FRAMES);
+    steps.forEach(step => {
+        for (let i = 1; i <= FADE_FRAMES; i++) {
+            step.forEach(id => opacity.set(id, i / FADE_FRAMES));
+            addFrames(1);
+        }
+        addFrames(HOLD_FRAMES);
+    });
+    addFrames(OUTRO_FRAMES);
+    return frames;
+}
+
+/**
+ * Render the walkthrough and encode it; `svg` must come from buildStandaloneSvg for `data`
+ */
+export async function buildWalkthrough(svg: StandaloneSvg, data: DiagramData, format: WalkthroughFormat, options: WalkthroughOptions): Promise<Blob> {
+    const scale = Math.min(options.scale, Math.sqrt(MAX_PIXELS / (svg.width * svg.height)));
+    // VP8 and GIF both want whole pixels; VP8 prefers even sizes
+    const width = Math.max(2, Math.round(svg.width * scale / 2) * 2);
+    const height = Math.max(2, Math.round(svg.height * scale / 2) * 2);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not create canvas context.');
+
+    const scene = new WalkthroughScene(svg, data);
+    const frames = walkthroughFrames(data);
+    const transparent = !scene.hasBackground;
+
+    const draw = async (frame: WalkthroughFrame): Promise<ImageData> => {
+        const img = await loadSvgImage(scene.render(frame));
+        ctx.clearRect(0, 0, width, height);
+        // WebM has no alpha channel, so a transparent diagram goes on white
+        if (format === 'webm' && transparent) {
+            ctx.fillStyle = '#FFFFFF';
+            ctx.fillRect(0, 0, width, height);
+        }
+        ctx.drawImage(img, 0, 0, width, height);
+        return ctx.getImageData(0, 0, width, height);
+    };
+
+    // The finished diagram holds every color the clip uses, apart from blends while fading
+    const gif = format === 'gif'
+        ? new GifEncoder(width, height, buildGifPalette((await draw(frames[frames.length - 1])).data, transparent))
+        : null;
+    const webm = format === 'webm' ? new WebmEncoder(width, height) : null;
+
+    // Frames that look the same as the one before (nothing fading or flowing) extend it
+    let pending: { pixels: ImageData; webp?: Uint8Array<ArrayBuffer>; duration: number } | null = null;
+    const flush = () => {
+        if (!pending) return;
+        if (gif) gif.addFrame(pending.pixels.data, pending.duration / 10);
+        if (webm) webm.addFrame(pending.webp!, pending.duration);
+    };
+
+    for (let i = 0; i < frames.length; i++) {
+        const pixels = await draw(frames[i]);
+        if (pending && samePixels(pending.pixels, pixels)) {
+            pending.duration += FRAME_MS;
+        } else {
+            flush();
+            pending = { pixels, webp: webm ? dataUriBytes(canvas.toDataURL('image/webp', WEBP_QUALITY)) : undefined, duration: FRAME_MS };
+        }
+        options.onProgress?.((i + 1) / frames.length);
+    }
+    flush();
+
+    return gif ? gif.finish() : webm!.finish();
+}
+
+// ============================================
+// SCENE
+// ============================================
+
+/**
+ * The diagram SVG, parsed once, with the elements each frame changes
+ */
+class WalkthroughScene {
+    readonly hasBackground: boolean;
+    private root: Element;
+    private nodes = new Map<string, Element[]>();
+    private links: { elements: Element[]; source: string; target: string }[] = [];
+    private flowPaths: Element[] = [];
+
+    constructor(svg: StandaloneSvg, data: DiagramData) {
+        this.root = new DOMParser().parseFromString(svg.text, 'image/svg+xml').documentElement;
+        if (this.root.nodeName !== 'svg') throw new Error('The diagram SVG could not be read.');
+        // buildStandaloneSvg puts the background rect straight under the root
+        this.hasBackground = Array.from(this.root.children).some(child => child.nodeName === 'rect');
+
+        const animated = new Set(data.links.filter(l => l.animated).map(l => l.id));
+        const linkElements = new Map<string, Element[]>();
+        Array.from(this.root.querySelectorAll('[data-node-id], [data-link-id]')).forEach(element => {
+            const nodeId = element.getAttribute('data-node-id');
+            const linkId = element.getAttribute('data-link-id');
+            if (nodeId) this.nodes.set(nodeId, [...(this.nodes.get(nodeId) ?? []), element]);
+            if (linkId) {
+                linkElements.set(linkId, [...(linkElements.get(linkId) ?? []), element]);
+                if (animated.has(linkId)) this.flowPaths.push(...Array.from(element.querySelectorAll('path[stroke-dasharray]')));
+            }
+        });
+        data.links.forEach(link => {
+            const elements = linkElements.get(link.id);
+            if (elements) this.links.push({ elements, source: endpointId(link.source), target: endpointId(link.target) });
+        });
+    }
+
+    /**
+     * The SVG markup of one frame
+     */
+    render(frame: WalkthroughFrame): string {
+        const opacityOf = (id: string) => frame.nodeOpacity.get(id) ?? 1;
+        this.nodes.forEach((elements, id) => elements.forEach(element => setOpacity(element, opacityOf(id))));
+        this.links.forEach(link => {
+            const opacity = Math.min(opacityOf(link.source), opacityOf(link.target));
+            link.elements.forEach(element => setOpacity(element, opacity));
+        });
+        // A falling offset moves the dashes from source to target
+        this.flowPaths.forEach(path => path.setAttribute('stroke-dashoffset', String(-frame.flowOffset)));
+        return new XMLSerializer().serializeToString(this.root);
+    }
+}
+
+function setOpacity(element: Element, opacity: number) {
+    if (opacity >= 1) element.removeAttribute('opacity');
+    else element.setAttribute('opacity', String(Math.round(opacity * 100) / 100));
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function samePixels(a: ImageData, b: ImageData): boolean {
+    const x = new Uint32Array(a.data.buffer);
+    const y = new Uint32Array(b.data.buffer);
+    if (x.length !== y.length) return false;
+    for (let i = 0; i < x.length; i++) if (x[i] !== y[i]) return false;
+    return true;
+}
+
+function dataUriBytes(uri: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(uri.slice(uri.indexOf(',') + 1));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+function endpointId(endpoint: string | ArchNode): string {
+    return typeof endpoint === 'string' ? endpoint : endpoint.id;
+}
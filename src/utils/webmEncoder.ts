@@ -0,0 +1,204 @@
+/**
+ * WebM Encoder
+ * Muxes still frames into a WebM video. Each frame arrives as a lossy WebP image (as the
+ * canvas encodes it in software with `toDataURL('image/webp')`), whose VP8 bitstream is a
+ * VP8 key frame as is; the frames only need wrapping in Matroska elements:
+ *
+ *   EBML header
+ *   Segment
+ *     Info (timecode scale, duration)
+ *     Tracks (one V_VP8 video track)
+ *     Cluster* (timecode, SimpleBlock per frame)
+ *
+ * Frames may have different durations, so held frames are stored once.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+type Chunk = Uint8Array<ArrayBuffer>;
+
+// Matroska element IDs, with their length marker bits
+const EBML = 0x1a45dfa3;
+const EBML_VERSION = 0x4286;
+const EBML_READ_VERSION = 0x42f7;
+const EBML_MAX_ID_LENGTH = 0x42f2;
+const EBML_MAX_SIZE_LENGTH = 0x42f3;
+const DOC_TYPE = 0x4282;
+const DOC_TYPE_VERSION = 0x4287;
+const DOC_TYPE_READ_VERSION = 0x4285;
+const SEGMENT = 0x18538067;
+const INFO = 0x1549a966;
+const TIMECODE_SCALE = 0x2ad7b1;
+const DURATION = 0x4489;
+const MUXING_APP = 0x4d80;
+const WRITING_APP = 0x5741;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_NUMBER = 0xd7;
+const TRACK_UID = 0x73c5;
+const TRACK_TYPE = 0x83;
+const FLAG_LACING = 0x9c;
+const CODEC_ID = 0x86;
+const VIDEO = 0xe0;
+const PIXEL_WIDTH = 0xb0;
+const PIXEL_HEIGHT = 0xba;
+const CLUSTER = 0x1f43b675;
+const TIMECODE = 0xe7;
+const SIMPLE_BLOCK = 0xa3;
+
+// Block timecodes are 16-bit offsets from their cluster's, in milliseconds
+const MAX_CLUSTER_SPAN = 30000;
+
+// ============================================
+// ENCODER
+// ============================================
+
+/**
+ * Collects frames; `finish` returns the video
+ */
+export class WebmEncoder {
+    private clusters: Chunk[][] = [];
+    private cluster: { start: number; blocks: Chunk[][] } | null = null;
+    private time = 0;
+
+    constructor(private width: number, private height: number) {}
+
+    /**
+     * Add a frame, as the bytes of a lossy WebP image, shown for `duration` milliseconds
+     */
+    addFrame(webp: Chunk, duration: number) {
+        const frame = vp8Bitstream(webp);
+        if (!this.cluster || this.time - this.cluster.start > MAX_CLUSTER_SPAN) {
+            this.closeCluster();
+            this.cluster = { start: this.time, blocks: [] };
+        }
+
+        // Track 1, timecode relative to the cluster, key frame flag
+        const header = new Uint8Array(4);
+        header[0] = 0x81;
+        new DataView(header.buffer).setInt16(1, this.time - this.cluster.start);
+        header[3] = 0x80;
+        this.cluster.blocks.push(element(SIMPLE_BLOCK, [header, frame]));
+        this.time += Math.max(1, Math.round(duration));
+    }
+
+    finish(): Blob {
+        this.closeCluster();
+        const header = element(EBML, [
+            uintElement(EBML_VERSION, 1),
+            uintElement(EBML_READ_VERSION, 1),
+            uintElement(EBML_MAX_ID_LENGTH, 4),
+            uintElement(EBML_MAX_SIZE_LENGTH, 8),
+            stringElement(DOC_TYPE, 'webm'),
+            uintElement(DOC_TYPE_VERSION, 2),
+            uintElement(DOC_TYPE_READ_VERSION, 2),
+        ].flat());
+        const segment = element(SEGMENT, [
+            element(INFO, [
+                uintElement(TIMECODE_SCALE, 1000000),
+                floatElement(DURATION, this.time),
+                stringElement(MUXING_APP, 'CubeGen AI'),
+                stringElement(WRITING_APP, 'CubeGen AI'),
+            ].flat()),
+            element(TRACKS, element(TRACK_ENTRY, [
+                uintElement(TRACK_NUMBER, 1),
+                uintElement(TRACK_UID, 1),
+                uintElement(FLAG_LACING, 0),
+                stringElement(CODEC_ID, 'V_VP8'),
+                uintElement(TRACK_TYPE, 1),
+                element(VIDEO, [uintElement(PIXEL_WIDTH, this.width), uintElement(PIXEL_HEIGHT, this.height)].flat()),
+            ].flat())),
+            ...this.clusters,
+        ].flat());
+        return new Blob([...header, ...segment], { type: 'video/webm' });
+    }
+
+    private closeCluster() {
+        if (!this.cluster) return;
+        this.clusters.push(element(CLUSTER, [uintElement(TIMECODE, this.cluster.start), ...this.cluster.blocks].flat()));
+        this.cluster = null;
+    }
+}
+
+// ============================================
+// WEBP
+// ============================================
+
+/**
+ * The VP8 bitstream inside a lossy WebP file
+ */
+function vp8Bitstream(webp: Chunk): Chunk {
+    const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+    if (fourCC(webp, 0) !== 'RIFF' || fourCC(webp, 8) !== 'WEBP') {
+        throw new Error('This browser cannot encode WebP images, which WebM export needs.');
+    }
+    // Chunks follow the 12-byte header, each padded to an even length
+    for (let offset = 12; offset + 8 <= webp.length;) {
+        const type = fourCC(webp, offset);
+        const size = view.getUint32(offset + 4, true);
+        if (type === 'VP8 ') return webp.subarray(offset + 8, offset + 8 + size);
+        if (type === 'VP8L') throw new Error('The browser encoded a lossless WebP frame, which WebM cannot hold.');
+        offset += 8 + size + (size % 2);
+    }
+    throw new Error('A WebP frame held no image data.');
+}
+
+function fourCC(bytes: Uint8Array, offset: number): string {
+    return String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 4)));
+}
+
+// ============================================
+// EBML
+// ============================================
+
+/**
+ * An element as chunks: its ID, its size and its payload
+ */
+function element(id: number, payload: Chunk[]): Chunk[] {
+    const size = payload.reduce((sum, chunk) => sum + chunk.length, 0);
+    return [idBytes(id), sizeBytes(size), ...payload];
+}
+
+function uintElement(id: number, value: number): Chunk[] {
+    const bytes: number[] = [];
+    do {
+        bytes.unshift(value % 256);
+        value = Math.floor(value / 256);
+    } while (value > 0);
+    return element(id, [new Uint8Array(bytes)]);
+}
+
+function floatElement(id: number, value: number): Chunk[] {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setFloat64(0, value);
+    return element(id, [bytes]);
+}
+
+function stringElement(id: number, value: string): Chunk[] {
+    return element(id, [new TextEncoder().encode(value)]);
+}
+
+function idBytes(id: number): Chunk {
+    const bytes: number[] = [];
+    for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value % 256);
+    return new Uint8Array(bytes);
+}
+
+/**
+ * A size as an EBML variable-length integer, in as few bytes as it fits
+ */
+function sizeBytes(size: number): Chunk {
+    let length = 1;
+    // All ones is reserved for "unknown size"
+    while (size >= 2 ** (7 * length) - 1) length++;
+    const bytes = new Uint8Array(length);
+    let value = size;
+    for (let i = length - 1; i >= 0; i--) {
+        bytes[i] = value % 256;
+        value = Math.floor(value / 256);
+    }
+    bytes[0] |= 0x80 >> (length - 1);
+    return bytes;
+}
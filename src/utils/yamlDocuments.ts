@@ -0,0 +1,39 @@
+/**
+ * YAML Documents
+ * Reads the YAML (or JSON) sources of the infrastructure importers, reporting syntax
+ * errors the way the importers report everything else.
+ */
+
+import { loadAll, LoadOptions, YAMLException } from 'js-yaml';
+
+export type YamlMap = Record<string, unknown>;
+
+/**
+ * Every document in the source (`---` separated), or the first syntax error as "Line N: ..."
+ */
+export function readYamlDocuments(source: string, options?: LoadOptions): { documents: unknown[] } | { error: string } {
+    try {
+        return { documents: loadAll(source, null, options).filter(doc => doc !== null && doc !== undefined) };
+    } catch (error) {
+        if (error instanceof YAMLException) return { error: `Line ${error.mark.line + 1}: ${error.reason}` };
+        throw error;
+    }
+}
+
+export function isYamlMap(value: unknown): value is YamlMap {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A map entry that should be a string; numbers and booleans are accepted as written
+ */
+export function yamlString(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+}
+
+/**
+ * A map entry that should be a list; anything else counts as empty
+ */
+export function yamlList(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+}
@@ -8,6 +8,10 @@ interface Window {
         close: () => Promise<void>
         saveFile: (content: string) => Promise<boolean>
         loadFile: () => Promise<string | null>
+        openDslFile: () => Promise<{ path: string; content: string } | null>
+        saveDslFile: (content: string, path?: string) => Promise<string | null>
+        readDslImport: (fromFile: string, spec: string) => Promise<{ path: string; content: string } | { error: string }>
+        exportPdf: (html: string, fileName: string) => Promise<{ path: string } | { error: string } | null>
         autoSaveToDisk: (key: string, content: string) => Promise<boolean>
         autoLoadFromDisk: (key: string) => Promise<string | null>
         onBeforeQuit: (callback: () => void) => void